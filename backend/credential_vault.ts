@@ -0,0 +1,157 @@
+import * as crypto from "crypto";
+import type { Store } from "./database/database";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH_BYTES = 32;
+const IV_LENGTH_BYTES = 12;
+
+/**
+ * The Canva user the credentials belong to, as decoded from the JWT by the middleware.
+ */
+export type CredentialOwner = {
+  brandId: string;
+  userId: string;
+};
+
+export type PlatformCredentials = {
+  platform: string;
+  businessId: string;
+  email: string;
+  password: string;
+};
+
+/**
+ * The parts of a connection that are safe to send back to the app.
+ */
+export type ConnectionSummary = Omit<PlatformCredentials, "password">;
+
+type EncryptedRecord = {
+  iv: string;
+  tag: string;
+  ciphertext: string;
+};
+
+export type VaultData = Record<string, EncryptedRecord>;
+
+const toStorageKey = ({ brandId, userId }: CredentialOwner) =>
+  `${brandId}:${userId}`;
+
+/**
+ * Stores salon platform credentials encrypted at rest with AES-256-GCM.
+ *
+ * @remarks
+ * Each record is bound to its owner through the GCM additional authenticated data, so a
+ * record copied to another user's key fails to decrypt rather than leaking credentials.
+ */
+export class CredentialVault {
+  constructor(
+    private readonly store: Store<VaultData>,
+    private readonly key: Buffer,
+  ) {
+    if (key.length !== KEY_LENGTH_BYTES) {
+      throw new CredentialVaultError(
+        `Encryption key must be ${KEY_LENGTH_BYTES} bytes, got ${key.length}.`,
+      );
+    }
+  }
+
+  /**
+   * Creates a vault using the base64 encoded key in the `CREDENTIALS_ENCRYPTION_KEY`
+   * environment variable.
+   * @param store - Where to keep the encrypted records.
+   * @throws CredentialVaultError if the variable is missing or isn't a 32 byte key.
+   */
+  static fromEnv(
+    store: Store<VaultData>,
+    env: NodeJS.ProcessEnv = process.env,
+  ): CredentialVault {
+    const { CREDENTIALS_ENCRYPTION_KEY } = env;
+    if (!CREDENTIALS_ENCRYPTION_KEY) {
+      throw new CredentialVaultError(
+        "The CREDENTIALS_ENCRYPTION_KEY environment variable is undefined. Generate one with `openssl rand -base64 32` and add it to the project's .env file.",
+      );
+    }
+    return new CredentialVault(
+      store,
+      Buffer.from(CREDENTIALS_ENCRYPTION_KEY, "base64"),
+    );
+  }
+
+  /**
+   * Encrypts and stores credentials, replacing any the owner saved before.
+   */
+  async save(owner: CredentialOwner, credentials: PlatformCredentials) {
+    const record = this.encrypt(owner, credentials);
+    await this.store.update((data) => ({
+      ...data,
+      [toStorageKey(owner)]: record,
+    }));
+  }
+
+  /**
+   * Returns the owner's decrypted credentials, or `undefined` if they haven't connected.
+   * @throws CredentialVaultError if the stored record can't be decrypted.
+   */
+  async get(owner: CredentialOwner): Promise<PlatformCredentials | undefined> {
+    const data = await this.store.read();
+    const record = data[toStorageKey(owner)];
+    return record && this.decrypt(owner, record);
+  }
+
+  async remove(owner: CredentialOwner) {
+    await this.store.update((data) => {
+      const { [toStorageKey(owner)]: _removed, ...rest } = data;
+      return rest;
+    });
+  }
+
+  private encrypt(
+    owner: CredentialOwner,
+    credentials: PlatformCredentials,
+  ): EncryptedRecord {
+    const iv = crypto.randomBytes(IV_LENGTH_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+    cipher.setAAD(Buffer.from(toStorageKey(owner)));
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(credentials), "utf8"),
+      cipher.final(),
+    ]);
+    return {
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      ciphertext: ciphertext.toString("base64"),
+    };
+  }
+
+  private decrypt(
+    owner: CredentialOwner,
+    record: EncryptedRecord,
+  ): PlatformCredentials {
+    try {
+      const decipher = crypto.createDecipheriv(
+        ALGORITHM,
+        this.key,
+        Buffer.from(record.iv, "base64"),
+      );
+      decipher.setAAD(Buffer.from(toStorageKey(owner)));
+      decipher.setAuthTag(Buffer.from(record.tag, "base64"));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(record.ciphertext, "base64")),
+        decipher.final(),
+      ]);
+      return JSON.parse(plaintext.toString("utf8"));
+    } catch {
+      throw new CredentialVaultError(
+        "Stored credentials could not be decrypted. The encryption key may have changed.",
+      );
+    }
+  }
+}
+
+export class CredentialVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    Object.setPrototypeOf(this, CredentialVaultError.prototype);
+  }
+}
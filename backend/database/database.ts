@@ -0,0 +1,73 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+/**
+ * Somewhere a backend module can keep its state between requests.
+ */
+export interface Store<T> {
+  read(): Promise<T>;
+
+  /**
+   * Applies a change to the stored value. Updates are applied one at a time, so each
+   * mutator sees the result of the previous one.
+   * @param mutator - Receives the current value and returns the new value.
+   */
+  update(mutator: (current: T) => T): Promise<T>;
+}
+
+/**
+ * A {@link Store} backed by a JSON file on disk. Good enough for development and small
+ * deployments; swap in a real database by implementing {@link Store}.
+ */
+export class JSONFileDatabase<T> implements Store<T> {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param file - The path of the JSON file. It is created on first write.
+   * @param initialValue - The value to return while the file doesn't exist.
+   */
+  constructor(
+    private readonly file: string,
+    private readonly initialValue: T,
+  ) {}
+
+  async read(): Promise<T> {
+    try {
+      const contents = await fs.readFile(this.file, "utf8");
+      return JSON.parse(contents) as T;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return JSON.parse(JSON.stringify(this.initialValue)) as T;
+      }
+      throw e;
+    }
+  }
+
+  update(mutator: (current: T) => T): Promise<T> {
+    const next = this.pending.then(async () => {
+      const updated = mutator(await this.read());
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.writeFile(this.file, JSON.stringify(updated, null, 2));
+      return updated;
+    });
+    // Keep the queue going even if this update fails
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+}
+
+/**
+ * A {@link Store} that only lives as long as the process. Useful for tests.
+ */
+export class InMemoryDatabase<T> implements Store<T> {
+  constructor(private value: T) {}
+
+  async read(): Promise<T> {
+    return this.value;
+  }
+
+  async update(mutator: (current: T) => T): Promise<T> {
+    this.value = mutator(this.value);
+    return this.value;
+  }
+}
@@ -0,0 +1,49 @@
+import type { NamePrivacy } from "../src/models";
+import { applyNamePrivacy, DEFAULT_NAME_PRIVACY } from "../src/models";
+import type { Store } from "./database/database";
+import type { CachedReviewPage } from "./review_cache";
+
+// Keyed by brand ID, so the setting applies to everyone in a brand
+export type NamePrivacyData = Record<string, NamePrivacy>;
+
+/**
+ * Remembers how much of their clients' names each brand shows in reviews.
+ */
+export class NamePrivacyStore {
+  constructor(private readonly store: Store<NamePrivacyData>) {}
+
+  /**
+   * Returns the brand's setting, or {@link DEFAULT_NAME_PRIVACY} if nobody in the brand
+   * has chosen one.
+   */
+  async get(brandId: string): Promise<NamePrivacy> {
+    const data = await this.store.read();
+    return data[brandId] || DEFAULT_NAME_PRIVACY;
+  }
+
+  /**
+   * Stores the brand's setting, replacing any saved before.
+   */
+  async save(brandId: string, privacy: NamePrivacy) {
+    await this.store.update((data) => ({ ...data, [brandId]: privacy }));
+  }
+}
+
+/**
+ * Removes the parts of client names a brand hides from a page of reviews before it's
+ * served. Records that failed validation are served without their raw contents, since
+ * they may hold a name that couldn't be reduced.
+ */
+export function hideClientNames(
+  page: CachedReviewPage,
+  privacy: NamePrivacy,
+): CachedReviewPage {
+  if (privacy.mode === "full") {
+    return page;
+  }
+  return {
+    ...page,
+    reviews: page.reviews.map((review) => applyNamePrivacy(review, privacy)),
+    rejected: page.rejected.map(({ reasons }) => ({ record: null, reasons })),
+  };
+}
@@ -0,0 +1,42 @@
+import type { Request, Response } from "express";
+import { getProvider } from "../src/providers";
+import type { CredentialVault, PlatformCredentials } from "./credential_vault";
+import { CredentialVaultError } from "./credential_vault";
+
+/**
+ * Opens a session with the salon platform the credentials belong to.
+ */
+export async function openPlatformSession({
+  platform,
+  ...credentials
+}: PlatformCredentials) {
+  const provider = getProvider(platform);
+  const session = await provider.authenticate(credentials);
+  return { provider, session };
+}
+
+/**
+ * Loads the requesting user's credentials from the vault. If the user hasn't connected,
+ * or their credentials can no longer be decrypted, responds with a 409 and returns
+ * `undefined` so the app can ask them to connect again.
+ */
+export async function loadCredentials(
+  vault: CredentialVault,
+  req: Request,
+  res: Response,
+): Promise<PlatformCredentials | undefined> {
+  try {
+    const credentials = await vault.get(req.canva);
+    if (credentials) {
+      return credentials;
+    }
+  } catch (e) {
+    if (!(e instanceof CredentialVaultError)) {
+      throw e;
+    }
+    await vault.remove(req.canva);
+  }
+
+  res.status(409).json({ error: "not_connected" });
+  return undefined;
+}
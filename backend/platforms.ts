@@ -0,0 +1,42 @@
+import { RATING_SCALES } from "../src/models";
+import type { ProviderOptions, ReviewProvider } from "../src/providers";
+import {
+  createBoulevardProvider,
+  createMindbodyProvider,
+  createPhorestProvider,
+  registerProvider,
+} from "../src/providers";
+
+const PROVIDER_FACTORIES: Record<
+  string,
+  (options: ProviderOptions) => ReviewProvider
+> = {
+  phorest: createPhorestProvider,
+  mindbody: createMindbodyProvider,
+  boulevard: createBoulevardProvider,
+};
+
+/**
+ * Applies the overrides set in the environment to each provider: the API base URL, such as
+ * `PHOREST_API_URL`, and the rating scale, such as `PHOREST_RATING_SCALE=nps`.
+ * `npm start -- --mock-platforms` uses this to run the backend against local stand-ins for
+ * the salon platforms.
+ */
+export function registerProviderOverrides(
+  env: NodeJS.ProcessEnv = process.env,
+) {
+  Object.entries(PROVIDER_FACTORIES).forEach(([id, createProvider]) => {
+    const prefix = id.toUpperCase();
+    const baseUrl = env[`${prefix}_API_URL`];
+    const scale = env[`${prefix}_RATING_SCALE`];
+    const ratingScale = RATING_SCALES.find((known) => known === scale);
+    if (scale && !ratingScale) {
+      throw new Error(
+        `${prefix}_RATING_SCALE must be one of ${RATING_SCALES.join(", ")}, got '${scale}'.`,
+      );
+    }
+    if (baseUrl || ratingScale) {
+      registerProvider(createProvider({ baseUrl, ratingScale }));
+    }
+  });
+}
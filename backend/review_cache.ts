@@ -0,0 +1,258 @@
+import type { Branch, RejectedRecord, Review } from "../src/models";
+import type { ReviewPage, ReviewPageFetcher } from "../src/providers";
+import { fetchAllReviews } from "../src/providers";
+import type { Store } from "./database/database";
+
+// How long cached reviews are served before the next read syncs with the platform
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+// The shortest time between syncs, even when the user asks for a refresh
+const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+// The number of cached reviews returned per page
+const PAGE_SIZE = 20;
+// The most rejected records kept for a branch
+const MAX_REJECTED = 100;
+
+/**
+ * Identifies the reviews of one branch, as seen by one Canva brand.
+ */
+export type ReviewCacheKey = {
+  brandId: string;
+  platform: string;
+  businessId: string;
+  branchId: string;
+};
+
+export type CachedReviews = {
+  // Sorted newest first.
+  reviews: Review[];
+  rejected: RejectedRecord[];
+  // An ISO 8601 timestamp of the last successful sync with the platform.
+  lastSyncedAt: string;
+};
+
+export type ReviewCacheData = Record<string, CachedReviews>;
+
+/**
+ * A page of cached reviews, as returned to the app.
+ */
+export type CachedReviewPage = ReviewPage & {
+  lastSyncedAt: string;
+  // Branches left out of a listing of every branch because they couldn't be synced.
+  failedBranches?: Branch[];
+};
+
+/**
+ * The reviews of several branches, combined by {@link combineBranchReviews}.
+ */
+export type CombinedReviews = CachedReviews & {
+  failedBranches?: Branch[];
+};
+
+type CombineOptions = {
+  // Whether the platform's review IDs are unique across every branch, rather than only
+  // within a branch.
+  globalReviewIds: boolean;
+};
+
+type SyncOptions = {
+  // Sync even if the cache is fresh, as long as it's older than the minimum refresh interval.
+  force?: boolean;
+};
+
+const toStorageKey = ({
+  brandId,
+  platform,
+  businessId,
+  branchId,
+}: ReviewCacheKey) => `${brandId}:${platform}:${businessId}:${branchId}`;
+
+const byNewest = (a: Review, b: Review) =>
+  Date.parse(b.reviewDate) - Date.parse(a.reviewDate);
+
+/**
+ * Merges freshly fetched reviews into the cached ones. Fetched reviews replace cached
+ * reviews with the same ID, so edits made on the platform are picked up.
+ */
+const mergeReviews = (cached: Review[], fetched: Review[]): Review[] => {
+  const merged = new Map(cached.map((review) => [review.reviewId, review]));
+  fetched.forEach((review) => merged.set(review.reviewId, review));
+  return Array.from(merged.values()).sort(byNewest);
+};
+
+// Reads the ID of a rejected record, as the platform or the provider adapter named it
+const rejectedIdOf = ({ record }: RejectedRecord): string | undefined => {
+  if (typeof record !== "object" || record == null) {
+    return undefined;
+  }
+  const { reviewId, id } = record as Record<string, unknown>;
+  const value = reviewId ?? id;
+  return typeof value === "string" || typeof value === "number"
+    ? String(value)
+    : undefined;
+};
+
+/**
+ * Merges freshly rejected records into the cached ones. Records whose review has since
+ * been accepted are dropped, and only the most recent {@link MAX_REJECTED} are kept.
+ */
+const mergeRejected = (
+  cached: RejectedRecord[],
+  fetched: RejectedRecord[],
+  accepted: Review[],
+): RejectedRecord[] => {
+  const acceptedIds = new Set(accepted.map((review) => review.reviewId));
+  const seen = new Set(cached.map((rejected) => JSON.stringify(rejected)));
+  return [
+    ...cached,
+    ...fetched.filter((rejected) => !seen.has(JSON.stringify(rejected))),
+  ]
+    .filter((rejected) => {
+      const id = rejectedIdOf(rejected);
+      return id === undefined || !acceptedIds.has(id);
+    })
+    .slice(-MAX_REJECTED);
+};
+
+/**
+ * Keeps a local copy of each branch's reviews so the app can browse them without calling
+ * the salon platform on every request.
+ *
+ * @remarks
+ * Syncs are incremental: the platforms list reviews newest first, so paging stops at the
+ * first page with nothing newer than the newest cached review.
+ */
+export class ReviewCache {
+  private readonly syncing = new Map<string, Promise<CachedReviews>>();
+
+  constructor(
+    private readonly store: Store<ReviewCacheData>,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async get(key: ReviewCacheKey): Promise<CachedReviews | undefined> {
+    const data = await this.store.read();
+    return data[toStorageKey(key)];
+  }
+
+  /**
+   * Brings the cached reviews up to date with the platform, unless they were synced
+   * recently. Concurrent syncs of the same branch share a single fetch.
+   * @param key - The branch to sync.
+   * @param fetchPage - Fetches a page of the branch's reviews from the platform.
+   * @param options - Whether the user asked for the sync.
+   */
+  async sync(
+    key: ReviewCacheKey,
+    fetchPage: ReviewPageFetcher,
+    { force = false }: SyncOptions = {},
+  ): Promise<CachedReviews> {
+    const cached = await this.get(key);
+    if (cached) {
+      const age = this.now() - Date.parse(cached.lastSyncedAt);
+      if (age < (force ? MIN_REFRESH_INTERVAL_MS : SYNC_INTERVAL_MS)) {
+        return cached;
+      }
+    }
+
+    const storageKey = toStorageKey(key);
+    let syncing = this.syncing.get(storageKey);
+    if (!syncing) {
+      syncing = this.fetchChanges(storageKey, cached, fetchPage).finally(() =>
+        this.syncing.delete(storageKey),
+      );
+      this.syncing.set(storageKey, syncing);
+    }
+    return syncing;
+  }
+
+  private async fetchChanges(
+    storageKey: string,
+    cached: CachedReviews | undefined,
+    fetchPage: ReviewPageFetcher,
+  ): Promise<CachedReviews> {
+    const newestCached = cached?.reviews[0];
+    const listing = await fetchAllReviews(fetchPage, {
+      // A page with no valid reviews says nothing about how old the rest are
+      until: newestCached
+        ? (page) =>
+            page.reviews.length > 0 &&
+            page.reviews.every((review) => byNewest(review, newestCached) >= 0)
+        : undefined,
+    });
+
+    const reviews = mergeReviews(cached?.reviews || [], listing.reviews);
+    const updated: CachedReviews = {
+      reviews,
+      rejected: mergeRejected(
+        cached?.rejected || [],
+        listing.rejected,
+        reviews,
+      ),
+      lastSyncedAt: new Date(this.now()).toISOString(),
+    };
+    await this.store.update((data) => ({ ...data, [storageKey]: updated }));
+    return updated;
+  }
+}
+
+/**
+ * Combines the cached reviews of several branches into one listing, tagging each review
+ * with its branch. Where review IDs are unique across branches, reviews that appear under
+ * more than one branch are only kept once. Otherwise the branch ID is added to each review
+ * ID, so reviews of different branches that share an ID are all kept and can be told apart.
+ * @param entries - Each branch and its cached reviews.
+ * @param options - How unique the platform's review IDs are.
+ */
+export function combineBranchReviews(
+  entries: { branch: Branch; cached: CachedReviews }[],
+  { globalReviewIds }: CombineOptions,
+): CachedReviews {
+  const seen = new Set<string>();
+  const reviews = entries
+    .flatMap(({ branch, cached }) =>
+      cached.reviews.map((review) => ({
+        ...review,
+        reviewId: globalReviewIds
+          ? review.reviewId
+          : `${branch.id}:${review.reviewId}`,
+        branch,
+      })),
+    )
+    .sort(byNewest)
+    .filter((review) => {
+      if (seen.has(review.reviewId)) {
+        return false;
+      }
+      seen.add(review.reviewId);
+      return true;
+    });
+
+  // The combined listing is only as fresh as its least recently synced branch
+  const [oldestSync] = entries.map(({ cached }) => cached.lastSyncedAt).sort();
+  return {
+    reviews,
+    rejected: entries.flatMap(({ cached }) => cached.rejected),
+    lastSyncedAt: oldestSync || new Date().toISOString(),
+  };
+}
+
+/**
+ * Returns a page of cached reviews. Rejected records are all returned with the first page.
+ * @param cached - The cached reviews of a branch, or of several combined.
+ * @param cursor - The offset of the page, from a previous page's `nextCursor`.
+ */
+export function pageCachedReviews(
+  { reviews, rejected, lastSyncedAt, failedBranches }: CombinedReviews,
+  cursor?: string,
+): CachedReviewPage {
+  const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+  const end = offset + PAGE_SIZE;
+  return {
+    reviews: reviews.slice(offset, end),
+    rejected: offset === 0 ? rejected : [],
+    nextCursor: end < reviews.length ? String(end) : undefined,
+    total: reviews.length + rejected.length,
+    lastSyncedAt,
+    ...(failedBranches?.length && { failedBranches }),
+  };
+}
@@ -0,0 +1,82 @@
+import * as express from "express";
+import type {
+  ConnectionSummary,
+  CredentialOwner,
+  CredentialVault,
+  PlatformCredentials,
+} from "../credential_vault";
+import { CredentialVaultError } from "../credential_vault";
+import { openPlatformSession } from "../platform_session";
+import { handleProviderError } from "./provider_errors";
+
+const toSummary = ({
+  password: _password,
+  ...summary
+}: PlatformCredentials): ConnectionSummary => summary;
+
+/**
+ * Manages the salon platform connection of the requesting Canva user. The password is
+ * only ever received when connecting and is never sent back to the app.
+ */
+export function createConnectionRouter(vault: CredentialVault): express.Router {
+  const router = express.Router();
+
+  // Credentials that can no longer be decrypted are removed, so the user connects again
+  const getConnection = async (
+    owner: CredentialOwner,
+  ): Promise<ConnectionSummary | null> => {
+    try {
+      const credentials = await vault.get(owner);
+      return credentials ? toSummary(credentials) : null;
+    } catch (error) {
+      if (!(error instanceof CredentialVaultError)) {
+        throw error;
+      }
+      await vault.remove(owner);
+      return null;
+    }
+  };
+
+  router.get("/api/connection", async (req, res, next) => {
+    try {
+      res.json({ connection: await getConnection(req.canva) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.put("/api/connection", async (req, res, next) => {
+    const {
+      platform,
+      businessId,
+      email,
+      password,
+    }: Partial<PlatformCredentials> = req.body;
+    if (!platform || !businessId || !email || !password) {
+      return res.status(400).json({ error: "Missing credentials" });
+    }
+
+    const credentials = { platform, businessId, email, password };
+    try {
+      // Listing branches proves the credentials work before they're stored
+      const { provider, session } = await openPlatformSession(credentials);
+      const branches = await provider.listBranches(session);
+
+      await vault.save(req.canva, credentials);
+      res.json({ connection: toSummary(credentials), branches });
+    } catch (error) {
+      handleProviderError(error, res, next);
+    }
+  });
+
+  router.delete("/api/connection", async (req, res, next) => {
+    try {
+      await vault.remove(req.canva);
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
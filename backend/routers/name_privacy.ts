@@ -0,0 +1,38 @@
+import * as express from "express";
+import { parseNamePrivacy } from "../../src/models";
+import type { NamePrivacyStore } from "../name_privacy";
+
+/**
+ * Reads and saves how much of their clients' names the requesting user's brand shows.
+ */
+export function createNamePrivacyRouter(
+  settings: NamePrivacyStore,
+): express.Router {
+  const router = express.Router();
+
+  router.get("/api/name-privacy", async (req, res, next) => {
+    try {
+      res.json({ privacy: await settings.get(req.canva.brandId) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.put("/api/name-privacy", async (req, res, next) => {
+    const parsed = parseNamePrivacy(req.body);
+    if (!("value" in parsed)) {
+      return res
+        .status(400)
+        .json({ error: "Invalid name privacy", reasons: parsed.reasons });
+    }
+
+    try {
+      await settings.save(req.canva.brandId, parsed.value);
+      res.json({ privacy: parsed.value });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,57 @@
+import { isAxiosError } from "axios";
+import type { NextFunction, Response } from "express";
+import { UnknownProviderError } from "../../src/providers";
+
+/**
+ * Responds to a failed provider call without exposing the salon platform's own error
+ * payload, which may echo back credentials. Anything else goes to the default error handler.
+ */
+export const handleProviderError = (
+  error: unknown,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (error instanceof UnknownProviderError) {
+    return res.status(400).json({ error: "unknown_platform" });
+  }
+
+  if (isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status === 401 || status === 403) {
+      // A plain 401 is reserved for JWT failures, so the app can tell the two apart
+      return res.status(401).json({
+        error: "platform_unauthorized",
+        message: "The salon platform rejected the credentials.",
+      });
+    }
+    if (status === 429) {
+      // Pass the platform's back-off on, so the app's retries respect it
+      const retryAfter = error.response?.headers["retry-after"];
+      if (retryAfter) {
+        res.set("Retry-After", String(retryAfter));
+      }
+      return res.status(429).json({
+        error: "platform_rate_limited",
+        message: "The salon platform is rate limiting requests.",
+      });
+    }
+    return res.status(502).json({
+      error: "platform_error",
+      message: "The salon platform could not be reached.",
+    });
+  }
+
+  next(error);
+};
+
+/**
+ * Whether the error is likely to go away on its own, such as rate limiting or an outage,
+ * as opposed to the platform rejecting the request.
+ */
+export const isTransientProviderError = (error: unknown): boolean => {
+  if (!isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+};
@@ -0,0 +1,164 @@
+import * as express from "express";
+import type { Request, Response } from "express";
+import type { CredentialVault } from "../credential_vault";
+import type { NamePrivacyStore } from "../name_privacy";
+import { hideClientNames } from "../name_privacy";
+import { loadCredentials, openPlatformSession } from "../platform_session";
+import type { ReviewCache, ReviewCacheKey } from "../review_cache";
+import { combineBranchReviews, pageCachedReviews } from "../review_cache";
+import {
+  handleProviderError,
+  isTransientProviderError,
+} from "./provider_errors";
+
+/**
+ * Serves branch listings from the salon platforms and reviews from the backend's review
+ * cache, using the requesting user's stored credentials. The app never calls the
+ * platforms directly from the browser. Client names are reduced to what the user's brand
+ * allows before reviews leave the backend.
+ */
+export function createReviewsRouter(
+  vault: CredentialVault,
+  cache: ReviewCache,
+  namePrivacy: NamePrivacyStore,
+): express.Router {
+  const router = express.Router();
+
+  /**
+   * Syncs the reviews of a branch, or of every branch if no branch is given, with the
+   * platform if they're stale. If the platform is rate limiting or unavailable, the cached
+   * reviews are served as they are rather than failing.
+   */
+  const syncReviews = async (
+    req: Request,
+    res: Response,
+    branchId: string | undefined,
+    force: boolean,
+  ) => {
+    const credentials = await loadCredentials(vault, req, res);
+    if (!credentials) {
+      return undefined;
+    }
+
+    const { provider, session } = await openPlatformSession(credentials);
+    const syncBranch = async (id: string) => {
+      const key: ReviewCacheKey = {
+        brandId: req.canva.brandId,
+        platform: credentials.platform,
+        businessId: credentials.businessId,
+        branchId: id,
+      };
+      try {
+        return await cache.sync(
+          key,
+          (options) => provider.listReviews(session, id, options),
+          { force },
+        );
+      } catch (error) {
+        const cached = await cache.get(key);
+        if (!cached || !isTransientProviderError(error)) {
+          throw error;
+        }
+        return cached;
+      }
+    };
+
+    if (branchId) {
+      return syncBranch(branchId);
+    }
+
+    // A branch that can't be synced is left out and reported, rather than failing the
+    // listing of every other branch
+    const branches = await provider.listBranches(session);
+    const results = await Promise.allSettled(
+      branches.map((branch) => syncBranch(branch.id)),
+    );
+    const synced = branches.flatMap((branch, index) => {
+      const result = results[index];
+      return result.status === "fulfilled"
+        ? [{ branch, cached: result.value }]
+        : [];
+    });
+    const failed = results.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected",
+    );
+    if (failed && synced.length === 0) {
+      throw failed.reason;
+    }
+
+    return {
+      ...combineBranchReviews(synced, provider.capabilities),
+      failedBranches: branches.filter(
+        (_branch, index) => results[index].status === "rejected",
+      ),
+    };
+  };
+
+  router.get("/api/branches", async (req, res, next) => {
+    try {
+      const credentials = await loadCredentials(vault, req, res);
+      if (!credentials) {
+        return;
+      }
+
+      const { provider, session } = await openPlatformSession(credentials);
+      res.json({ branches: await provider.listBranches(session) });
+    } catch (error) {
+      handleProviderError(error, res, next);
+    }
+  });
+
+  // Lists the reviews of every branch if `branchId` is omitted
+  router.get("/api/reviews", async (req, res, next) => {
+    const { branchId, cursor } = req.query;
+
+    try {
+      const cached = await syncReviews(
+        req,
+        res,
+        typeof branchId === "string" && branchId ? branchId : undefined,
+        false,
+      );
+      if (!cached) {
+        return;
+      }
+      res.json(
+        hideClientNames(
+          pageCachedReviews(
+            cached,
+            typeof cursor === "string" ? cursor : undefined,
+          ),
+          await namePrivacy.get(req.canva.brandId),
+        ),
+      );
+    } catch (error) {
+      handleProviderError(error, res, next);
+    }
+  });
+
+  router.post("/api/reviews/refresh", async (req, res, next) => {
+    const { branchId } = req.body;
+
+    try {
+      const cached = await syncReviews(
+        req,
+        res,
+        typeof branchId === "string" && branchId ? branchId : undefined,
+        true,
+      );
+      if (!cached) {
+        return;
+      }
+      res.json(
+        hideClientNames(
+          pageCachedReviews(cached),
+          await namePrivacy.get(req.canva.brandId),
+        ),
+      );
+    } catch (error) {
+      handleProviderError(error, res, next);
+    }
+  });
+
+  return router;
+}
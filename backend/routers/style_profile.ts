@@ -0,0 +1,39 @@
+import * as express from "express";
+import { parseStyleProfile } from "../../src/models";
+import type { StyleProfileStore } from "../style_profiles";
+
+/**
+ * Reads and saves the style profile of the requesting user's brand.
+ */
+export function createStyleProfileRouter(
+  profiles: StyleProfileStore,
+): express.Router {
+  const router = express.Router();
+
+  router.get("/api/style-profile", async (req, res, next) => {
+    try {
+      const profile = await profiles.get(req.canva.brandId);
+      res.json({ profile: profile || null });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.put("/api/style-profile", async (req, res, next) => {
+    const parsed = parseStyleProfile(req.body);
+    if (!("value" in parsed)) {
+      return res
+        .status(400)
+        .json({ error: "Invalid style profile", reasons: parsed.reasons });
+    }
+
+    try {
+      await profiles.save(req.canva.brandId, parsed.value);
+      res.json({ profile: parsed.value });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
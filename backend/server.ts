@@ -0,0 +1,80 @@
+import * as cors from "cors";
+import * as express from "express";
+import * as path from "path";
+import { createBaseServer } from "../utils/backend/base_backend/create";
+import { createJwtMiddleware } from "../utils/backend/jwt_middleware";
+import type { VaultData } from "./credential_vault";
+import { CredentialVault } from "./credential_vault";
+import { JSONFileDatabase } from "./database/database";
+import type { NamePrivacyData } from "./name_privacy";
+import { NamePrivacyStore } from "./name_privacy";
+import { registerProviderOverrides } from "./platforms";
+import type { ReviewCacheData } from "./review_cache";
+import { ReviewCache } from "./review_cache";
+import { createConnectionRouter } from "./routers/connection";
+import { createNamePrivacyRouter } from "./routers/name_privacy";
+import { createReviewsRouter } from "./routers/reviews";
+import { createStyleProfileRouter } from "./routers/style_profile";
+import type { StyleProfileData } from "./style_profiles";
+import { StyleProfileStore } from "./style_profiles";
+
+const DATA_DIR = path.join(__dirname, "data");
+
+async function main() {
+  // The app ID is needed to verify the JWTs the app sends with each request
+  const APP_ID = process.env.CANVA_APP_ID;
+
+  if (!APP_ID) {
+    throw new Error(
+      `The CANVA_APP_ID environment variable is undefined. Set the variable in the project's .env file.`,
+    );
+  }
+
+  registerProviderOverrides();
+
+  const vault = CredentialVault.fromEnv(
+    new JSONFileDatabase<VaultData>(
+      path.join(DATA_DIR, "credentials.json"),
+      {},
+    ),
+  );
+
+  const reviewCache = new ReviewCache(
+    new JSONFileDatabase<ReviewCacheData>(
+      path.join(DATA_DIR, "reviews.json"),
+      {},
+    ),
+  );
+
+  const styleProfiles = new StyleProfileStore(
+    new JSONFileDatabase<StyleProfileData>(
+      path.join(DATA_DIR, "style_profiles.json"),
+      {},
+    ),
+  );
+
+  const namePrivacy = new NamePrivacyStore(
+    new JSONFileDatabase<NamePrivacyData>(
+      path.join(DATA_DIR, "name_privacy.json"),
+      {},
+    ),
+  );
+
+  const router = express.Router();
+
+  // The app is served from a different origin than the backend
+  router.use(cors({ exposedHeaders: ["Retry-After"] }));
+
+  const jwtMiddleware = createJwtMiddleware(APP_ID);
+  router.use(jwtMiddleware);
+
+  router.use(createConnectionRouter(vault));
+  router.use(createReviewsRouter(vault, reviewCache, namePrivacy));
+  router.use(createStyleProfileRouter(styleProfiles));
+  router.use(createNamePrivacyRouter(namePrivacy));
+
+  const server = createBaseServer(router);
+  server.start(process.env.CANVA_BACKEND_PORT);
+}
+
+main();
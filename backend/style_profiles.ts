@@ -0,0 +1,28 @@
+import type { StyleProfile } from "../src/models";
+import type { Store } from "./database/database";
+
+// Keyed by brand ID, so everyone in a brand shares one profile
+export type StyleProfileData = Record<string, StyleProfile>;
+
+/**
+ * Remembers how each brand styles inserted reviews, for brands whose brand kit the app
+ * can't read and so the user's choices survive between sessions.
+ */
+export class StyleProfileStore {
+  constructor(private readonly store: Store<StyleProfileData>) {}
+
+  /**
+   * Returns the brand's profile, or `undefined` if nobody in the brand has saved one.
+   */
+  async get(brandId: string): Promise<StyleProfile | undefined> {
+    const data = await this.store.read();
+    return data[brandId];
+  }
+
+  /**
+   * Stores the brand's profile, replacing any saved before.
+   */
+  async save(brandId: string, profile: StyleProfile) {
+    await this.store.update((data) => ({ ...data, [brandId]: profile }));
+  }
+}
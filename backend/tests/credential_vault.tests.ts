@@ -0,0 +1,97 @@
+import * as crypto from "crypto";
+import type { PlatformCredentials, VaultData } from "../credential_vault";
+import { CredentialVault, CredentialVaultError } from "../credential_vault";
+import { InMemoryDatabase } from "../database/database";
+
+describe("CredentialVault", () => {
+  const OWNER = { brandId: "BAAAAAAAAA1", userId: "UAAAAAAAAA1" };
+  const OTHER_OWNER = { brandId: "BAAAAAAAAA1", userId: "UAAAAAAAAA2" };
+  const CREDENTIALS: PlatformCredentials = {
+    platform: "phorest",
+    businessId: "business-1",
+    email: "owner@example.com",
+    password: "hunter2",
+  };
+
+  let store: InMemoryDatabase<VaultData>;
+  let vault: CredentialVault;
+
+  beforeEach(() => {
+    store = new InMemoryDatabase<VaultData>({});
+    vault = new CredentialVault(store, crypto.randomBytes(32));
+  });
+
+  it("returns the credentials it saved", async () => {
+    await vault.save(OWNER, CREDENTIALS);
+
+    expect(await vault.get(OWNER)).toEqual(CREDENTIALS);
+  });
+
+  it("does not store the password in plain text", async () => {
+    await vault.save(OWNER, CREDENTIALS);
+
+    expect(JSON.stringify(await store.read())).not.toContain(
+      CREDENTIALS.password,
+    );
+  });
+
+  it("scopes credentials to their owner", async () => {
+    await vault.save(OWNER, CREDENTIALS);
+
+    expect(await vault.get(OTHER_OWNER)).toBeUndefined();
+  });
+
+  it("refuses to decrypt a record moved to another owner", async () => {
+    await vault.save(OWNER, CREDENTIALS);
+    await store.update((data) => ({
+      ...data,
+      [`${OTHER_OWNER.brandId}:${OTHER_OWNER.userId}`]: Object.values(data)[0],
+    }));
+
+    await expect(vault.get(OTHER_OWNER)).rejects.toThrow(CredentialVaultError);
+  });
+
+  it("refuses to decrypt with a different key", async () => {
+    await vault.save(OWNER, CREDENTIALS);
+    const otherVault = new CredentialVault(store, crypto.randomBytes(32));
+
+    await expect(otherVault.get(OWNER)).rejects.toThrow(CredentialVaultError);
+  });
+
+  it("removes only the owner's credentials", async () => {
+    await vault.save(OWNER, CREDENTIALS);
+    await vault.save(OTHER_OWNER, CREDENTIALS);
+
+    await vault.remove(OWNER);
+
+    expect(await vault.get(OWNER)).toBeUndefined();
+    expect(await vault.get(OTHER_OWNER)).toEqual(CREDENTIALS);
+  });
+
+  describe("fromEnv", () => {
+    it("reads a base64 encoded key", async () => {
+      const key = crypto.randomBytes(32).toString("base64");
+      const envVault = CredentialVault.fromEnv(store, {
+        CREDENTIALS_ENCRYPTION_KEY: key,
+      });
+
+      await envVault.save(OWNER, CREDENTIALS);
+
+      expect(await envVault.get(OWNER)).toEqual(CREDENTIALS);
+    });
+
+    it("throws if the key is missing", () => {
+      expect(() => CredentialVault.fromEnv(store, {})).toThrow(
+        CredentialVaultError,
+      );
+    });
+
+    it("throws if the key is the wrong length", () => {
+      expect(() =>
+        CredentialVault.fromEnv(store, {
+          CREDENTIALS_ENCRYPTION_KEY: crypto.randomBytes(16).toString("base64"),
+        }),
+      ).toThrow(CredentialVaultError);
+    });
+  });
+});
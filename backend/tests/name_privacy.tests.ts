@@ -0,0 +1,49 @@
+import type { Review } from "../../src/models";
+import { DEFAULT_NAME_PRIVACY } from "../../src/models";
+import { InMemoryDatabase } from "../database/database";
+import type { NamePrivacyData } from "../name_privacy";
+import { hideClientNames, NamePrivacyStore } from "../name_privacy";
+import type { CachedReviewPage } from "../review_cache";
+
+describe("NamePrivacyStore", () => {
+  it("uses the default until the brand chooses a setting", async () => {
+    const store = new NamePrivacyStore(
+      new InMemoryDatabase<NamePrivacyData>({}),
+    );
+
+    expect(await store.get("BAAAAAAAAA1")).toEqual(DEFAULT_NAME_PRIVACY);
+
+    await store.save("BAAAAAAAAA1", { mode: "initials" });
+    expect(await store.get("BAAAAAAAAA1")).toEqual({ mode: "initials" });
+    expect(await store.get("BAAAAAAAAA2")).toEqual(DEFAULT_NAME_PRIVACY);
+  });
+});
+
+describe("hideClientNames", () => {
+  const review: Review = {
+    reviewId: "r1",
+    clientFirstName: "Ada",
+    clientLastName: "Lovelace",
+    rating: 5,
+    reviewDate: "2024-01-01T00:00:00Z",
+    text: "",
+  };
+  const page: CachedReviewPage = {
+    reviews: [review],
+    rejected: [{ record: { clientLastName: "Lovelace" }, reasons: ["bad"] }],
+    total: 2,
+    lastSyncedAt: "2024-06-01T12:00:00.000Z",
+  };
+
+  it("serves full names as they are", () => {
+    expect(hideClientNames(page, { mode: "full" })).toBe(page);
+  });
+
+  it("removes hidden names from reviews and rejected records", () => {
+    const hidden = hideClientNames(page, { mode: "firstInitial" });
+
+    expect(hidden.reviews).toEqual([{ ...review, clientLastName: "L" }]);
+    expect(hidden.rejected).toEqual([{ record: null, reasons: ["bad"] }]);
+    expect(hidden.total).toBe(2);
+  });
+});
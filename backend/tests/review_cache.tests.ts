@@ -0,0 +1,326 @@
+import type { Review } from "../../src/models";
+import type { ReviewPage } from "../../src/providers";
+import { InMemoryDatabase } from "../database/database";
+import type { ReviewCacheData } from "../review_cache";
+import {
+  combineBranchReviews,
+  pageCachedReviews,
+  ReviewCache,
+} from "../review_cache";
+
+describe("ReviewCache", () => {
+  const KEY = {
+    brandId: "BAAAAAAAAA1",
+    platform: "phorest",
+    businessId: "business-1",
+    branchId: "branch-1",
+  };
+  const MINUTE = 60 * 1000;
+
+  const review = (reviewId: string, reviewDate: string): Review => ({
+    reviewId,
+    clientFirstName: "Ada",
+    clientLastName: "Lovelace",
+    rating: 5,
+    reviewDate,
+    text: "",
+  });
+
+  const createFetcher = (pages: Record<string, ReviewPage>) =>
+    jest.fn(async ({ cursor = "start" }: { cursor?: string }) => pages[cursor]);
+
+  let now: number;
+  let cache: ReviewCache;
+
+  beforeEach(() => {
+    now = Date.parse("2024-06-01T12:00:00Z");
+    cache = new ReviewCache(
+      new InMemoryDatabase<ReviewCacheData>({}),
+      () => now,
+    );
+  });
+
+  it("fetches every page on the first sync and sorts newest first", async () => {
+    const fetchPage = createFetcher({
+      start: {
+        reviews: [review("r1", "2024-05-01T00:00:00Z")],
+        rejected: [],
+        nextCursor: "2",
+      },
+      "2": { reviews: [review("r2", "2024-05-02T00:00:00Z")], rejected: [] },
+    });
+
+    const cached = await cache.sync(KEY, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(cached.reviews.map((r) => r.reviewId)).toEqual(["r2", "r1"]);
+    expect(cached.lastSyncedAt).toBe("2024-06-01T12:00:00.000Z");
+  });
+
+  it("serves the cache without calling the platform while it's fresh", async () => {
+    await cache.sync(
+      KEY,
+      createFetcher({
+        start: {
+          reviews: [review("r1", "2024-05-01T00:00:00Z")],
+          rejected: [],
+        },
+      }),
+    );
+    const fetchPage = createFetcher({});
+
+    now += 5 * MINUTE;
+    const cached = await cache.sync(KEY, fetchPage);
+
+    expect(fetchPage).not.toHaveBeenCalled();
+    expect(cached.reviews).toHaveLength(1);
+  });
+
+  it("stops syncing at the first page without new reviews", async () => {
+    await cache.sync(
+      KEY,
+      createFetcher({
+        start: {
+          reviews: [review("r1", "2024-05-01T00:00:00Z")],
+          rejected: [],
+        },
+      }),
+    );
+    const fetchPage = createFetcher({
+      start: {
+        reviews: [review("r2", "2024-05-20T00:00:00Z")],
+        rejected: [],
+        nextCursor: "2",
+      },
+      "2": {
+        reviews: [review("r1", "2024-05-01T00:00:00Z")],
+        rejected: [],
+        nextCursor: "3",
+      },
+      "3": { reviews: [review("r0", "2024-04-01T00:00:00Z")], rejected: [] },
+    });
+
+    now += 30 * MINUTE;
+    const cached = await cache.sync(KEY, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(cached.reviews.map((r) => r.reviewId)).toEqual(["r2", "r1"]);
+    expect(cached.lastSyncedAt).toBe("2024-06-01T12:30:00.000Z");
+  });
+
+  it("keeps syncing past a page whose records were all rejected", async () => {
+    await cache.sync(
+      KEY,
+      createFetcher({
+        start: {
+          reviews: [review("r1", "2024-05-01T00:00:00Z")],
+          rejected: [],
+        },
+      }),
+    );
+    const fetchPage = createFetcher({
+      start: {
+        reviews: [],
+        rejected: [{ record: { reviewId: "r3" }, reasons: ["bad"] }],
+        nextCursor: "2",
+      },
+      "2": { reviews: [review("r2", "2024-05-20T00:00:00Z")], rejected: [] },
+    });
+
+    now += 30 * MINUTE;
+    const cached = await cache.sync(KEY, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(cached.reviews.map((r) => r.reviewId)).toEqual(["r2", "r1"]);
+  });
+
+  it("forgets rejected records once their review is accepted", async () => {
+    await cache.sync(
+      KEY,
+      createFetcher({
+        start: {
+          reviews: [],
+          rejected: [
+            { record: { reviewId: "r1" }, reasons: ["bad"] },
+            { record: { reviewId: "r2" }, reasons: ["bad"] },
+          ],
+        },
+      }),
+    );
+    const fetchPage = createFetcher({
+      start: { reviews: [review("r1", "2024-05-01T00:00:00Z")], rejected: [] },
+    });
+
+    now += 30 * MINUTE;
+    const cached = await cache.sync(KEY, fetchPage);
+
+    expect(cached.rejected).toEqual([
+      { record: { reviewId: "r2" }, reasons: ["bad"] },
+    ]);
+  });
+
+  it("keeps only the most recent rejected records", async () => {
+    const rejected = Array.from({ length: 150 }, (_, i) => ({
+      record: { reviewId: `bad${i}` },
+      reasons: ["bad"],
+    }));
+
+    const cached = await cache.sync(
+      KEY,
+      createFetcher({ start: { reviews: [], rejected } }),
+    );
+
+    expect(cached.rejected).toHaveLength(100);
+    expect(cached.rejected[99]).toEqual(rejected[149]);
+  });
+
+  it("only refreshes on request once the minimum interval has passed", async () => {
+    await cache.sync(
+      KEY,
+      createFetcher({ start: { reviews: [], rejected: [] } }),
+    );
+    const fetchPage = createFetcher({ start: { reviews: [], rejected: [] } });
+
+    now += 30 * 1000;
+    await cache.sync(KEY, fetchPage, { force: true });
+    expect(fetchPage).not.toHaveBeenCalled();
+
+    now += 2 * MINUTE;
+    await cache.sync(KEY, fetchPage, { force: true });
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares a single fetch between concurrent syncs", async () => {
+    const fetchPage = createFetcher({ start: { reviews: [], rejected: [] } });
+
+    await Promise.all([cache.sync(KEY, fetchPage), cache.sync(KEY, fetchPage)]);
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("pageCachedReviews", () => {
+  const cached = {
+    reviews: Array.from({ length: 25 }, (_, i) => ({
+      reviewId: `r${i}`,
+      clientFirstName: "Ada",
+      clientLastName: "Lovelace",
+      rating: 5,
+      reviewDate: "2024-01-01T00:00:00Z",
+      text: "",
+    })),
+    rejected: [{ record: {}, reasons: ["bad"] }],
+    lastSyncedAt: "2024-06-01T12:00:00.000Z",
+  };
+
+  it("returns the rejected records with the first page", () => {
+    const page = pageCachedReviews(cached);
+
+    expect(page.reviews).toHaveLength(20);
+    expect(page.rejected).toHaveLength(1);
+    expect(page.nextCursor).toBe("20");
+    expect(page.total).toBe(26);
+  });
+
+  it("reports the branches that couldn't be synced", () => {
+    const failedBranches = [{ id: "b2", name: "Harbour" }];
+
+    expect(pageCachedReviews({ ...cached, failedBranches })).toMatchObject({
+      failedBranches,
+    });
+    expect(pageCachedReviews(cached)).not.toHaveProperty("failedBranches");
+  });
+
+  it("returns the last page without a cursor", () => {
+    const page = pageCachedReviews(cached, "20");
+
+    expect(page.reviews.map((r) => r.reviewId)).toEqual([
+      "r20",
+      "r21",
+      "r22",
+      "r23",
+      "r24",
+    ]);
+    expect(page.rejected).toEqual([]);
+    expect(page.nextCursor).toBeUndefined();
+  });
+});
+
+describe("combineBranchReviews", () => {
+  const review = (reviewId: string, reviewDate: string): Review => ({
+    reviewId,
+    clientFirstName: "Ada",
+    clientLastName: "Lovelace",
+    rating: 5,
+    reviewDate,
+    text: "",
+  });
+  const CITY = { id: "b1", name: "City Centre" };
+  const HARBOUR = { id: "b2", name: "Harbour" };
+
+  it("merges branches newest first and tags each review with its branch", () => {
+    const combined = combineBranchReviews(
+      [
+        {
+          branch: CITY,
+          cached: {
+            reviews: [review("r1", "2024-05-01T00:00:00Z")],
+            rejected: [],
+            lastSyncedAt: "2024-06-01T12:00:00.000Z",
+          },
+        },
+        {
+          branch: HARBOUR,
+          cached: {
+            reviews: [review("r2", "2024-05-02T00:00:00Z")],
+            rejected: [{ record: {}, reasons: ["bad"] }],
+            lastSyncedAt: "2024-06-01T11:00:00.000Z",
+          },
+        },
+      ],
+      { globalReviewIds: true },
+    );
+
+    expect(
+      combined.reviews.map(({ reviewId, branch }) => [reviewId, branch?.name]),
+    ).toEqual([
+      ["r2", "Harbour"],
+      ["r1", "City Centre"],
+    ]);
+    expect(combined.rejected).toHaveLength(1);
+    expect(combined.lastSyncedAt).toBe("2024-06-01T11:00:00.000Z");
+  });
+
+  const cached = {
+    reviews: [review("r1", "2024-05-01T00:00:00Z")],
+    rejected: [],
+    lastSyncedAt: "2024-06-01T12:00:00.000Z",
+  };
+
+  it("keeps reviews listed under several branches once", () => {
+    const combined = combineBranchReviews(
+      [
+        { branch: CITY, cached },
+        { branch: HARBOUR, cached },
+      ],
+      { globalReviewIds: true },
+    );
+
+    expect(combined.reviews).toHaveLength(1);
+  });
+
+  it("keeps reviews of different branches that share an ID apart", () => {
+    const combined = combineBranchReviews(
+      [
+        { branch: CITY, cached },
+        { branch: HARBOUR, cached },
+      ],
+      { globalReviewIds: false },
+    );
+
+    expect(combined.reviews.map(({ reviewId }) => reviewId).sort()).toEqual([
+      "b1:r1",
+      "b2:r1",
+    ]);
+  });
+});
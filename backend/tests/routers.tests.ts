@@ -0,0 +1,454 @@
+import type { AxiosResponse } from "axios";
+import { AxiosError } from "axios";
+import * as crypto from "crypto";
+import * as express from "express";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import type { NamePrivacy, Review } from "../../src/models";
+import { DEFAULT_STYLE_PROFILE } from "../../src/models";
+import type { ReviewProvider } from "../../src/providers";
+import { registerProvider } from "../../src/providers";
+import type {
+  CredentialOwner,
+  PlatformCredentials,
+  VaultData,
+} from "../credential_vault";
+import { CredentialVault } from "../credential_vault";
+import { InMemoryDatabase } from "../database/database";
+import type { NamePrivacyData } from "../name_privacy";
+import { NamePrivacyStore } from "../name_privacy";
+import type { ReviewCacheData } from "../review_cache";
+import { ReviewCache } from "../review_cache";
+import { createConnectionRouter } from "../routers/connection";
+import { createNamePrivacyRouter } from "../routers/name_privacy";
+import { createReviewsRouter } from "../routers/reviews";
+import { createStyleProfileRouter } from "../routers/style_profile";
+import type { StyleProfileData } from "../style_profiles";
+import { StyleProfileStore } from "../style_profiles";
+
+describe("backend routers", () => {
+  const OWNER = { brandId: "BAAAAAAAAA1", userId: "UAAAAAAAAA1" };
+  const SAME_BRAND_USER = { brandId: "BAAAAAAAAA1", userId: "UAAAAAAAAA2" };
+  const OTHER_BRAND_USER = { brandId: "BAAAAAAAAA2", userId: "UAAAAAAAAA3" };
+  const CREDENTIALS: PlatformCredentials = {
+    platform: "test",
+    businessId: "business-1",
+    email: "owner@example.com",
+    password: "hunter2",
+  };
+  const REVIEW: Review = {
+    reviewId: "r1",
+    clientFirstName: "Ada",
+    clientLastName: "Lovelace",
+    rating: 5,
+    reviewDate: "2024-06-01T10:00:00Z",
+    text: "Loved my new colour",
+  };
+
+  // A salon platform that answers with a status code, as axios reports it
+  const platformError = (status: number, headers = {}) =>
+    new AxiosError("Request failed", undefined, undefined, undefined, {
+      status,
+      headers,
+      data: {},
+    } as AxiosResponse);
+
+  const provider = {
+    id: "test",
+    name: "Test",
+    capabilities: {
+      pagination: "page",
+      pageSize: 50,
+      ratingScale: "fiveStar",
+      globalReviewIds: true,
+    },
+    authenticate: jest.fn(),
+    listBranches: jest.fn(),
+    listReviews: jest.fn(),
+  } satisfies ReviewProvider;
+  registerProvider(provider);
+
+  let vaultStore: InMemoryDatabase<VaultData>;
+  let vault: CredentialVault;
+  let server: http.Server;
+  let url: string;
+
+  /**
+   * Sends a request as a Canva user, in place of the JWT middleware.
+   */
+  const request = (
+    method: string,
+    path: string,
+    { owner = OWNER, body }: { owner?: CredentialOwner; body?: unknown } = {},
+  ) =>
+    new Promise<{
+      status: number;
+      headers: http.IncomingHttpHeaders;
+      body: unknown;
+    }>((resolve, reject) => {
+      const req = http.request(
+        `${url}${path}`,
+        {
+          method,
+          headers: {
+            "Content-Type": "application/json",
+            "X-Brand-Id": owner.brandId,
+            "X-User-Id": owner.userId,
+          },
+        },
+        (res) => {
+          let data = "";
+          res.setEncoding("utf8");
+          res.on("data", (chunk) => (data += chunk));
+          res.on("end", () =>
+            resolve({
+              status: res.statusCode || 0,
+              headers: res.headers,
+              body: data ? JSON.parse(data) : undefined,
+            }),
+          );
+        },
+      );
+      req.on("error", reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+
+  beforeEach(async () => {
+    provider.authenticate.mockImplementation(
+      async ({ businessId, email, password }) => ({
+        businessId,
+        auth: { username: email, password },
+      }),
+    );
+    provider.listBranches.mockResolvedValue([{ id: "b1", name: "City" }]);
+    provider.listReviews.mockResolvedValue({ reviews: [REVIEW], rejected: [] });
+
+    vaultStore = new InMemoryDatabase<VaultData>({});
+    vault = new CredentialVault(vaultStore, crypto.randomBytes(32));
+    const namePrivacy = new NamePrivacyStore(
+      new InMemoryDatabase<NamePrivacyData>({}),
+    );
+
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.canva = {
+        appId: "AAAAAAAAAAA",
+        brandId: req.header("X-Brand-Id") || "",
+        userId: req.header("X-User-Id") || "",
+      };
+      next();
+    });
+    app.use(createConnectionRouter(vault));
+    app.use(
+      createReviewsRouter(
+        vault,
+        new ReviewCache(new InMemoryDatabase<ReviewCacheData>({})),
+        namePrivacy,
+      ),
+    );
+    app.use(
+      createStyleProfileRouter(
+        new StyleProfileStore(new InMemoryDatabase<StyleProfileData>({})),
+      ),
+    );
+    app.use(createNamePrivacyRouter(namePrivacy));
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    url = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    jest.resetAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // Replaces the owner's credentials with a record the vault can't decrypt
+  const corruptCredentials = async () => {
+    await vault.save(OWNER, CREDENTIALS);
+    const otherVault = new CredentialVault(vaultStore, crypto.randomBytes(32));
+    await otherVault.save(OWNER, CREDENTIALS);
+  };
+
+  describe("connection", () => {
+    it("connects without ever sending the password back", async () => {
+      const put = await request("PUT", "/api/connection", {
+        body: CREDENTIALS,
+      });
+      const get = await request("GET", "/api/connection");
+
+      const { password: _password, ...summary } = CREDENTIALS;
+      expect(put.status).toBe(200);
+      expect(put.body).toEqual({
+        connection: summary,
+        branches: [{ id: "b1", name: "City" }],
+      });
+      expect(get.body).toEqual({ connection: summary });
+      expect(JSON.stringify([put.body, get.body])).not.toContain(
+        CREDENTIALS.password,
+      );
+    });
+
+    it("scopes the connection to the user who made it", async () => {
+      await request("PUT", "/api/connection", { body: CREDENTIALS });
+
+      const other = await request("GET", "/api/connection", {
+        owner: SAME_BRAND_USER,
+      });
+
+      expect(other.body).toEqual({ connection: null });
+    });
+
+    it("doesn't store credentials the platform rejects", async () => {
+      provider.listBranches.mockRejectedValue(platformError(401));
+
+      const put = await request("PUT", "/api/connection", {
+        body: CREDENTIALS,
+      });
+
+      expect(put.status).toBe(401);
+      expect(put.body).toMatchObject({ error: "platform_unauthorized" });
+      expect(await vault.get(OWNER)).toBeUndefined();
+    });
+
+    it("rejects an unknown platform", async () => {
+      const put = await request("PUT", "/api/connection", {
+        body: { ...CREDENTIALS, platform: "unknown" },
+      });
+
+      expect(put.status).toBe(400);
+      expect(put.body).toEqual({ error: "unknown_platform" });
+    });
+
+    it("removes credentials that can't be decrypted and reports no connection", async () => {
+      await corruptCredentials();
+
+      const get = await request("GET", "/api/connection");
+
+      expect(get.status).toBe(200);
+      expect(get.body).toEqual({ connection: null });
+      expect(await vaultStore.read()).toEqual({});
+    });
+
+    it("disconnects", async () => {
+      await vault.save(OWNER, CREDENTIALS);
+
+      const remove = await request("DELETE", "/api/connection");
+
+      expect(remove.status).toBe(204);
+      expect(await vault.get(OWNER)).toBeUndefined();
+    });
+  });
+
+  describe("reviews", () => {
+    beforeEach(async () => {
+      await vault.save(OWNER, CREDENTIALS);
+    });
+
+    it("lists the reviews of a branch", async () => {
+      const get = await request("GET", "/api/reviews?branchId=b1");
+
+      expect(get.status).toBe(200);
+      expect(get.body).toMatchObject({ reviews: [{ reviewId: "r1" }] });
+      expect(provider.listReviews).toHaveBeenCalledWith(
+        expect.objectContaining({ businessId: "business-1" }),
+        "b1",
+        expect.anything(),
+      );
+    });
+
+    it("refreshes the reviews of a branch", async () => {
+      provider.listReviews.mockResolvedValue({
+        reviews: [{ ...REVIEW, reviewId: "r2" }, REVIEW],
+        rejected: [],
+      });
+
+      const refresh = await request("POST", "/api/reviews/refresh", {
+        body: { branchId: "b1" },
+      });
+
+      expect(refresh.status).toBe(200);
+      expect(refresh.body).toMatchObject({
+        reviews: [{ reviewId: "r2" }, { reviewId: "r1" }],
+      });
+    });
+
+    it("asks a user who hasn't connected to connect", async () => {
+      const get = await request("GET", "/api/reviews?branchId=b1", {
+        owner: SAME_BRAND_USER,
+      });
+
+      expect(get.status).toBe(409);
+      expect(get.body).toEqual({ error: "not_connected" });
+    });
+
+    it("asks the user to connect again if their credentials can't be decrypted", async () => {
+      await corruptCredentials();
+
+      const get = await request("GET", "/api/reviews?branchId=b1");
+
+      expect(get.status).toBe(409);
+      expect(get.body).toEqual({ error: "not_connected" });
+      expect(await vaultStore.read()).toEqual({});
+    });
+
+    it.each([
+      [401, 401, "platform_unauthorized"],
+      [403, 401, "platform_unauthorized"],
+      [429, 429, "platform_rate_limited"],
+      [500, 502, "platform_error"],
+    ])(
+      "answers a %p from the platform with a %p",
+      async (platformStatus, status, error) => {
+        provider.listReviews.mockRejectedValue(platformError(platformStatus));
+
+        const get = await request("GET", "/api/reviews?branchId=b1");
+
+        expect(get.status).toBe(status);
+        expect(get.body).toMatchObject({ error });
+      },
+    );
+
+    it("passes the platform's Retry-After on", async () => {
+      provider.listReviews.mockRejectedValue(
+        platformError(429, { "retry-after": "30" }),
+      );
+
+      const get = await request("GET", "/api/reviews?branchId=b1");
+
+      expect(get.headers["retry-after"]).toBe("30");
+    });
+
+    it("never sends the platform's own error back", async () => {
+      provider.listReviews.mockRejectedValue(
+        Object.assign(platformError(500), {
+          response: { status: 500, headers: {}, data: CREDENTIALS },
+        }),
+      );
+
+      const get = await request("GET", "/api/reviews?branchId=b1");
+
+      expect(JSON.stringify(get.body)).not.toContain(CREDENTIALS.password);
+    });
+
+    it.each<[NamePrivacy, Partial<Review>]>([
+      [
+        { mode: "full" },
+        { clientFirstName: "Ada", clientLastName: "Lovelace" },
+      ],
+      [
+        { mode: "firstInitial" },
+        { clientFirstName: "Ada", clientLastName: "L" },
+      ],
+      [{ mode: "initials" }, { clientFirstName: "A", clientLastName: "L" }],
+      [
+        { mode: "alias", alias: "A happy client" },
+        { clientFirstName: "A happy client", clientLastName: "" },
+      ],
+      [{ mode: "anonymous" }, { clientFirstName: "", clientLastName: "" }],
+    ])("hides client names as the brand chose: %p", async (privacy, names) => {
+      await request("PUT", "/api/name-privacy", { body: privacy });
+
+      const get = await request("GET", "/api/reviews?branchId=b1");
+      const refresh = await request("POST", "/api/reviews/refresh", {
+        body: { branchId: "b1" },
+      });
+
+      expect(get.body).toMatchObject({ reviews: [names] });
+      expect(refresh.body).toMatchObject({ reviews: [names] });
+    });
+
+    it("hides the raw contents of rejected records", async () => {
+      await request("PUT", "/api/name-privacy", {
+        body: { mode: "anonymous" },
+      });
+      provider.listReviews.mockResolvedValue({
+        reviews: [],
+        rejected: [{ record: REVIEW, reasons: ["'text' is missing"] }],
+      });
+
+      const get = await request("GET", "/api/reviews?branchId=b1");
+
+      expect(get.body).toMatchObject({
+        rejected: [{ record: null, reasons: ["'text' is missing"] }],
+      });
+    });
+
+    it("uses the name privacy of the requesting user's brand", async () => {
+      await vault.save(OTHER_BRAND_USER, CREDENTIALS);
+      await request("PUT", "/api/name-privacy", {
+        owner: OTHER_BRAND_USER,
+        body: { mode: "anonymous" },
+      });
+
+      const get = await request("GET", "/api/reviews?branchId=b1");
+
+      expect(get.body).toMatchObject({
+        reviews: [{ clientFirstName: "Ada", clientLastName: "L" }],
+      });
+    });
+  });
+
+  describe("style profile", () => {
+    it("has no profile until the brand saves one", async () => {
+      const get = await request("GET", "/api/style-profile");
+
+      expect(get.body).toEqual({ profile: null });
+    });
+
+    it("shares the profile with the brand, and only the brand", async () => {
+      await request("PUT", "/api/style-profile", {
+        body: DEFAULT_STYLE_PROFILE,
+      });
+
+      const sameBrand = await request("GET", "/api/style-profile", {
+        owner: SAME_BRAND_USER,
+      });
+      const otherBrand = await request("GET", "/api/style-profile", {
+        owner: OTHER_BRAND_USER,
+      });
+
+      expect(sameBrand.body).toEqual({ profile: DEFAULT_STYLE_PROFILE });
+      expect(otherBrand.body).toEqual({ profile: null });
+    });
+
+    it("rejects an invalid profile", async () => {
+      const put = await request("PUT", "/api/style-profile", {
+        body: { roles: "none" },
+      });
+
+      expect(put.status).toBe(400);
+      expect(put.body).toMatchObject({ error: "Invalid style profile" });
+    });
+  });
+
+  describe("name privacy", () => {
+    it("shares the setting with the brand, and only the brand", async () => {
+      const put = await request("PUT", "/api/name-privacy", {
+        body: { mode: "initials" },
+      });
+
+      const sameBrand = await request("GET", "/api/name-privacy", {
+        owner: SAME_BRAND_USER,
+      });
+      const otherBrand = await request("GET", "/api/name-privacy", {
+        owner: OTHER_BRAND_USER,
+      });
+
+      expect(put.body).toEqual({ privacy: { mode: "initials" } });
+      expect(sameBrand.body).toEqual({ privacy: { mode: "initials" } });
+      expect(otherBrand.body).toEqual({ privacy: { mode: "firstInitial" } });
+    });
+
+    it("rejects an invalid setting", async () => {
+      const put = await request("PUT", "/api/name-privacy", {
+        body: { mode: "nicknames" },
+      });
+
+      expect(put.status).toBe(400);
+      expect(put.body).toMatchObject({ error: "Invalid name privacy" });
+    });
+  });
+});
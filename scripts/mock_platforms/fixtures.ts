@@ -0,0 +1,117 @@
+/**
+ * The accounts served by the mock salon platforms. Every platform serves the same
+ * businesses, converted into its own response shapes by the server.
+ */
+
+export type FixtureReview = {
+  id: string;
+  clientFirstName?: string;
+  clientLastName?: string;
+  staffFirstName?: string;
+  staffLastName?: string;
+  rating?: number;
+  // An ISO 8601 timestamp
+  date?: string;
+  text?: string;
+};
+
+export type FixtureBranch = {
+  id: string;
+  name: string;
+  reviews: FixtureReview[];
+  // Answer every other review request with a 429, to exercise rate limit handling.
+  rateLimited?: boolean;
+};
+
+export type FixtureBusiness = {
+  id: string;
+  branches: FixtureBranch[];
+};
+
+// The only credentials the mock platforms accept. Anything else gets a 401.
+export const MOCK_EMAIL = "owner@example.com";
+export const MOCK_PASSWORD = "password";
+
+const FIRST_NAMES = ["Ava", "Noah", "Isla", "Leo", "Mia", "Oscar", "Ruby"];
+const LAST_NAMES = ["Byrne", "Chen", "Doyle", "Patel", "Walsh", "Kowalski"];
+const STAFF = [
+  { staffFirstName: "Sinead", staffLastName: "Murphy" },
+  { staffFirstName: "Tom", staffLastName: "Reilly" },
+  {},
+];
+const TEXTS = [
+  "Absolutely love my new colour, Sinead is a genius!",
+  "Quick, friendly and the blow dry lasted all week.",
+  "Lovely salon, though I had to wait a little past my appointment time.",
+  "",
+  "Best haircut I've had in years. Already booked my next one.",
+];
+const RATINGS = [5, 5, 4, 3, 5, 2, 5, 4];
+
+/**
+ * Generates reviews one day apart, newest first, like the real platforms return them.
+ */
+const generateReviews = (
+  prefix: string,
+  count: number,
+  newest: string,
+): FixtureReview[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `${prefix}-${i + 1}`,
+    clientFirstName: FIRST_NAMES[i % FIRST_NAMES.length],
+    clientLastName: LAST_NAMES[i % LAST_NAMES.length],
+    ...STAFF[i % STAFF.length],
+    rating: RATINGS[i % RATINGS.length],
+    date: new Date(Date.parse(newest) - i * 24 * 60 * 60 * 1000).toISOString(),
+    text: TEXTS[i % TEXTS.length],
+  }));
+
+export const BUSINESSES: FixtureBusiness[] = [
+  {
+    id: "demo-salon",
+    branches: [
+      {
+        // Enough reviews to span several pages on every platform
+        id: "city-centre",
+        name: "City Centre",
+        reviews: generateReviews("city", 45, "2024-06-01T10:30:00Z"),
+      },
+      {
+        // Includes a review the client didn't rate, which the app keeps, and a record
+        // without a date, which the app should reject
+        id: "harbour",
+        name: "Harbour",
+        reviews: [
+          ...generateReviews("harbour", 3, "2024-05-28T15:00:00Z"),
+          {
+            id: "harbour-unrated",
+            clientFirstName: "Eve",
+            date: "2024-05-25T11:00:00Z",
+            text: "Hmm.",
+          },
+          {
+            id: "harbour-no-date",
+            clientFirstName: "Sam",
+            clientLastName: "Kerr",
+            rating: 4,
+          },
+        ],
+      },
+      {
+        id: "new-opening",
+        name: "New Opening",
+        reviews: [],
+      },
+      {
+        id: "busy",
+        name: "Busy Branch",
+        reviews: generateReviews("busy", 5, "2024-05-30T09:00:00Z"),
+        rateLimited: true,
+      },
+    ],
+  },
+  {
+    id: "empty-salon",
+    branches: [],
+  },
+];
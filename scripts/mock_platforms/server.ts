@@ -0,0 +1,228 @@
+import * as cors from "cors";
+import * as express from "express";
+import * as basicAuth from "express-basic-auth";
+import type { FixtureBranch, FixtureBusiness, FixtureReview } from "./fixtures";
+import { BUSINESSES, MOCK_EMAIL, MOCK_PASSWORD } from "./fixtures";
+
+// The platforms served by the mock server, each mounted under its own path
+export const MOCK_PLATFORMS = ["phorest", "mindbody", "boulevard"] as const;
+export type MockPlatform = (typeof MOCK_PLATFORMS)[number];
+
+// How long rate limited branches ask clients to wait, in seconds
+const RETRY_AFTER_SECONDS = 1;
+
+type Page = {
+  reviews: FixtureReview[];
+  offset: number;
+  total: number;
+};
+
+const paginate = (
+  reviews: FixtureReview[],
+  offset: number,
+  limit: number,
+): Page => ({
+  reviews: reviews.slice(offset, offset + limit),
+  offset,
+  total: reviews.length,
+});
+
+const readInt = (value: unknown, fallback: number) => {
+  const parsed = typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+const toGenericReview = (review: FixtureReview) => ({
+  id: review.id,
+  client: review.clientFirstName
+    ? { firstName: review.clientFirstName, lastName: review.clientLastName }
+    : undefined,
+  staff: review.staffFirstName
+    ? { firstName: review.staffFirstName, lastName: review.staffLastName }
+    : undefined,
+  rating: review.rating,
+  createdAt: review.date,
+  comment: review.text,
+});
+
+/**
+ * Serves the fixtures in the shapes each platform's provider parses.
+ */
+const PLATFORMS: Record<
+  MockPlatform,
+  {
+    username: (email: string) => string;
+    branchesPath: string;
+    reviewsPath: string;
+    branches: (branches: FixtureBranch[]) => unknown;
+    reviews: (query: express.Request["query"]) => {
+      offset: number;
+      limit: number;
+      render: (page: Page) => unknown;
+    };
+  }
+> = {
+  phorest: {
+    username: (email) => `global/${email}`,
+    branchesPath: "/:businessId/branch",
+    reviewsPath: "/:businessId/branch/:branchId/review",
+    branches: (branches) => ({
+      _embedded: {
+        branches: branches.map(({ id, name }) => ({ branchId: id, name })),
+      },
+    }),
+    reviews: (query) => {
+      const size = readInt(query.size, 20);
+      const number = readInt(query.page, 0);
+      return {
+        offset: number * size,
+        limit: size,
+        render: ({ reviews, total }) => ({
+          _embedded: {
+            reviews: reviews.map(({ id, date, ...review }) => ({
+              reviewId: id,
+              reviewDate: date,
+              ...review,
+            })),
+          },
+          page: {
+            size,
+            totalElements: total,
+            totalPages: Math.ceil(total / size),
+            number,
+          },
+        }),
+      };
+    },
+  },
+  mindbody: {
+    username: (email) => email,
+    branchesPath: "/business/:businessId/locations",
+    reviewsPath: "/business/:businessId/location/:branchId/reviews",
+    branches: (branches) => ({
+      locations: branches.map(({ id, name }) => ({ id, name })),
+    }),
+    reviews: (query) => {
+      const limit = readInt(query.limit, 20);
+      const offset = readInt(query.offset, 0);
+      return {
+        offset,
+        limit,
+        render: ({ reviews, total }) => ({
+          reviews: reviews.map(toGenericReview),
+          PaginationResponse: {
+            RequestedLimit: limit,
+            RequestedOffset: offset,
+            PageSize: reviews.length,
+            TotalResults: total,
+          },
+        }),
+      };
+    },
+  },
+  boulevard: {
+    username: (email) => email,
+    branchesPath: "/businesses/:businessId/locations",
+    reviewsPath: "/businesses/:businessId/locations/:branchId/reviews",
+    branches: (branches) => ({
+      data: branches.map(({ id, name }) => ({ id, name })),
+    }),
+    reviews: (query) => {
+      // Cursors are opaque to clients, so the mock simply uses the offset
+      const offset = readInt(query.after, 0);
+      const limit = readInt(query.first, 20);
+      return {
+        offset,
+        limit,
+        render: ({ reviews, total }) => ({
+          data: reviews.map(toGenericReview),
+          pageInfo: {
+            hasNextPage: offset + reviews.length < total,
+            endCursor: String(offset + reviews.length),
+          },
+          totalCount: total,
+        }),
+      };
+    },
+  },
+};
+
+function createPlatformRouter(
+  platform: MockPlatform,
+  businesses: FixtureBusiness[],
+): express.Router {
+  const config = PLATFORMS[platform];
+  const router = express.Router();
+  const requestCounts = new Map<string, number>();
+
+  router.use(
+    basicAuth({
+      users: { [config.username(MOCK_EMAIL)]: MOCK_PASSWORD },
+      unauthorizedResponse: { error: "invalid_credentials" },
+    }),
+  );
+
+  const findBusiness = (id: string) =>
+    businesses.find((business) => business.id === id);
+
+  router.get(config.branchesPath, (req, res) => {
+    const business = findBusiness(req.params.businessId);
+    if (!business) {
+      return res.status(404).json({ error: "business_not_found" });
+    }
+    res.json(config.branches(business.branches));
+  });
+
+  router.get(config.reviewsPath, (req, res) => {
+    const branch = findBusiness(req.params.businessId)?.branches.find(
+      ({ id }) => id === req.params.branchId,
+    );
+    if (!branch) {
+      return res.status(404).json({ error: "branch_not_found" });
+    }
+
+    if (branch.rateLimited) {
+      const count = (requestCounts.get(branch.id) || 0) + 1;
+      requestCounts.set(branch.id, count);
+      if (count % 2 === 1) {
+        res.set("Retry-After", String(RETRY_AFTER_SECONDS));
+        return res.status(429).json({ error: "rate_limited" });
+      }
+    }
+
+    const { offset, limit, render } = config.reviews(req.query);
+    res.json(render(paginate(branch.reviews, offset, limit)));
+  });
+
+  return router;
+}
+
+/**
+ * Creates a server that stands in for the salon platform APIs during development. Each
+ * platform is served under `/<platform>`, which replaces the platform's API base URL.
+ * @param businesses - The accounts to serve. Defaults to the bundled fixtures.
+ */
+export function createMockPlatformServer(
+  businesses: FixtureBusiness[] = BUSINESSES,
+): express.Express {
+  const app = express();
+  // Allows calls from browsers, including jsdom in tests, as well as from the backend
+  app.use(cors({ exposedHeaders: ["Retry-After"] }));
+  MOCK_PLATFORMS.forEach((platform) =>
+    app.use(`/${platform}`, createPlatformRouter(platform, businesses)),
+  );
+  return app;
+}
+
+/**
+ * Returns the environment variables that point the backend at a running mock server.
+ * @param url - The base URL of the mock server.
+ */
+export function getMockPlatformEnv(url: string): Record<string, string> {
+  return Object.fromEntries(
+    MOCK_PLATFORMS.map((platform) => [
+      `${platform.toUpperCase()}_API_URL`,
+      `${url}/${platform}`,
+    ]),
+  );
+}
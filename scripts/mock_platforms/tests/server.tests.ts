@@ -0,0 +1,111 @@
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { ProviderOptions, ReviewProvider } from "../../../src/providers";
+import {
+  createBoulevardProvider,
+  createMindbodyProvider,
+  createPhorestProvider,
+  fetchAllReviews,
+} from "../../../src/providers";
+import { MOCK_EMAIL, MOCK_PASSWORD } from "../fixtures";
+import { createMockPlatformServer } from "../server";
+
+describe("mock platform server", () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => {
+      server = createMockPlatformServer().listen(0, resolve);
+    });
+    url = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe.each<[string, (options: ProviderOptions) => ReviewProvider]>([
+    ["phorest", createPhorestProvider],
+    ["mindbody", createMindbodyProvider],
+    ["boulevard", createBoulevardProvider],
+  ])("%s", (platform, createProvider) => {
+    let provider: ReviewProvider;
+
+    beforeEach(() => {
+      provider = createProvider({ baseUrl: `${url}/${platform}` });
+    });
+
+    const connect = (email = MOCK_EMAIL, businessId = "demo-salon") =>
+      provider.authenticate({ businessId, email, password: MOCK_PASSWORD });
+
+    it("lists the branches of a business", async () => {
+      const branches = await provider.listBranches(await connect());
+
+      expect(branches.map((branch) => branch.id)).toEqual([
+        "city-centre",
+        "harbour",
+        "new-opening",
+        "busy",
+      ]);
+    });
+
+    it("rejects unknown credentials with a 401", async () => {
+      await expect(
+        provider.listBranches(await connect("someone@example.com")),
+      ).rejects.toMatchObject({ response: { status: 401 } });
+    });
+
+    it("returns a business without branches", async () => {
+      const session = await connect(MOCK_EMAIL, "empty-salon");
+
+      expect(await provider.listBranches(session)).toEqual([]);
+    });
+
+    it("pages through every review of a branch", async () => {
+      const session = await connect();
+      const fetchPage = jest.fn((options) =>
+        provider.listReviews(session, "city-centre", options),
+      );
+
+      const { reviews, rejected } = await fetchAllReviews(fetchPage);
+
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+      expect(reviews).toHaveLength(45);
+      expect(rejected).toEqual([]);
+      expect(reviews[0]).toMatchObject({
+        reviewId: "city-1",
+        clientFirstName: "Ava",
+        staff: { firstName: "Sinead", lastName: "Murphy" },
+      });
+    });
+
+    it("keeps unrated reviews and returns incomplete records as rejected", async () => {
+      const page = await provider.listReviews(await connect(), "harbour");
+
+      expect(page.reviews).toHaveLength(4);
+      expect(page.reviews[3]).toMatchObject({ reviewId: "harbour-unrated" });
+      expect(page.reviews[3].rating).toBeUndefined();
+      expect(page.rejected).toEqual([
+        expect.objectContaining({
+          record: expect.objectContaining({ reviewId: "harbour-no-date" }),
+        }),
+      ]);
+    });
+
+    it("returns an empty branch", async () => {
+      const page = await provider.listReviews(await connect(), "new-opening");
+
+      expect(page.reviews).toEqual([]);
+      expect(page.nextCursor).toBeUndefined();
+    });
+
+    it("retries a busy branch once the rate limit's Retry-After has passed", async () => {
+      const session = await connect();
+
+      const page = await provider.listReviews(session, "busy");
+
+      expect(page.reviews).toHaveLength(5);
+    });
+  });
+});
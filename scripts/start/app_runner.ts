@@ -11,6 +11,11 @@ import * as open from "open";
 import { generatePreviewUrl } from "@canva/cli";
 import type { Certificate } from "../ssl/ssl";
 import { createOrRetrieveCertificate } from "../ssl/ssl";
+import {
+  createMockPlatformServer,
+  getMockPlatformEnv,
+} from "../mock_platforms/server";
+import { MOCK_EMAIL, MOCK_PASSWORD } from "../mock_platforms/fixtures";
 
 export const infoChalk = chalk.blue.bold;
 export const warnChalk = chalk.bgYellow.bold;
@@ -56,7 +61,9 @@ export class AppRunner {
 
     const server = await this.runWebpackDevServer(ctx, table, cert);
 
-    await this.maybeRunBackendServer(ctx, table, cert, server);
+    const mockPlatformEnv = await this.maybeRunMockPlatformServer(ctx, table);
+
+    await this.maybeRunBackendServer(ctx, table, cert, server, mockPlatformEnv);
 
     await this.generateAndOpenPreviewUrl(ctx.openPreview, table);
 
@@ -71,11 +78,40 @@ export class AppRunner {
     );
   }
 
+  /**
+   * Starts local stand-ins for the salon platform APIs, and returns the environment
+   * variables that point the backend at them
+   */
+  private readonly maybeRunMockPlatformServer = async (
+    ctx: Context,
+    table: Table.Table,
+  ): Promise<Record<string, string>> => {
+    if (!ctx.mockPlatformsEnabled) {
+      return {};
+    }
+
+    await new Promise<void>((resolve) => {
+      createMockPlatformServer().listen(ctx.mockPlatformsPort, resolve);
+    });
+
+    table.push([
+      "Mock salon platforms",
+      `${linkChalk(ctx.mockPlatformsUrl)}\nSign in with business ID ${highlightChalk(
+        "demo-salon",
+      )}, email ${highlightChalk(MOCK_EMAIL)} and password ${highlightChalk(
+        MOCK_PASSWORD,
+      )}.`,
+    ]);
+
+    return getMockPlatformEnv(ctx.mockPlatformsUrl);
+  };
+
   private readonly maybeRunBackendServer = async (
     ctx: Context,
     table: Table.Table,
     cert: Certificate | undefined,
     webpackDevServer: WebpackDevServer,
+    extraEnv: Record<string, string>,
   ) => {
     if (!ctx.developerBackendEntryPath) {
       return;
@@ -100,6 +136,7 @@ export class AppRunner {
           SHOULD_ENABLE_HTTPS: ctx.httpsEnabled,
           HTTPS_CERT_FILE: cert?.certFile || "",
           HTTPS_KEY_FILE: cert?.keyFile || "",
+          ...extraEnv,
         },
       });
 
@@ -1,11 +1,14 @@
 import * as fs from "fs";
 import * as path from "path";
 
+const MOCK_PLATFORMS_PORT = 3002;
+
 interface CliArgs {
   example?: string;
   useHttps: boolean;
   ngrok: boolean;
   preview: boolean;
+  mockPlatforms?: boolean;
   overrideFrontendPort?: number;
 }
 
@@ -54,6 +57,18 @@ export class Context {
     return this.envVars.hmrEnabled;
   }
 
+  get mockPlatformsEnabled() {
+    return Boolean(this.args.mockPlatforms);
+  }
+
+  get mockPlatformsPort() {
+    return MOCK_PLATFORMS_PORT;
+  }
+
+  get mockPlatformsUrl() {
+    return `http://localhost:${MOCK_PLATFORMS_PORT}`;
+  }
+
   get httpsEnabled() {
     return this.args.useHttps;
   }
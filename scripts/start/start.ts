@@ -29,6 +29,15 @@ yargs(hideBin(process.argv))
     type: "number",
     alias: "p",
   })
+  .option("mock-platforms", {
+    description:
+      "Run local stand-ins for the salon platform APIs and point the backend at them.",
+    type: "boolean",
+    // npm swallows command line args instead of forwarding to the script
+    default:
+      process.env.npm_config_mock_platforms?.toLocaleLowerCase().trim() ===
+      "true",
+  })
   .option("preview", {
     description: "Open the app in Canva.",
     type: "boolean",
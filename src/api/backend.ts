@@ -0,0 +1,183 @@
+import { auth } from "@canva/user";
+import type { Method } from "axios";
+import { HttpClient } from "../../utils/http_client";
+import type { Branch, NamePrivacy, StyleProfile } from "../models";
+import type { ListReviewsOptions, ReviewPage } from "../providers";
+import { platformClient } from "../providers/http";
+
+/**
+ * The details a user enters to connect their salon software account.
+ */
+export type ConnectionDetails = {
+  platform: string;
+  businessId: string;
+  email: string;
+  password: string;
+};
+
+/**
+ * A stored connection, as reported by the backend. The password never leaves the backend.
+ */
+export type Connection = Omit<ConnectionDetails, "password">;
+
+/**
+ * A page of reviews served from the backend's review cache.
+ */
+export type CachedReviewPage = ReviewPage & {
+  // When the backend last synced the branch's reviews with the salon platform.
+  lastSyncedAt: string;
+  // Branches left out of a listing of every location because they couldn't be synced.
+  failedBranches?: Branch[];
+};
+
+// Codes axios gives a request that timed out
+const TIMEOUT_CODES = ["ECONNABORTED", "ETIMEDOUT"];
+
+// The backend already retries the salon platform, so the app doesn't repeat requests the
+// backend gave up on or may still be working on. Each would start another round of retries
+// against the platform. The timeout leaves room for the backend to retry a platform call
+// as long as it's allowed to, and for syncing every location on first load.
+const client = new HttpClient({
+  timeoutMs: platformClient.maxDurationMs + 60 * 1000,
+  isRetryable: (error) =>
+    (error.response?.data as { error?: string } | undefined)?.error !==
+      "platform_error" && !TIMEOUT_CODES.includes(error.code || ""),
+});
+
+type RequestOptions = {
+  data?: unknown;
+  params?: Record<string, string | undefined>;
+  signal?: AbortSignal;
+};
+
+/**
+ * Sends an authenticated request to the app's backend, retrying transient failures. The
+ * backend verifies the Canva user token and uses it to look up the user's stored salon
+ * platform credentials.
+ */
+async function request<T>(
+  method: Method,
+  path: string,
+  { data, params, signal }: RequestOptions = {},
+): Promise<T> {
+  const token = await auth.getCanvaUserToken();
+  const response = await client.request<T>({
+    method,
+    url: `${BACKEND_HOST}${path}`,
+    headers: { Authorization: `Bearer ${token}` },
+    data,
+    params,
+    signal,
+  });
+  return response.data;
+}
+
+/**
+ * Returns the user's stored connection, or `null` if they haven't connected yet.
+ */
+export async function getConnection(): Promise<Connection | null> {
+  const { connection } = await request<{ connection: Connection | null }>(
+    "GET",
+    "/api/connection",
+  );
+  return connection;
+}
+
+/**
+ * Verifies the credentials with the salon platform and stores them on the backend,
+ * replacing any existing connection.
+ * @param details - The platform and credentials entered by the user.
+ * @returns The stored connection and the branches of the business.
+ */
+export function connect(
+  details: ConnectionDetails,
+): Promise<{ connection: Connection; branches: Branch[] }> {
+  return request("PUT", "/api/connection", { data: details });
+}
+
+/**
+ * Deletes the user's stored credentials.
+ */
+export async function disconnect(): Promise<void> {
+  await request("DELETE", "/api/connection");
+}
+
+/**
+ * Lists the branches of the connected business.
+ */
+export async function listBranches(): Promise<Branch[]> {
+  const { branches } = await request<{ branches: Branch[] }>(
+    "GET",
+    "/api/branches",
+  );
+  return branches;
+}
+
+/**
+ * Lists a page of reviews for a branch of the connected business. Reviews are served from
+ * the backend's cache, which syncs with the salon platform when it's out of date.
+ * @param branchId - The branch to list reviews for, or `undefined` for every branch. Reviews
+ * listed across branches are tagged with their branch.
+ * @param options - The page to fetch and an optional signal to cancel the request.
+ */
+export function listReviews(
+  branchId: string | undefined,
+  { cursor, signal }: ListReviewsOptions = {},
+): Promise<CachedReviewPage> {
+  return request<CachedReviewPage>("GET", "/api/reviews", {
+    params: { branchId, cursor },
+    signal,
+  });
+}
+
+/**
+ * Asks the backend to sync a branch's reviews with the salon platform now, and returns
+ * the first page. The backend may skip the sync if it synced very recently.
+ * @param branchId - The branch to refresh, or `undefined` for every branch.
+ */
+export function refreshReviews(
+  branchId: string | undefined,
+): Promise<CachedReviewPage> {
+  return request<CachedReviewPage>("POST", "/api/reviews/refresh", {
+    data: { branchId },
+  });
+}
+
+/**
+ * Returns the style profile saved for the user's brand, or `null` if nobody in the brand
+ * has saved one.
+ */
+export async function getStyleProfile(): Promise<StyleProfile | null> {
+  const { profile } = await request<{ profile: StyleProfile | null }>(
+    "GET",
+    "/api/style-profile",
+  );
+  return profile;
+}
+
+/**
+ * Saves the style profile for the user's brand, replacing any saved before.
+ */
+export async function saveStyleProfile(profile: StyleProfile): Promise<void> {
+  await request("PUT", "/api/style-profile", { data: profile });
+}
+
+/**
+ * Returns how much of their clients' names the user's brand shows. Reviews from the
+ * backend already have the hidden parts of each name removed.
+ */
+export async function getNamePrivacy(): Promise<NamePrivacy> {
+  const { privacy } = await request<{ privacy: NamePrivacy }>(
+    "GET",
+    "/api/name-privacy",
+  );
+  return privacy;
+}
+
+/**
+ * Saves how much of their clients' names the user's brand shows, for everyone in the
+ * brand.
+ */
+export async function saveNamePrivacy(privacy: NamePrivacy): Promise<void> {
+  await request("PUT", "/api/name-privacy", { data: privacy });
+}
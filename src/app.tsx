@@ -1,100 +1,229 @@
 import {
   Button,
+  Checkbox,
+  CheckboxGroup,
   Rows,
   Text,
   TextInput,
   Select,
   Alert,
-  Checkbox,
-  Stack,
+  ArrowLeftIcon,
+  LoadingIndicator,
+  ProgressBar,
 } from "@canva/app-ui-kit";
+import { upload } from "@canva/asset";
+import {
+  getBrandKitColors,
+  getCurrentPageContext,
+  initAppElement,
+  ui,
+} from "@canva/design";
+import type { AppElementOptions, PageDimensions } from "@canva/design";
 import { FormattedMessage, useIntl } from "react-intl";
 import * as styles from "../styles/components.css";
 import { useAddElement } from "../utils/use_add_element";
-import React, { useState, useEffect } from "react";
-import axios from "axios";
-
-// Supported salon software platforms
-const SALON_PLATFORMS = [
-  { id: 'phorest', name: 'Phorest' },
-  { id: 'mindbody', name: 'Mindbody' },
-  { id: 'boulevard', name: 'Boulevard' },
-];
-
-// API Configuration
-const API_CONFIGS = {
-  phorest: {
-    baseUrl: "https://api-gateway-eu.phorest.com/third-party-api-server/api/business",
-    authFormat: (email: string) => `global/${email}`,
-    endpoints: {
-      branches: (businessId: string) => `/${businessId}/branch`,
-      reviews: (businessId: string, branchId: string) => `/${businessId}/branch/${branchId}/review`,
-    },
-  },
-  mindbody: {
-    baseUrl: "https://api.mindbodyonline.com/public/v6",
-    authFormat: (email: string) => email,
-    endpoints: {
-      branches: (businessId: string) => `/business/${businessId}/locations`,
-      reviews: (businessId: string, branchId: string) => `/business/${businessId}/location/${branchId}/reviews`,
-    },
-  },
-  boulevard: {
-    baseUrl: "https://api.boulevard.io/api/v1",
-    authFormat: (email: string) => email,
-    endpoints: {
-      branches: (businessId: string) => `/businesses/${businessId}/locations`,
-      reviews: (businessId: string, branchId: string) => `/businesses/${businessId}/locations/${branchId}/reviews`,
-    },
-  },
-};
+import { useFeatureSupport } from "../utils/use_feature_support";
+import { useSelection } from "../utils/use_selection_hook";
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import type {
+  Branch,
+  NamePrivacy,
+  RejectedRecord,
+  Review,
+  StyleProfile,
+} from "./models";
+import {
+  applyNamePrivacy,
+  clientNameOf,
+  DEFAULT_NAME_PRIVACY,
+  DEFAULT_STYLE_PROFILE,
+} from "./models";
+import * as api from "./api/backend";
+import {
+  fetchAllReviews,
+  FetchCancelledError,
+  listProviders,
+} from "./providers";
+import type { RedactedSpan } from "./redaction";
+import {
+  findReviewRedactions,
+  formatRedactionLabels,
+  PROFANITY_WORDS,
+  redactText,
+  replaceWithLabel,
+} from "./redaction";
+import type { FetchProgress, ReviewListing } from "./providers";
+import type { ReviewCardContent } from "./layout/review_card";
+import {
+  DEFAULT_PAGE,
+  fitQuoteToPage,
+  layoutReviewCard,
+} from "./layout/review_card";
+import type { SentenceRange } from "./layout/excerpt";
+import { excerptText, pickExcerpt } from "./layout/excerpt";
+import { formatStars, roundToHalfStar } from "./layout/star_rating";
+import type { PlaceholderValues } from "./layout/placeholders";
+import {
+  fillPlaceholders,
+  fillRichtextPlaceholders,
+  findPlaceholders,
+} from "./layout/placeholders";
+import type { ReviewElementData } from "./layout/review_element";
+import { placementOf, renderReviewElement } from "./layout/review_element";
+import {
+  applyBrandStyle,
+  DEFAULT_TEMPLATE,
+  getTemplate,
+  TEMPLATES,
+} from "./templates";
+import type { TestimonialTemplate } from "./templates";
+import { BrandStyleSettings } from "./components/brand_style_settings";
+import { ExcerptRangePicker } from "./components/excerpt_range_picker";
+import { NamePrivacySettings } from "./components/name_privacy_settings";
+import { StarRating } from "./components/star_rating";
+import { RedactedText } from "./components/redacted_text";
+import type { RedactionChoices } from "./components/redaction_settings";
+import {
+  DEFAULT_REDACTION_CHOICES,
+  RedactionSettings,
+} from "./components/redaction_settings";
+import { TemplateGallery } from "./components/template_gallery";
+import type { CarouselProgress } from "./layout/carousel";
+import type { CardImage } from "./layout/card_image";
+import {
+  DEFAULT_IMAGE_PRESET,
+  IMAGE_PRESETS,
+  placeCardImage,
+  renderCardImage,
+} from "./layout/card_image";
+import { reviewImageDragConfig } from "./layout/review_drag";
+import {
+  CarouselCancelledError,
+  createCarousel,
+  initialsOf,
+} from "./layout/carousel";
+import type {
+  ReviewTableColumn,
+  ReviewTableRow,
+  TableOverflow,
+} from "./layout/review_table";
+import {
+  layoutReviewTables,
+  planReviewTables,
+  REVIEW_TABLE_COLUMNS,
+} from "./layout/review_table";
 
-interface SavedCredentials {
-  platform: string;
-  businessId: string;
-  email: string;
-  password: string;
-  rememberMe: boolean;
-}
-
-// Extend Window interface to include Canva types
-declare global {
-  interface Window {
-    canva: {
-      storage: {
-        get: <T>(key: string) => Promise<T | null>;
-        set: <T>(key: string, value: T) => Promise<void>;
-        remove: (key: string) => Promise<void>;
-      };
-    };
-  }
-}
+// How close to the bottom of the panel, in pixels, the next page of reviews starts loading
+const INFINITE_SCROLL_THRESHOLD_PX = 200;
+// The location picker value that lists the reviews of every branch
+const ALL_LOCATIONS = "all";
+
+// The width of the image shown under the cursor while a review is dragged, in pixels
+// The excerpt lengths offered for long reviews, in characters
+const EXCERPT_LENGTHS = [120, 200, 300];
+// Rating filter values for every review and for reviews without a rating. Rated
+// reviews are filtered by the stars they're shown with.
+const ALL_RATINGS = 0;
+const UNRATED = -1;
+const FILTER_RATINGS = [5, 4, 3, 2, 1];
+
+const ratingFilterOf = (review: Review) =>
+  review.rating === undefined
+    ? UNRATED
+    : Math.max(1, Math.ceil(roundToHalfStar(review.rating)));
+
+// How reviews are added to the design: as a group of text elements, as one rich text
+// element that's edited as a whole, or as an image that looks the same whatever fonts the
+// design uses
+type InsertFormat = "text" | "richtext" | "image";
 
 const formatDate = (date: Date) => {
-  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  
+  const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const months = [
+    "Jan",
+    "Feb",
+    "Mar",
+    "Apr",
+    "May",
+    "Jun",
+    "Jul",
+    "Aug",
+    "Sep",
+    "Oct",
+    "Nov",
+    "Dec",
+  ];
+
   const dayName = days[date.getDay()];
   const day = date.getDate();
   const month = months[date.getMonth()];
   const year = date.getFullYear();
-  
+
   return `${dayName} ${day} ${month}, ${year}`;
 };
 
+// The words or names in a comma separated list, such as "cut, colour"
+const splitList = (text: string) =>
+  text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Resolves to `undefined` if the page has no fixed size or the editor can't say
+const getPageDimensions = async (): Promise<PageDimensions | undefined> => {
+  try {
+    const { dimensions } = await getCurrentPageContext();
+    return dimensions;
+  } catch {
+    return undefined;
+  }
+};
+
+// The distinct solid colors of the design's brand kit, or none if the design has no brand
+// kit or the editor can't share it
+const getBrandColors = async (): Promise<string[]> => {
+  try {
+    const { palettes } = await getBrandKitColors();
+    const colors = palettes.flatMap((palette) =>
+      palette.colors.flatMap((color) =>
+        color.type === "solid" ? [color.color.toLowerCase()] : [],
+      ),
+    );
+    return [...new Set(colors)];
+  } catch {
+    return [];
+  }
+};
+
+// Reviews inserted as text are app elements, so selecting one reopens it in the app
+const reviewElement = initAppElement<ReviewElementData>({
+  render: renderReviewElement,
+});
+
+// The review app element the user has selected, which edits are applied to
+type SelectedReviewElement = {
+  data: ReviewElementData;
+  update: (opts: AppElementOptions<ReviewElementData>) => Promise<void>;
+};
+
 export const App = () => {
   const intl = useIntl();
   const addElement = useAddElement();
+  const isSupported = useFeatureSupport();
+  // Text selected in the design, for filling in placeholders
+  const plaintextSelection = useSelection("plaintext");
+  const richtextSelection = useSelection("richtext");
 
   // State variables for multiple platforms
   const [platform, setPlatform] = useState("phorest");
   const [businessId, setBusinessId] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [rememberMe, setRememberMe] = useState(false);
-  const [branches, setBranches] = useState<{ id: string; name: string }[]>([]);
+  const [connection, setConnection] = useState<api.Connection | null>(null);
+  const [branches, setBranches] = useState<Branch[]>([]);
   const [branchId, setBranchId] = useState("");
-  const [reviews, setReviews] = useState<any[]>([]);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [rejectedReviews, setRejectedReviews] = useState<RejectedRecord[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(true);
@@ -102,293 +231,936 @@ export const App = () => {
   const [sortBy, setSortBy] = useState("newest");
   const [filterRating, setFilterRating] = useState(5);
   const [hasFetchedReviews, setHasFetchedReviews] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string>();
+  const [totalReviews, setTotalReviews] = useState<number>();
+  const [lastSyncedAt, setLastSyncedAt] = useState<string>();
+  const [failedBranches, setFailedBranches] = useState<Branch[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadAllProgress, setLoadAllProgress] = useState<FetchProgress | null>(
+    null,
+  );
+  const loadAllController = useRef<AbortController | null>(null);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE.id);
+  const [previewReviewId, setPreviewReviewId] = useState<string>();
+  const [pageDimensions, setPageDimensions] = useState<PageDimensions>();
+  const [selectedReviewIds, setSelectedReviewIds] = useState<string[]>([]);
+  const [tableColumns, setTableColumns] =
+    useState<ReviewTableColumn[]>(REVIEW_TABLE_COLUMNS);
+  const [tableOverflow, setTableOverflow] = useState<TableOverflow>("split");
+  const [carouselProgress, setCarouselProgress] =
+    useState<CarouselProgress | null>(null);
+  const carouselController = useRef<AbortController | null>(null);
+  const [insertFormat, setInsertFormat] = useState<InsertFormat>("text");
+  const [imagePresetId, setImagePresetId] = useState(DEFAULT_IMAGE_PRESET.id);
+  const [includeAvatar, setIncludeAvatar] = useState(false);
+  // Comma separated words to highlight in reviews inserted as rich text
+  const [highlightKeywords, setHighlightKeywords] = useState("");
+  const [selectedElement, setSelectedElement] =
+    useState<SelectedReviewElement>();
+  const [insertingImage, setInsertingImage] = useState(false);
+  const [styleProfile, setStyleProfile] = useState<StyleProfile>(
+    DEFAULT_STYLE_PROFILE,
+  );
+  const [brandColors, setBrandColors] = useState<string[]>([]);
+  const [namePrivacy, setNamePrivacy] =
+    useState<NamePrivacy>(DEFAULT_NAME_PRIVACY);
+  const [redactionChoices, setRedactionChoices] = useState<RedactionChoices>(
+    DEFAULT_REDACTION_CHOICES,
+  );
+  // Hidden parts of review text the user chose to show, as "reviewId:index:length:kind",
+  // so a choice never carries over to a different span once the detectors change
+  const [keptRedactions, setKeptRedactions] = useState<string[]>([]);
+  // The most characters of a review's text to insert, or 0 to insert it whole
+  const [excerptLength, setExcerptLength] = useState(0);
+  // The sentences the user chose to insert, by review ID
+  const [excerptRanges, setExcerptRanges] = useState<
+    Record<string, SentenceRange>
+  >({});
+  const [fitToPage, setFitToPage] = useState(false);
 
-  // Load saved credentials on component mount
+  // Restore the connection stored on the backend, so returning users skip the settings view
   useEffect(() => {
-    const loadSavedCredentials = async () => {
+    const loadConnection = async () => {
+      setLoading(true);
       try {
-        const savedCredentials = await window.canva.storage.get<SavedCredentials>("salon_credentials");
-        if (savedCredentials) {
-          setPlatform(savedCredentials.platform);
-          setBusinessId(savedCredentials.businessId);
-          setEmail(savedCredentials.email);
-          setPassword(savedCredentials.password);
-          setRememberMe(savedCredentials.rememberMe);
-          
-          // If credentials are saved and remember me is true, automatically fetch branches
-          if (savedCredentials.rememberMe) {
-            await fetchBranches();
-          }
+        const storedConnection = await api.getConnection();
+        if (storedConnection) {
+          setConnection(storedConnection);
+          setPlatform(storedConnection.platform);
+          setBusinessId(storedConnection.businessId);
+          setEmail(storedConnection.email);
+          setBranches(await api.listBranches());
+          setShowSettings(false);
         }
       } catch {
-        // Ignore storage errors
+        // The user can still connect from the settings view
+      } finally {
+        setLoading(false);
       }
     };
-    loadSavedCredentials();
+    loadConnection();
   }, []);
 
-  const saveCredentials = async () => {
-    if (rememberMe) {
-      try {
-        await window.canva.storage.set("salon_credentials", {
-          platform,
-          businessId,
-          email,
-          password,
-          rememberMe,
-        });
-      } catch {
-        // Ignore storage errors
+  // The brand's saved profile keeps the user's choices, and the brand kit offers the colors
+  // to choose from. Brand kit colors are suggested until the user picks their own.
+  useEffect(() => {
+    const loadBrandStyle = async () => {
+      const [colors, savedProfile] = await Promise.all([
+        getBrandColors(),
+        api.getStyleProfile().catch(() => null),
+      ]);
+      setBrandColors(colors);
+      setStyleProfile(
+        savedProfile || {
+          ...DEFAULT_STYLE_PROFILE,
+          ...(colors[0] && { primaryColor: colors[0] }),
+          ...(colors[1] && { accentColor: colors[1] }),
+        },
+      );
+    };
+    loadBrandStyle();
+  }, []);
+
+  // Reviews arrive with names already reduced to the brand's setting. The app applies the
+  // setting too, so names never show more than the brand allows while it changes.
+  useEffect(() => {
+    api
+      .getNamePrivacy()
+      .then(setNamePrivacy)
+      .catch(() => {
+        // The default is private enough to keep using
+      });
+  }, []);
+
+  // Selecting a review in the design brings back the template and options it was
+  // inserted with
+  useEffect(() => {
+    reviewElement.registerOnElementChange((element) => {
+      setSelectedElement(element);
+      if (element) {
+        const { data } = element;
+        setTemplateId(data.templateId);
+        setPreviewReviewId(data.reviewId);
+        setInsertFormat(data.format);
+        setHighlightKeywords(data.keywords.join(", "));
       }
-    } else {
-      try {
-        await window.canva.storage.remove("salon_credentials");
-      } catch {
-        // Ignore storage errors
+    });
+  }, []);
+
+  const updateStyleProfile = async (profile: StyleProfile) => {
+    setStyleProfile(profile);
+    try {
+      await api.saveStyleProfile(profile);
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "Your brand style couldn't be saved. It will only be used until you close the app.",
+          description: "Error shown when the brand style can't be saved",
+        }),
+      );
+    }
+  };
+
+  // Reviews are fetched again, since names hidden by the old setting have to come from the
+  // backend if the new one shows more
+  const updateNamePrivacy = async (privacy: NamePrivacy) => {
+    setNamePrivacy(privacy);
+    setError(null);
+    try {
+      await api.saveNamePrivacy(privacy);
+      if (hasFetchedReviews) {
+        await fetchReviews();
       }
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "Your client name setting couldn't be saved. Please try again.",
+          description:
+            "Error shown when the setting for how much of a client's name to show can't be saved",
+        }),
+      );
     }
   };
 
+  // The selected template, in the brand's colors and font
+  const getStyledTemplate = () =>
+    applyBrandStyle(getTemplate(templateId), styleProfile);
+
   const validateEmail = (email: string) => {
     return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
   };
 
   const validateBusinessId = (id: string) => {
     // Accept any non-empty string without spaces as a business ID
-    return id.trim().length > 0 && !id.includes(' ');
+    return id.trim().length > 0 && !id.includes(" ");
   };
 
-  const getApiConfig = () => {
-    return API_CONFIGS[platform as keyof typeof API_CONFIGS] || API_CONFIGS.phorest;
-  };
-
-  const fetchBranches = async () => {
+  // Returns whether the connection succeeded
+  const connect = async (): Promise<boolean> => {
     if (!validateBusinessId(businessId)) {
-      setError(intl.formatMessage({
-        defaultMessage: "Please enter a valid Business ID",
-        description: "Invalid Business ID error message"
-      }));
-      return;
+      setError(
+        intl.formatMessage({
+          defaultMessage: "Please enter a valid Business ID",
+          description: "Invalid Business ID error message",
+        }),
+      );
+      return false;
     }
 
     if (!validateEmail(email)) {
-      setError(intl.formatMessage({
-        defaultMessage: "Please enter a valid email address",
-        description: "Invalid email error message"
-      }));
-      return;
+      setError(
+        intl.formatMessage({
+          defaultMessage: "Please enter a valid email address",
+          description: "Invalid email error message",
+        }),
+      );
+      return false;
     }
 
     if (!password) {
-      setError(intl.formatMessage({
-        defaultMessage: "Please enter your password",
-        description: "Missing password error message"
-      }));
-      return;
+      setError(
+        intl.formatMessage({
+          defaultMessage: "Please enter your password",
+          description: "Missing password error message",
+        }),
+      );
+      return false;
     }
 
     setLoading(true);
     setError(null);
     try {
-      const apiConfig = getApiConfig();
-      const endpoint = apiConfig.baseUrl + apiConfig.endpoints.branches(businessId);
-      
-      const response = await axios.get(endpoint, {
-        auth: {
-          username: apiConfig.authFormat(email),
-          password,
-        },
-      });
-      
-      // Process response based on platform
-      let branchData: any[] = [];
-      switch (platform) {
-        case 'phorest':
-          branchData = response.data._embedded?.branches || [];
-          break;
-        case 'mindbody':
-          branchData = response.data?.locations || [];
-          break;
-        case 'boulevard':
-          branchData = response.data?.data || [];
-          break;
-        default:
-          branchData = [];
-      }
-      
-      // Map branch data to common format
-      const mappedBranches = branchData.map((branch: any) => {
-        // Handle different data structures based on platform
-        if (platform === 'phorest') {
-          return {
-            id: branch.branchId || branch._links?.self?.href?.split('/').pop() || '',
-            name: branch.name
-          };
-        } else if (platform === 'mindbody') {
-          return {
-            id: branch.id || '',
-            name: branch.name
-          };
-        } else if (platform === 'boulevard') {
-          return {
-            id: branch.id || '',
-            name: branch.name
-          };
-        }
-        
-        return {
-          id: '',
-          name: ''
-        };
+      const result = await api.connect({
+        platform,
+        businessId,
+        email,
+        password,
       });
-      
-      setBranches(mappedBranches);
-      await saveCredentials();
+      setConnection(result.connection);
+      setBranches(result.branches);
+      // The backend keeps the password from here on
+      setPassword("");
+      return true;
     } catch (error: any) {
       if (error.response?.status === 401) {
-        setError(intl.formatMessage({
-          defaultMessage: "Invalid credentials. Please check your Business ID, email, and password.",
-          description: "Authentication error message"
-        }));
+        setError(
+          intl.formatMessage({
+            defaultMessage:
+              "Invalid credentials. Please check your Business ID, email, and password.",
+            description: "Authentication error message",
+          }),
+        );
       } else {
-        setError(error.response?.data?.message || intl.formatMessage({
-          defaultMessage: "Failed to fetch locations. Please try again.",
-          description: "Generic error message"
-        }));
+        setError(
+          error.response?.data?.message ||
+            intl.formatMessage({
+              defaultMessage: "Failed to fetch locations. Please try again.",
+              description: "Generic error message",
+            }),
+        );
       }
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const disconnect = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      await api.disconnect();
+      setConnection(null);
+      setBranches([]);
+      setBranchId("");
+      setReviews([]);
+      setRejectedReviews([]);
+      setNextCursor(undefined);
+      setTotalReviews(undefined);
+      setLastSyncedAt(undefined);
+      setFailedBranches([]);
+      setHasFetchedReviews(false);
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage: "Failed to disconnect. Please try again.",
+          description: "Error shown when removing the stored connection fails",
+        }),
+      );
     } finally {
       setLoading(false);
     }
   };
 
+  const showFetchReviewsError = (error: any) => {
+    if (error.response?.data?.error === "not_connected") {
+      setConnection(null);
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "Your salon software account is no longer connected. Please connect again.",
+          description: "Error shown when the backend has no stored credentials",
+        }),
+      );
+      handleViewTransition(true);
+    } else if (error.response?.status === 401) {
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "Your session has expired. Please re-enter your credentials.",
+          description: "Session expired error message",
+        }),
+      );
+    } else {
+      setError(
+        error.response?.data?.message ||
+          intl.formatMessage({
+            defaultMessage: "Failed to fetch reviews. Please try again.",
+            description: "Generic error message",
+          }),
+      );
+    }
+  };
+
+  // Adds a page of reviews to the list, skipping any that are already shown
+  const appendReviews = (listing: ReviewListing) => {
+    setReviews((current) => {
+      const seen = new Set(current.map((review) => review.reviewId));
+      return [
+        ...current,
+        ...listing.reviews.filter((review) => !seen.has(review.reviewId)),
+      ];
+    });
+    setRejectedReviews((current) => [...current, ...listing.rejected]);
+  };
+
+  const showFirstPage = (page: api.CachedReviewPage) => {
+    setReviews(page.reviews);
+    setRejectedReviews(page.rejected);
+    setNextCursor(page.nextCursor);
+    setTotalReviews(page.total);
+    setLastSyncedAt(page.lastSyncedAt);
+    setFailedBranches(page.failedBranches || []);
+    setHasFetchedReviews(true);
+  };
+
+  // The branch to request from the backend, where `undefined` means every branch
+  const requestedBranchId = branchId === ALL_LOCATIONS ? undefined : branchId;
+
   const fetchReviews = async () => {
     setLoading(true);
     setError(null);
     try {
-      const apiConfig = getApiConfig();
-      const endpoint = apiConfig.baseUrl + apiConfig.endpoints.reviews(businessId, branchId);
-      
-      const response = await axios.get(endpoint, {
-        params: {
-          page: 0,
-          size: 20,
+      showFirstPage(await api.listReviews(requestedBranchId));
+    } catch (error) {
+      showFetchReviewsError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshReviews = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      showFirstPage(await api.refreshReviews(requestedBranchId));
+    } catch (error) {
+      showFetchReviewsError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMoreReviews = async () => {
+    if (!nextCursor || loading || loadingMore || loadAllProgress) {
+      return;
+    }
+
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const page = await api.listReviews(requestedBranchId, {
+        cursor: nextCursor,
+      });
+      appendReviews(page);
+      setNextCursor(page.nextCursor);
+      setTotalReviews(page.total);
+    } catch (error) {
+      showFetchReviewsError(error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const loadAllReviews = async () => {
+    if (!nextCursor) {
+      return;
+    }
+
+    const controller = new AbortController();
+    loadAllController.current = controller;
+    const alreadyLoaded = reviews.length + rejectedReviews.length;
+    setLoadAllProgress({ loaded: alreadyLoaded, total: totalReviews });
+    setError(null);
+    try {
+      await fetchAllReviews(
+        (options) => api.listReviews(requestedBranchId, options),
+        {
+          cursor: nextCursor,
+          signal: controller.signal,
+          onPage: (page) => {
+            appendReviews(page);
+            setNextCursor(page.nextCursor);
+          },
+          onProgress: ({ loaded, total }) =>
+            setLoadAllProgress({ loaded: alreadyLoaded + loaded, total }),
+        },
+      );
+    } catch (error) {
+      // Pages that arrived before the cancel are kept, so there's nothing to undo
+      if (!(error instanceof FetchCancelledError)) {
+        showFetchReviewsError(error);
+      }
+    } finally {
+      loadAllController.current = null;
+      setLoadAllProgress(null);
+    }
+  };
+
+  const cancelLoadAllReviews = () => {
+    loadAllController.current?.abort();
+  };
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    if (showSettings) {
+      return;
+    }
+    const { scrollTop, clientHeight, scrollHeight } = event.currentTarget;
+    if (
+      scrollHeight - scrollTop - clientHeight <
+      INFINITE_SCROLL_THRESHOLD_PX
+    ) {
+      loadMoreReviews();
+    }
+  };
+
+  const getClientName = (review: Review) =>
+    clientNameOf(review, namePrivacy) ||
+    intl.formatMessage({
+      defaultMessage: "Anonymous Client",
+      description: "Name inserted into the design for anonymous reviews",
+    });
+
+  // Initials for avatars and page titles. An alias has none, so they never hint at more
+  // than the name does.
+  const getClientInitials = (review: Review) => {
+    if (namePrivacy.mode === "alias") {
+      return "";
+    }
+    const { clientFirstName, clientLastName } = applyNamePrivacy(
+      review,
+      namePrivacy,
+    );
+    return initialsOf(clientFirstName, clientLastName);
+  };
+
+  const getStaffName = (review: Review) =>
+    review.staff
+      ? `${review.staff.firstName} ${review.staff.lastName}`.trim()
+      : "";
+
+  // Every review is checked against every other client's name, so the redactions are
+  // only found again when the reviews or the choices change
+  const redactionsByReview = useMemo(() => {
+    const { detectors, blockedWords, allowedNames } = redactionChoices;
+    return findReviewRedactions(reviews, {
+      detectors,
+      profanity: [...PROFANITY_WORDS, ...splitList(blockedWords)],
+      allowedNames: splitList(allowedNames),
+      namePrivacy,
+    });
+  }, [reviews, redactionChoices, namePrivacy]);
+
+  const getRedactions = (review: Review): RedactedSpan[] =>
+    redactionsByReview.get(review.reviewId) || [];
+
+  const redactionKeyOf = (review: Review, span: RedactedSpan) =>
+    `${review.reviewId}:${span.index}:${span.length}:${span.kind}`;
+
+  const toggleRedaction = (review: Review, span: RedactedSpan) => {
+    const key = redactionKeyOf(review, span);
+    setKeptRedactions((current) =>
+      current.includes(key)
+        ? current.filter((kept) => kept !== key)
+        : [...current, key],
+    );
+  };
+
+  const redactionLabels = formatRedactionLabels(intl);
+
+  // The review's text as it's inserted, with the hidden parts the user didn't choose to
+  // show replaced
+  const getReviewText = (review: Review) =>
+    redactText(
+      review.text,
+      getRedactions(review).filter(
+        (span) => !keptRedactions.includes(redactionKeyOf(review, span)),
+      ),
+      replaceWithLabel(redactionLabels),
+    );
+
+  // The part of the review's text that's inserted. Long reviews are cut to their most
+  // quotable sentences, or to the sentences the user chose.
+  const getQuote = (review: Review) => {
+    const text = getReviewText(review);
+    if (!excerptLength) {
+      return text;
+    }
+    const range = excerptRanges[review.reviewId];
+    return range
+      ? excerptText(text, range)
+      : excerptText(text, pickExcerpt(text, excerptLength), excerptLength);
+  };
+
+  // The template a review is inserted with, with a long quote shrunk to fit if asked
+  const fitTemplate = (
+    content: ReviewCardContent,
+    template: TestimonialTemplate,
+    page: PageDimensions | undefined,
+  ) => (fitToPage ? fitQuoteToPage(content, template, page) : template);
+
+  const getCardContent = (review: Review): ReviewCardContent => {
+    const clientName = getClientName(review);
+    const date = formatDate(new Date(review.reviewDate));
+    const staffName = getStaffName(review);
+
+    return {
+      heading: intl.formatMessage({
+        defaultMessage: "CLIENT REVIEW",
+        description: "Heading of a review inserted into the design",
+      }),
+      quote: getQuote(review),
+      stars: formatStars(review.rating),
+      rating: review.rating,
+      name: clientName,
+      details: staffName
+        ? intl.formatMessage(
+            {
+              defaultMessage: "{date} with {staffName}",
+              description:
+                "Date of the review and the staff member who served the client, inserted into the design",
+            },
+            { date, staffName },
+          )
+        : date,
+    };
+  };
+
+  const getPlaceholderValues = (review: Review): PlaceholderValues => ({
+    quote: getQuote(review),
+    client: getClientName(review),
+    stars: formatStars(review.rating),
+    staff: getStaffName(review),
+    date: formatDate(new Date(review.reviewDate)),
+    branch:
+      review.branch?.name ||
+      branches.find((branch) => branch.id === branchId)?.name ||
+      "",
+  });
+
+  // Fills the placeholders in the selected text, such as `{{quote}}`. Rich text is
+  // preferred, since it keeps the formatting of each placeholder.
+  const fillSelection = async (review: Review) => {
+    const values = getPlaceholderValues(review);
+    setError(null);
+    let filled = 0;
+    try {
+      if (richtextSelection.count > 0) {
+        const draft = await richtextSelection.read();
+        draft.contents.forEach((range) => {
+          filled += fillRichtextPlaceholders(range, values);
+        });
+        await draft.save();
+      } else if (plaintextSelection.count > 0) {
+        const draft = await plaintextSelection.read();
+        draft.contents.forEach((content) => {
+          filled += findPlaceholders(content.text).length;
+          content.text = fillPlaceholders(content.text, values);
+        });
+        await draft.save();
+      }
+    } catch {
+      // Such as when the selection changes before the text is saved
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "The selected text couldn't be filled. Select the text again and try once more.",
+          description:
+            "Error shown when reading or saving the selected text fails while filling its placeholders",
+        }),
+      );
+      return;
+    }
+
+    if (filled === 0) {
+      setError(
+        intl.formatMessage(
+          {
+            defaultMessage:
+              "The selected text has no placeholders. Add placeholders such as {example} to your design, then select the text.",
+            description:
+              "Error shown when filling the selected text with a review finds nothing to replace",
+          },
+          { example: "{{quote}}" },
+        ),
+      );
+    }
+  };
+
+  const insertReview = async (review: Review) => {
+    const content = getCardContent(review);
+    const template = getStyledTemplate();
+    const page = await getPageDimensions();
+    if (insertFormat === "image") {
+      await insertReviewImage(
+        review,
+        content,
+        fitTemplate(content, template, page),
+        page || DEFAULT_PAGE,
+      );
+      return;
+    }
+
+    const data: ReviewElementData = {
+      platform,
+      reviewId: review.reviewId,
+      content,
+      templateId: template.id,
+      format: insertFormat,
+      keywords: splitList(highlightKeywords),
+      style: styleProfile,
+      page: page || DEFAULT_PAGE,
+      fitToPage,
+    };
+    setError(null);
+    try {
+      // A selected review is swapped for this one rather than adding another
+      if (selectedElement) {
+        await selectedElement.update({ data });
+      } else {
+        await reviewElement.addElement({ data, placement: placementOf(data) });
+      }
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "The review couldn't be added to your design. Please try again.",
+          description:
+            "Error shown when adding a review to the design as text, or replacing the selected review, fails",
+        }),
+      );
+    }
+  };
+
+  const selectTemplate = async (id: string) => {
+    setTemplateId(id);
+    if (!selectedElement) {
+      return;
+    }
+    setError(null);
+    try {
+      await selectedElement.update({
+        data: { ...selectedElement.data, templateId: id },
+      });
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "The selected review couldn't be restyled. Select it again and try once more.",
+          description:
+            "Error shown when applying a template to the review selected in the design fails",
+        }),
+      );
+    }
+  };
+
+  const getImagePreset = () =>
+    IMAGE_PRESETS.find(({ id }) => id === imagePresetId) ||
+    DEFAULT_IMAGE_PRESET;
+
+  const renderReviewImage = (
+    review: Review,
+    content: ReviewCardContent,
+    template: TestimonialTemplate,
+    page: PageDimensions,
+    width: number,
+  ) =>
+    renderCardImage(content, template, page, {
+      width,
+      avatar: includeAvatar
+        ? {
+            initials: getClientInitials(review) || "?",
+          }
+        : undefined,
+    });
+
+  const uploadReviewImage = async (
+    image: CardImage,
+    content: ReviewCardContent,
+  ) => {
+    const { ref } = await upload({
+      type: "image",
+      mimeType: "image/png",
+      url: image.dataUrl,
+      thumbnailUrl: image.dataUrl,
+      width: image.width,
+      height: image.height,
+      aiDisclosure: "none",
+      name: intl.formatMessage(
+        {
+          defaultMessage: "Review from {name}",
+          description:
+            "Name of an uploaded review image in the user's media library",
         },
-        auth: {
-          username: apiConfig.authFormat(email),
-          password,
+        { name: content.name },
+      ),
+    });
+    return { ref };
+  };
+
+  const insertReviewImage = async (
+    review: Review,
+    content: ReviewCardContent,
+    template: TestimonialTemplate,
+    page: PageDimensions,
+  ) => {
+    setInsertingImage(true);
+    setError(null);
+    try {
+      const image = renderReviewImage(
+        review,
+        content,
+        template,
+        page,
+        getImagePreset().width,
+      );
+      const { ref } = await uploadReviewImage(image, content);
+
+      // The image takes the place the card would have as text
+      await addElement({
+        type: "image",
+        ref,
+        altText: {
+          text: [content.stars, content.quote, content.name]
+            .filter(Boolean)
+            .join(" "),
+          decorative: false,
         },
+        ...placeCardImage(image, content, template, page),
+      });
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "The review couldn't be inserted as an image. Try again, or insert it as text.",
+          description:
+            "Error shown when drawing or uploading a review image fails",
+        }),
+      );
+    } finally {
+      setInsertingImage(false);
+    }
+  };
+
+  // Reviews are dragged as an image of the card, as the same image is inserted
+  const startReviewDrag = async (
+    event: React.DragEvent<HTMLDivElement>,
+    review: Review,
+  ) => {
+    const content = getCardContent(review);
+    const page = pageDimensions || DEFAULT_PAGE;
+    const template = fitTemplate(content, getStyledTemplate(), page);
+    setError(null);
+    try {
+      const dragData = reviewImageDragConfig(content, template, page, {
+        width: getImagePreset().width,
+        render: (width) =>
+          renderReviewImage(review, content, template, page, width),
+        upload: (image) => uploadReviewImage(image, content),
       });
-      
-      // Process response based on platform
-      let reviewData: any[] = [];
-      switch (platform) {
-        case 'phorest':
-          reviewData = response.data._embedded?.reviews || [];
-          break;
-        case 'mindbody':
-          reviewData = response.data?.reviews || [];
-          break;
-        case 'boulevard':
-          reviewData = response.data?.data || [];
-          break;
-        default:
-          reviewData = [];
+      if (isSupported(ui.startDragToPoint)) {
+        await ui.startDragToPoint(event, dragData);
+      } else if (isSupported(ui.startDragToCursor)) {
+        await ui.startDragToCursor(event, dragData);
       }
-      
-      // Normalize review data to common format (if needed)
-      const normalizedReviews = reviewData.map((review: any) => {
-        // Transform data based on platform to match common format
-        if (platform === 'mindbody' || platform === 'boulevard') {
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "The review couldn't be dragged into your design. Try inserting it instead.",
+          description:
+            "Error shown when dragging a review into the design fails, such as when its image can't be drawn or uploaded",
+        }),
+      );
+    }
+  };
+
+  const tableHeaders: Record<ReviewTableColumn, string> = {
+    client: intl.formatMessage({
+      defaultMessage: "Client",
+      description: "Header of the client name column in an inserted table",
+    }),
+    rating: intl.formatMessage({
+      defaultMessage: "Rating",
+      description: "Header of the star rating column in an inserted table",
+    }),
+    date: intl.formatMessage({
+      defaultMessage: "Date",
+      description: "Header of the review date column in an inserted table",
+    }),
+    staff: intl.formatMessage({
+      defaultMessage: "Staff",
+      description:
+        "Header of the column with the staff member who served the client, in an inserted table",
+    }),
+    quote: intl.formatMessage({
+      defaultMessage: "Review",
+      description: "Header of the review text column in an inserted table",
+    }),
+  };
+
+  const getTableRow = (review: Review): ReviewTableRow => {
+    const { name, stars, quote } = getCardContent(review);
+    return {
+      client: name,
+      rating: stars,
+      date: formatDate(new Date(review.reviewDate)),
+      staff:
+        review.staff &&
+        `${review.staff.firstName} ${review.staff.lastName}`.trim(),
+      quote,
+    };
+  };
+
+  const toggleReviewSelection = (reviewId: string, selected: boolean) => {
+    setSelectedReviewIds((current) =>
+      selected
+        ? [...current, reviewId]
+        : current.filter((id) => id !== reviewId),
+    );
+  };
+
+  const insertReviewTables = async (reviewsToInsert: Review[]) => {
+    const tables = layoutReviewTables(
+      reviewsToInsert.map(getTableRow),
+      tableHeaders,
+      planReviewTables(reviewsToInsert.length, tableColumns, tableOverflow),
+    );
+    setError(null);
+    try {
+      // One at a time, so the tables are added in the order the reviews are listed
+      for (const table of tables) {
+        await addElement(table);
+      }
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "Not every table could be added to your design. Please try again.",
+          description:
+            "Error shown when adding a table of reviews to the design fails",
+        }),
+      );
+    }
+  };
+
+  const createReviewCarousel = async (carouselReviews: Review[]) => {
+    const template = getStyledTemplate();
+    const page = await getPageDimensions();
+    const controller = new AbortController();
+    carouselController.current = controller;
+    setError(null);
+    try {
+      await createCarousel(carouselReviews, {
+        signal: controller.signal,
+        onProgress: setCarouselProgress,
+        buildPage: (review) => {
+          const content = getCardContent(review);
           return {
-            reviewId: review.id,
-            clientFirstName: review.customer?.firstName || review.client?.firstName || '',
-            clientLastName: review.customer?.lastName || review.client?.lastName || '',
-            rating: review.rating || 5,
-            reviewDate: review.date || review.createdAt || new Date().toISOString(),
-            text: review.text || review.comment || '',
-            staffFirstName: review.staff?.firstName || review.stylist?.firstName || '',
-            staffLastName: review.staff?.lastName || review.stylist?.lastName || ''
+            title: intl.formatMessage(
+              {
+                defaultMessage: "{initials} · {date}",
+                description:
+                  "Title of a design page showing one review, made of the client's initials and the review date",
+              },
+              {
+                initials:
+                  getClientInitials(review) ||
+                  intl.formatMessage({
+                    defaultMessage: "Anonymous",
+                    description: "Anonymous client name",
+                  }),
+                date: formatDate(new Date(review.reviewDate)),
+              },
+            ),
+            elements: [
+              layoutReviewCard(
+                content,
+                fitTemplate(content, template, page),
+                page,
+              ),
+            ],
           };
-        }
-        
-        // Phorest already matches our format
-        return review;
+        },
       });
-      
-      setReviews(normalizedReviews);
-      setHasFetchedReviews(true);
-    } catch (error: any) {
-      if (error.response?.status === 401) {
-        setError(intl.formatMessage({
-          defaultMessage: "Your session has expired. Please re-enter your credentials.",
-          description: "Session expired error message"
-        }));
-      } else {
-        setError(error.response?.data?.message || intl.formatMessage({
-          defaultMessage: "Failed to fetch reviews. Please try again.",
-          description: "Generic error message"
-        }));
+    } catch (error) {
+      // Pages added before the cancel are kept, like any other edit the user can undo
+      if (!(error instanceof CarouselCancelledError)) {
+        setError(
+          intl.formatMessage({
+            defaultMessage:
+              "Not every page could be created. Pages can't be added to some types of design.",
+            description:
+              "Error shown when creating a page for each review fails part way through",
+          }),
+        );
       }
     } finally {
-      setLoading(false);
+      carouselController.current = null;
+      setCarouselProgress(null);
     }
   };
 
-  const insertReview = (review: any) => {
-    const clientName = review.clientFirstName && review.clientLastName 
-      ? `${review.clientFirstName} ${review.clientLastName}`
-      : "Anonymous Client";
-    
-    // Format the review message
-    const message = review.text || "No message provided";
-    
-    // Create star rating with emoji stars
-    const stars = "⭐".repeat(review.rating);
-
-    // Combine all text into a single string with proper spacing
-    const reviewText = [
-      "CLIENT REVIEW",
-      "",
-      `"${message}"`,
-      "",
-      stars,
-      "",
-      clientName
-    ].join("\n");
-
-    // Add as a single text element
-    addElement({
-      type: "text" as const,
-      children: [reviewText],
-      fontSize: 72,
-      textAlign: "center",
-      color: "#000000"
-    });
+  const cancelReviewCarousel = () => {
+    carouselController.current?.abort();
   };
 
   const loadingText = intl.formatMessage({
     defaultMessage: "Loading...",
-    description: "Loading state text"
+    description: "Loading state text",
   });
 
-  const fetchLocationsText = intl.formatMessage({
-    defaultMessage: "Fetch Locations",
-    description: "Fetch locations button text"
+  const connectText = intl.formatMessage({
+    defaultMessage: "Connect",
+    description:
+      "Button that verifies and stores the salon software credentials",
   });
 
   const fetchReviewsText = intl.formatMessage({
     defaultMessage: "Fetch Reviews",
-    description: "Fetch reviews button text"
+    description: "Fetch reviews button text",
   });
 
   const insertReviewText = intl.formatMessage({
     defaultMessage: "Insert Review",
-    description: "Insert review button text"
+    description: "Insert review button text",
   });
 
   const settingsText = intl.formatMessage({
     defaultMessage: "Connection Settings",
-    description: "Settings button text"
+    description: "Settings button text",
   });
 
   // Add transition handler
@@ -402,23 +1174,56 @@ export const App = () => {
 
   const getSortedAndFilteredReviews = () => {
     return reviews
-      .filter(review => filterRating === 0 || review.rating === filterRating)
+      .filter(
+        (review) =>
+          filterRating === ALL_RATINGS ||
+          ratingFilterOf(review) === filterRating,
+      )
       .sort((a, b) => {
         if (sortBy === "newest") {
-          return new Date(b.reviewDate).getTime() - new Date(a.reviewDate).getTime();
+          return (
+            new Date(b.reviewDate).getTime() - new Date(a.reviewDate).getTime()
+          );
         } else if (sortBy === "oldest") {
-          return new Date(a.reviewDate).getTime() - new Date(b.reviewDate).getTime();
+          return (
+            new Date(a.reviewDate).getTime() - new Date(b.reviewDate).getTime()
+          );
         }
         return 0;
       });
   };
 
+  const sortedAndFilteredReviews = getSortedAndFilteredReviews();
+  // The template gallery previews the review the user picked, or else the first one listed
+  const previewReview =
+    sortedAndFilteredReviews.find(
+      (review) => review.reviewId === previewReviewId,
+    ) || sortedAndFilteredReviews[0];
+
+  // Only reviews that are listed go into tables, so a filter can't hide part of a selection
+  const selectedReviews = sortedAndFilteredReviews.filter((review) =>
+    selectedReviewIds.includes(review.reviewId),
+  );
+  const tablePlan =
+    selectedReviews.length > 0 && tableColumns.length > 0
+      ? planReviewTables(selectedReviews.length, tableColumns, tableOverflow)
+      : undefined;
+
+  // The previews are drawn on the current page, which may have changed since the last one
+  useEffect(() => {
+    if (previewReview) {
+      getPageDimensions().then(setPageDimensions);
+    }
+  }, [previewReview?.reviewId]);
+
   return (
-    <div className={styles.scrollContainer}>
+    <div className={styles.scrollContainer} onScroll={handleScroll}>
       <Rows spacing="2u">
         {showSettings ? (
           // Settings View
-          <div style={{ opacity: transitioning ? 0 : 1, transition: 'opacity 1s' }}>
+          <div
+            style={{ opacity: transitioning ? 0 : 1, transition: "opacity 1s" }}
+          >
             <Rows spacing="2u">
               <Text>
                 <FormattedMessage
@@ -427,103 +1232,165 @@ export const App = () => {
                 />
               </Text>
 
-              {error && (
-                <Alert tone="critical">
-                  {error}
-                </Alert>
-              )}
+              {error && <Alert tone="critical">{error}</Alert>}
 
-              <Select
-                value={platform}
-                onChange={(value) => setPlatform(value || 'phorest')}
-                options={SALON_PLATFORMS.map(p => ({ label: p.name, value: p.id }))}
-                disabled={loading}
-                placeholder={intl.formatMessage({
-                  defaultMessage: "Select salon software",
-                  description: "Platform selection placeholder"
-                })}
-                stretch
-              />
+              {connection ? (
+                <>
+                  <Text>
+                    <FormattedMessage
+                      defaultMessage="Connected to {platform} as {email}."
+                      description="Summary of the stored salon software connection"
+                      values={{
+                        platform:
+                          listProviders().find(
+                            (p) => p.id === connection.platform,
+                          )?.name || connection.platform,
+                        email: connection.email,
+                      }}
+                    />
+                  </Text>
 
-              <TextInput
-                placeholder={intl.formatMessage({
-                  defaultMessage: "Enter your Business ID",
-                  description: "Business ID input placeholder"
-                })}
-                value={businessId}
-                onChange={setBusinessId}
-                disabled={loading}
-              />
+                  <Button
+                    variant="primary"
+                    onClick={() => handleViewTransition(false)}
+                    disabled={loading}
+                    stretch
+                  >
+                    {intl.formatMessage({
+                      defaultMessage: "View reviews",
+                      description:
+                        "Button that returns from the settings view to the reviews",
+                    })}
+                  </Button>
 
-              <TextInput
-                placeholder={intl.formatMessage({
-                  defaultMessage: "Enter your account email",
-                  description: "Email input placeholder"
-                })}
-                value={email}
-                onChange={setEmail}
-                disabled={loading}
-              />
+                  <Button
+                    variant="secondary"
+                    onClick={disconnect}
+                    disabled={loading}
+                    stretch
+                  >
+                    {intl.formatMessage({
+                      defaultMessage: "Disconnect",
+                      description:
+                        "Button that deletes the stored salon software credentials",
+                    })}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Select
+                    value={platform}
+                    onChange={(value) => setPlatform(value || "phorest")}
+                    options={listProviders().map((p) => ({
+                      label: p.name,
+                      value: p.id,
+                    }))}
+                    disabled={loading}
+                    placeholder={intl.formatMessage({
+                      defaultMessage: "Select salon software",
+                      description: "Platform selection placeholder",
+                    })}
+                    stretch
+                  />
 
-              <TextInput
-                value={password}
-                onChange={setPassword}
-                placeholder={intl.formatMessage({
-                  defaultMessage: "Password",
-                  description: "Password input placeholder"
-                })}
-                type="text"
-              />
+                  <TextInput
+                    placeholder={intl.formatMessage({
+                      defaultMessage: "Enter your Business ID",
+                      description: "Business ID input placeholder",
+                    })}
+                    value={businessId}
+                    onChange={setBusinessId}
+                    disabled={loading}
+                  />
 
-              <Checkbox
-                checked={rememberMe}
-                onChange={(_, checked) => setRememberMe(checked)}
-                label={intl.formatMessage({
-                  defaultMessage: "Remember my credentials",
-                  description: "Remember me checkbox label"
-                })}
-              />
+                  <TextInput
+                    placeholder={intl.formatMessage({
+                      defaultMessage: "Enter your account email",
+                      description: "Email input placeholder",
+                    })}
+                    value={email}
+                    onChange={setEmail}
+                    disabled={loading}
+                  />
 
-              <Button
-                variant="primary"
-                onClick={async () => {
-                  await fetchBranches();
-                  if (!error) {
-                    handleViewTransition(false);
-                  }
-                }}
-                disabled={loading || !businessId || !email || !password}
-                stretch
-              >
-                {loading ? loadingText : fetchLocationsText}
-              </Button>
+                  {/* The UI kit's TextInput can't mask its value, so a native input is used */}
+                  {/* eslint-disable-next-line react/forbid-elements */}
+                  <input
+                    className={styles.passwordInput}
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(event) => setPassword(event.target.value)}
+                    placeholder={intl.formatMessage({
+                      defaultMessage: "Password",
+                      description: "Password input placeholder",
+                    })}
+                    aria-label={intl.formatMessage({
+                      defaultMessage: "Password",
+                      description: "Password input placeholder",
+                    })}
+                    disabled={loading}
+                  />
+
+                  <Button
+                    variant="primary"
+                    onClick={async () => {
+                      if (await connect()) {
+                        handleViewTransition(false);
+                      }
+                    }}
+                    disabled={loading || !businessId || !email || !password}
+                    stretch
+                  >
+                    {loading ? loadingText : connectText}
+                  </Button>
+                </>
+              )}
             </Rows>
           </div>
         ) : (
           // Main View
-          <div style={{ opacity: transitioning ? 0 : 1, transition: 'opacity 1s' }}>
+          <div
+            style={{ opacity: transitioning ? 0 : 1, transition: "opacity 1s" }}
+          >
             <Rows spacing="2u">
               <Button
                 variant="tertiary"
                 onClick={() => handleViewTransition(true)}
                 disabled={loading}
-                icon="previous"
+                icon={ArrowLeftIcon}
                 stretch
               >
                 {settingsText}
               </Button>
 
+              {error && <Alert tone="critical">{error}</Alert>}
+
               <Select
                 value={branchId || undefined}
-                onChange={(value) => setBranchId(value || '')}
-                options={branches.map((branch) => ({
-                  label: branch.name,
-                  value: branch.id,
-                }))}
+                onChange={(value) => setBranchId(value || "")}
+                options={[
+                  ...(branches.length > 1
+                    ? [
+                        {
+                          label: intl.formatMessage({
+                            defaultMessage: "All locations",
+                            description:
+                              "Location dropdown option that lists the reviews of every location",
+                          }),
+                          value: ALL_LOCATIONS,
+                        },
+                      ]
+                    : []),
+                  ...branches.map((branch) => ({
+                    label: branch.name,
+                    value: branch.id,
+                  })),
+                ]}
                 disabled={loading}
                 placeholder={intl.formatMessage({
                   defaultMessage: "Select a location",
-                  description: "Location dropdown placeholder"
+                  description: "Location dropdown placeholder",
                 })}
                 stretch
               />
@@ -531,7 +1398,7 @@ export const App = () => {
               <Button
                 variant="primary"
                 onClick={fetchReviews}
-                disabled={loading || !branchId}
+                disabled={loading || !branchId || loadAllProgress != null}
                 stretch
               >
                 {loading ? loadingText : fetchReviewsText}
@@ -539,38 +1406,67 @@ export const App = () => {
 
               {reviews.length > 0 && (
                 <Rows spacing="1u" align="center">
-                  <div style={{ display: 'flex', gap: '8px', width: '100%' }}>
+                  <div style={{ display: "flex", gap: "8px", width: "100%" }}>
                     <div style={{ flex: 1 }}>
                       <Select
                         value={sortBy}
-                        onChange={(value) => setSortBy(value || 'newest')}
+                        onChange={(value) => setSortBy(value || "newest")}
                         options={[
-                          { label: intl.formatMessage({ defaultMessage: "Newest First", description: "Sort option" }), value: "newest" },
-                          { label: intl.formatMessage({ defaultMessage: "Oldest First", description: "Sort option" }), value: "oldest" }
+                          {
+                            label: intl.formatMessage({
+                              defaultMessage: "Newest First",
+                              description: "Sort option",
+                            }),
+                            value: "newest",
+                          },
+                          {
+                            label: intl.formatMessage({
+                              defaultMessage: "Oldest First",
+                              description: "Sort option",
+                            }),
+                            value: "oldest",
+                          },
                         ]}
                         disabled={loading}
                         placeholder={intl.formatMessage({
                           defaultMessage: "Sort by date",
-                          description: "Sort dropdown placeholder"
+                          description: "Sort dropdown placeholder",
                         })}
                       />
                     </div>
                     <div style={{ flex: 1 }}>
                       <Select
                         value={filterRating.toString()}
-                        onChange={(value) => setFilterRating(parseInt(value || '0', 10))}
+                        onChange={(value) =>
+                          setFilterRating(
+                            parseInt(value || ALL_RATINGS.toString(), 10),
+                          )
+                        }
                         options={[
-                          { label: intl.formatMessage({ defaultMessage: "All Ratings", description: "Rating filter option" }), value: "0" },
-                          { label: "★★★★★", value: "5" },
-                          { label: "★★★★", value: "4" },
-                          { label: "★★★", value: "3" },
-                          { label: "★★", value: "2" },
-                          { label: "★", value: "1" }
+                          {
+                            label: intl.formatMessage({
+                              defaultMessage: "All Ratings",
+                              description: "Rating filter option",
+                            }),
+                            value: ALL_RATINGS.toString(),
+                          },
+                          ...FILTER_RATINGS.map((rating) => ({
+                            label: formatStars(rating),
+                            value: rating.toString(),
+                          })),
+                          {
+                            label: intl.formatMessage({
+                              defaultMessage: "No Rating",
+                              description:
+                                "Rating filter option that lists reviews the client didn't rate",
+                            }),
+                            value: UNRATED.toString(),
+                          },
                         ]}
                         disabled={loading}
                         placeholder={intl.formatMessage({
                           defaultMessage: "Filter by rating",
-                          description: "Rating filter placeholder"
+                          description: "Rating filter placeholder",
                         })}
                       />
                     </div>
@@ -578,74 +1474,615 @@ export const App = () => {
                 </Rows>
               )}
 
-              {reviews.length > 0 && getSortedAndFilteredReviews().map((review) => (
-                <div key={review.reviewId} className={styles.reviewCard}>
-                  <Rows spacing="1u">
-                    <Text>
-                      <span style={{ 
-                        fontSize: '16px', 
-                        lineHeight: '20px', 
-                        display: 'block',
-                        fontWeight: 700
-                      }}>
-                        {review.clientFirstName && review.clientLastName 
-                          ? `${review.clientFirstName} ${review.clientLastName.charAt(0)}.`
-                          : intl.formatMessage({
-                              defaultMessage: "Anonymous",
-                              description: "Anonymous client name"
-                            })}
-                      </span>
-                      <span style={{ 
-                        fontWeight: 400,
-                        fontSize: '12px',
-                        lineHeight: '16px',
-                        color: '#6f6f6f',
-                        display: 'block'
-                      }}>
-                        {review.reviewDate && formatDate(new Date(review.reviewDate))}
-                        {review.staffFirstName && review.staffLastName && 
-                          ` with ${review.staffFirstName} ${review.staffLastName}`}
-                      </span>
-                      <span style={{ 
-                        fontSize: '16px',
-                        lineHeight: '20px',
-                        color: '#f3c117',
-                        display: 'block',
-                        marginTop: '8px'
-                      }}>
-                        {"★".repeat(review.rating)}
-                      </span>
-                      <span style={{ 
-                        fontSize: '14px',
-                        lineHeight: '20px',
-                        display: 'block',
-                        marginTop: '8px'
-                      }}>
-                        {review.text || intl.formatMessage({ 
-                          defaultMessage: "No message provided",
-                          description: "Empty review message"
-                        })}
-                      </span>
+              {previewReview && (
+                <Rows spacing="1u">
+                  <Text variant="bold">
+                    <FormattedMessage
+                      defaultMessage="Template"
+                      description="Heading above the gallery of templates for inserted reviews"
+                    />
+                  </Text>
+                  {selectedElement && (
+                    <Text size="small" tone="tertiary">
+                      <FormattedMessage
+                        defaultMessage="Editing the review selected in your design. Choose a template to restyle it, or pick another review to replace it."
+                        description="Shown when a review inserted by the app is selected in the design"
+                      />
                     </Text>
+                  )}
+                  <TemplateGallery
+                    templates={TEMPLATES.map((template) =>
+                      applyBrandStyle(template, styleProfile),
+                    )}
+                    selectedId={templateId}
+                    onSelect={selectTemplate}
+                    content={getCardContent(previewReview)}
+                    page={pageDimensions || DEFAULT_PAGE}
+                  />
+                  <BrandStyleSettings
+                    profile={styleProfile}
+                    brandColors={brandColors}
+                    onChange={updateStyleProfile}
+                  />
+                  <NamePrivacySettings
+                    privacy={namePrivacy}
+                    onChange={updateNamePrivacy}
+                  />
+                  <RedactionSettings
+                    choices={redactionChoices}
+                    onChange={setRedactionChoices}
+                  />
+                  <Select<InsertFormat>
+                    value={insertFormat}
+                    onChange={(value) => setInsertFormat(value || "text")}
+                    options={[
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Insert as editable text",
+                          description:
+                            "Option that inserts reviews as text elements",
+                        }),
+                        value: "text",
+                      },
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Insert as one text box",
+                          description:
+                            "Option that inserts reviews as a single rich text element, with the name, stars and quote styled differently",
+                        }),
+                        value: "richtext",
+                      },
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Insert as an image",
+                          description:
+                            "Option that inserts reviews as a picture of the card, so the stars look the same in every font",
+                        }),
+                        value: "image",
+                      },
+                    ]}
+                    stretch
+                  />
+                  {insertFormat === "richtext" && (
+                    <TextInput
+                      value={highlightKeywords}
+                      onChange={setHighlightKeywords}
+                      placeholder={intl.formatMessage({
+                        defaultMessage:
+                          "Words to highlight, separated by commas",
+                        description:
+                          "Placeholder of the field for words to highlight in inserted review quotes",
+                      })}
+                    />
+                  )}
+                  {insertFormat === "image" && (
+                    <>
+                      <Select
+                        value={imagePresetId}
+                        onChange={(value) =>
+                          setImagePresetId(value || DEFAULT_IMAGE_PRESET.id)
+                        }
+                        options={IMAGE_PRESETS.map((preset) => ({
+                          label: intl.formatMessage(preset.name),
+                          value: preset.id,
+                        }))}
+                        stretch
+                      />
+                      <Checkbox
+                        checked={includeAvatar}
+                        onChange={(_value, checked) =>
+                          setIncludeAvatar(checked)
+                        }
+                        label={intl.formatMessage({
+                          defaultMessage: "Show the client's initials",
+                          description:
+                            "Checkbox that adds an avatar with the client's initials to review images",
+                        })}
+                      />
+                    </>
+                  )}
+                  <Select<number>
+                    value={excerptLength}
+                    onChange={(value) => setExcerptLength(value || 0)}
+                    options={[
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Insert the whole review",
+                          description:
+                            "Option that inserts the full text of long reviews",
+                        }),
+                        value: 0,
+                      },
+                      ...EXCERPT_LENGTHS.map((length) => ({
+                        label: intl.formatMessage(
+                          {
+                            defaultMessage:
+                              "Shorten long reviews to {length} characters",
+                            description:
+                              "Option that inserts the most quotable sentences of long reviews",
+                          },
+                          { length },
+                        ),
+                        value: length,
+                      })),
+                    ]}
+                    stretch
+                  />
+                  <Checkbox
+                    checked={fitToPage}
+                    onChange={(_value, checked) => setFitToPage(checked)}
+                    label={intl.formatMessage({
+                      defaultMessage: "Shrink long quotes to fit the page",
+                      description:
+                        "Checkbox that makes the text of long reviews smaller so the review fits the page",
+                    })}
+                  />
+                  {carouselProgress ? (
+                    <Rows spacing="1u">
+                      <ProgressBar
+                        value={Math.round(
+                          (carouselProgress.created / carouselProgress.total) *
+                            100,
+                        )}
+                        ariaLabel={intl.formatMessage({
+                          defaultMessage: "Creating pages",
+                          description:
+                            "Accessible label for the progress bar shown while creating a page for each review",
+                        })}
+                      />
+                      <Text size="small" tone="tertiary">
+                        <FormattedMessage
+                          defaultMessage="Created {created} of {total} pages"
+                          description="Progress of creating a page for each review"
+                          values={{
+                            created: carouselProgress.created,
+                            total: carouselProgress.total,
+                          }}
+                        />
+                      </Text>
+                      <Button
+                        variant="secondary"
+                        onClick={cancelReviewCarousel}
+                        stretch
+                      >
+                        {intl.formatMessage({
+                          defaultMessage: "Cancel",
+                          description:
+                            "Button to stop creating a page for each review",
+                        })}
+                      </Button>
+                    </Rows>
+                  ) : (
                     <Button
                       variant="secondary"
-                      onClick={() => insertReview(review)}
+                      onClick={() =>
+                        createReviewCarousel(getSortedAndFilteredReviews())
+                      }
                       disabled={loading}
+                      stretch
                     >
-                      {insertReviewText}
+                      {intl.formatMessage(
+                        {
+                          defaultMessage:
+                            "Create {count, plural, one {a page} other {# pages}}, one per review",
+                          description:
+                            "Button that adds a design page for each listed review, using the selected template",
+                        },
+                        { count: sortedAndFilteredReviews.length },
+                      )}
                     </Button>
-                  </Rows>
+                  )}
+                </Rows>
+              )}
+
+              {selectedReviews.length > 0 && (
+                <Rows spacing="1u">
+                  <Text variant="bold">
+                    <FormattedMessage
+                      defaultMessage="Insert as table"
+                      description="Heading above the options for inserting the selected reviews as a table"
+                    />
+                  </Text>
+                  <CheckboxGroup
+                    value={tableColumns}
+                    onChange={(columns) =>
+                      // Keep the columns in the order they're shown in the table
+                      setTableColumns(
+                        REVIEW_TABLE_COLUMNS.filter((column) =>
+                          columns.includes(column),
+                        ),
+                      )
+                    }
+                    options={REVIEW_TABLE_COLUMNS.map((column) => ({
+                      label: tableHeaders[column],
+                      value: column,
+                    }))}
+                  />
+                  <Select<TableOverflow>
+                    value={tableOverflow}
+                    onChange={(value) => setTableOverflow(value || "split")}
+                    options={[
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Split into several tables",
+                          description:
+                            "Option that spreads reviews over several tables when they don't fit in one",
+                        }),
+                        value: "split",
+                      },
+                      {
+                        label: intl.formatMessage({
+                          defaultMessage: "Leave out columns to fit",
+                          description:
+                            "Option that drops the least important table columns when the reviews don't fit in one table",
+                        }),
+                        value: "reduce-columns",
+                      },
+                    ]}
+                    stretch
+                  />
+                  {tablePlan && (
+                    <Text size="small" tone="tertiary">
+                      <FormattedMessage
+                        defaultMessage="{count, plural, one {# selected review goes} other {# selected reviews go}} into {tables, select, 1 {one table} other {{tables} tables}}."
+                        description="Summary of how many tables the selected reviews will be inserted as"
+                        values={{
+                          count: selectedReviews.length,
+                          tables: tablePlan.tableCount,
+                        }}
+                      />
+                    </Text>
+                  )}
+                  {tablePlan && tablePlan.droppedColumns.length > 0 && (
+                    <Text size="small" tone="tertiary">
+                      <FormattedMessage
+                        defaultMessage="{count, plural, one {# column is} other {# columns are}} left out to fit."
+                        description="Shown when table columns are dropped so the selected reviews fit in fewer tables"
+                        values={{ count: tablePlan.droppedColumns.length }}
+                      />
+                    </Text>
+                  )}
+                  <Button
+                    variant="primary"
+                    onClick={() => insertReviewTables(selectedReviews)}
+                    disabled={loading || !tablePlan}
+                    stretch
+                  >
+                    {intl.formatMessage({
+                      defaultMessage: "Insert as table",
+                      description:
+                        "Button that inserts the selected reviews into the design as a table",
+                    })}
+                  </Button>
+                  <Button
+                    variant="tertiary"
+                    onClick={() => setSelectedReviewIds([])}
+                    stretch
+                  >
+                    {intl.formatMessage({
+                      defaultMessage: "Clear selection",
+                      description:
+                        "Button that unselects every review selected for a table",
+                    })}
+                  </Button>
+                </Rows>
+              )}
+
+              {lastSyncedAt && hasFetchedReviews && (
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "space-between",
+                    gap: "8px",
+                  }}
+                >
+                  <Text size="small" tone="tertiary">
+                    <FormattedMessage
+                      defaultMessage="Last synced {lastSyncedAt}"
+                      description="When the reviews were last fetched from the salon software"
+                      values={{
+                        lastSyncedAt: intl.formatDate(lastSyncedAt, {
+                          dateStyle: "medium",
+                          timeStyle: "short",
+                        }),
+                      }}
+                    />
+                  </Text>
+                  <Button
+                    variant="tertiary"
+                    onClick={refreshReviews}
+                    disabled={loading || loadAllProgress != null}
+                  >
+                    {intl.formatMessage({
+                      defaultMessage: "Refresh",
+                      description:
+                        "Button that syncs the reviews with the salon software",
+                    })}
+                  </Button>
                 </div>
-              ))}
+              )}
 
-              {reviews.length === 0 && !loading && branchId && hasFetchedReviews && (
-                <Text>
+              {failedBranches.length > 0 && (
+                <Alert tone="warn">
                   <FormattedMessage
-                    defaultMessage="No reviews found. Try fetching reviews from a different location."
-                    description="Message shown when no reviews are found"
+                    defaultMessage="Reviews from {branches} couldn't be loaded and aren't listed. Refresh to try again."
+                    description="Warning shown when some locations' reviews couldn't be synced while listing every location"
+                    values={{
+                      branches: intl.formatList(
+                        failedBranches.map(({ name }) => name),
+                      ),
+                    }}
                   />
-                </Text>
+                </Alert>
               )}
+
+              {rejectedReviews.length > 0 && (
+                <Alert tone="warn">
+                  <FormattedMessage
+                    defaultMessage="{count, plural, one {# review was} other {# reviews were}} skipped because the salon software returned incomplete data."
+                    description="Warning shown when some reviews failed validation"
+                    values={{ count: rejectedReviews.length }}
+                  />
+                </Alert>
+              )}
+
+              {reviews.length > 0 &&
+                sortedAndFilteredReviews.map((review) => (
+                  <div
+                    key={review.reviewId}
+                    className={styles.reviewCard}
+                    draggable
+                    title={intl.formatMessage({
+                      defaultMessage: "Drag into your design as an image",
+                      description:
+                        "Tooltip of a review card that's added to the design as an image when dragged",
+                    })}
+                    onDragStart={(event) => startReviewDrag(event, review)}
+                  >
+                    <Rows spacing="1u">
+                      <Checkbox
+                        checked={selectedReviewIds.includes(review.reviewId)}
+                        onChange={(_value, checked) =>
+                          toggleReviewSelection(review.reviewId, checked)
+                        }
+                        label={intl.formatMessage({
+                          defaultMessage: "Select for table",
+                          description:
+                            "Checkbox that adds a review to the ones inserted as a table",
+                        })}
+                      />
+                      <Text>
+                        <span
+                          style={{
+                            fontSize: "16px",
+                            lineHeight: "20px",
+                            display: "block",
+                            fontWeight: 700,
+                          }}
+                        >
+                          {clientNameOf(review, namePrivacy) ||
+                            intl.formatMessage({
+                              defaultMessage: "Anonymous",
+                              description: "Anonymous client name",
+                            })}
+                        </span>
+                        <span
+                          style={{
+                            fontWeight: 400,
+                            fontSize: "12px",
+                            lineHeight: "16px",
+                            color: "#6f6f6f",
+                            display: "block",
+                          }}
+                        >
+                          {review.reviewDate &&
+                            formatDate(new Date(review.reviewDate))}
+                          {review.staff && (
+                            <FormattedMessage
+                              defaultMessage=" with {staffName}"
+                              description="Staff member who served the client, shown after the review date"
+                              values={{
+                                staffName:
+                                  `${review.staff.firstName} ${review.staff.lastName}`.trim(),
+                              }}
+                            />
+                          )}
+                        </span>
+                        {review.branch && (
+                          <span
+                            style={{
+                              fontWeight: 400,
+                              fontSize: "12px",
+                              lineHeight: "16px",
+                              color: "#6f6f6f",
+                              display: "block",
+                            }}
+                          >
+                            {review.branch.name}
+                          </span>
+                        )}
+                        {review.rating !== undefined && (
+                          <span
+                            style={{
+                              display: "block",
+                              marginTop: "8px",
+                            }}
+                          >
+                            <StarRating
+                              rating={review.rating}
+                              original={review.originalRating}
+                              color="#f3c117"
+                              size={16}
+                              style={styleProfile.stars}
+                            />
+                          </span>
+                        )}
+                        <span
+                          style={{
+                            fontSize: "14px",
+                            lineHeight: "20px",
+                            display: "block",
+                            marginTop: "8px",
+                          }}
+                        >
+                          {review.text ? (
+                            <RedactedText
+                              text={review.text}
+                              spans={getRedactions(review)}
+                              isKept={(span) =>
+                                keptRedactions.includes(
+                                  redactionKeyOf(review, span),
+                                )
+                              }
+                              onToggle={(span) => toggleRedaction(review, span)}
+                            />
+                          ) : (
+                            intl.formatMessage({
+                              defaultMessage: "No message provided",
+                              description: "Empty review message",
+                            })
+                          )}
+                        </span>
+                      </Text>
+                      {excerptLength > 0 && (
+                        <ExcerptRangePicker
+                          text={getReviewText(review)}
+                          maxLength={excerptLength}
+                          range={excerptRanges[review.reviewId]}
+                          onChange={(range) =>
+                            setExcerptRanges((current) => ({
+                              ...current,
+                              [review.reviewId]: range,
+                            }))
+                          }
+                        />
+                      )}
+                      <Button
+                        variant="secondary"
+                        onClick={() => insertReview(review)}
+                        disabled={loading || insertingImage}
+                      >
+                        {selectedElement && insertFormat !== "image"
+                          ? intl.formatMessage({
+                              defaultMessage: "Replace selected review",
+                              description:
+                                "Button that swaps the review selected in the design for this one",
+                            })
+                          : insertReviewText}
+                      </Button>
+                      {(richtextSelection.count > 0 ||
+                        plaintextSelection.count > 0) && (
+                        <Button
+                          variant="secondary"
+                          onClick={() => fillSelection(review)}
+                          disabled={loading}
+                        >
+                          {intl.formatMessage({
+                            defaultMessage: "Fill selection",
+                            description:
+                              "Button that replaces placeholders such as {{quote}} in the selected text with this review",
+                          })}
+                        </Button>
+                      )}
+                      <Button
+                        variant="tertiary"
+                        onClick={() => setPreviewReviewId(review.reviewId)}
+                        disabled={review.reviewId === previewReview?.reviewId}
+                      >
+                        {intl.formatMessage({
+                          defaultMessage: "Preview in templates",
+                          description:
+                            "Button that shows a review in the template gallery",
+                        })}
+                      </Button>
+                    </Rows>
+                  </div>
+                ))}
+
+              {loadingMore && (
+                <Rows spacing="0" align="center">
+                  <LoadingIndicator size="medium" />
+                </Rows>
+              )}
+
+              {loadAllProgress ? (
+                <Rows spacing="1u">
+                  <ProgressBar
+                    value={
+                      loadAllProgress.total
+                        ? Math.min(
+                            100,
+                            Math.round(
+                              (loadAllProgress.loaded / loadAllProgress.total) *
+                                100,
+                            ),
+                          )
+                        : 0
+                    }
+                    ariaLabel={intl.formatMessage({
+                      defaultMessage: "Loading all reviews",
+                      description:
+                        "Accessible label for the load all reviews progress bar",
+                    })}
+                  />
+                  <Text size="small" tone="tertiary">
+                    {loadAllProgress.total ? (
+                      <FormattedMessage
+                        defaultMessage="Loaded {loaded} of {total} reviews"
+                        description="Progress of loading every review for a location"
+                        values={{
+                          loaded: loadAllProgress.loaded,
+                          total: loadAllProgress.total,
+                        }}
+                      />
+                    ) : (
+                      <FormattedMessage
+                        defaultMessage="Loaded {loaded} reviews"
+                        description="Progress of loading every review for a location when the total is unknown"
+                        values={{ loaded: loadAllProgress.loaded }}
+                      />
+                    )}
+                  </Text>
+                  <Button
+                    variant="secondary"
+                    onClick={cancelLoadAllReviews}
+                    stretch
+                  >
+                    {intl.formatMessage({
+                      defaultMessage: "Cancel",
+                      description: "Button to stop loading all reviews",
+                    })}
+                  </Button>
+                </Rows>
+              ) : (
+                nextCursor && (
+                  <Button
+                    variant="secondary"
+                    onClick={loadAllReviews}
+                    disabled={loading || loadingMore}
+                    stretch
+                  >
+                    {intl.formatMessage({
+                      defaultMessage: "Load all reviews",
+                      description:
+                        "Button to fetch every remaining review for a location",
+                    })}
+                  </Button>
+                )
+              )}
+
+              {reviews.length === 0 &&
+                !loading &&
+                branchId &&
+                hasFetchedReviews && (
+                  <Text>
+                    <FormattedMessage
+                      defaultMessage="No reviews found. Try fetching reviews from a different location."
+                      description="Message shown when no reviews are found"
+                    />
+                  </Text>
+                )}
             </Rows>
           </div>
         )}
@@ -0,0 +1,232 @@
+import {
+  Alert,
+  Button,
+  ColorSelector,
+  FormField,
+  Rows,
+  Select,
+  Text,
+} from "@canva/app-ui-kit";
+import { requestFontSelection } from "@canva/asset";
+import type { FontRef } from "@canva/asset";
+import React, { useState } from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { StyledLine, StyleProfile, StyleRole } from "../models";
+import { DEFAULT_STAR_STYLE, STYLED_LINES } from "../models";
+import { StarStyleSettings } from "./star_style_settings";
+
+type BrandStyleSettingsProps = {
+  profile: StyleProfile;
+  // The solid colors of the brand kit. Empty if the design has no brand kit.
+  brandColors: string[];
+  onChange: (profile: StyleProfile) => void;
+};
+
+// Shown in place of a brand kit color that hasn't been chosen
+const UNSET_COLOR = "#000000";
+
+/**
+ * Lets the user choose the brand's colors and font, which color the quote, stars and name
+ * of inserted reviews use, and how star ratings are drawn. Colors come from the brand kit
+ * where there is one, and are picked freely otherwise. Apps can't read the brand kit's
+ * fonts, so the font is picked from every font in Canva and saved for the brand.
+ */
+export const BrandStyleSettings = ({
+  profile,
+  brandColors,
+  onChange,
+}: BrandStyleSettingsProps) => {
+  const intl = useIntl();
+  const [fontError, setFontError] = useState<string | null>(null);
+
+  const lineLabels: Record<StyledLine, string> = {
+    quote: intl.formatMessage({
+      defaultMessage: "Quote color",
+      description: "Label of the option that sets the color of review quotes",
+    }),
+    stars: intl.formatMessage({
+      defaultMessage: "Star rating color",
+      description: "Label of the option that sets the color of star ratings",
+    }),
+    name: intl.formatMessage({
+      defaultMessage: "Client name color",
+      description: "Label of the option that sets the color of client names",
+    }),
+  };
+
+  const roleOptions: { label: string; value: StyleRole }[] = [
+    {
+      label: intl.formatMessage({
+        defaultMessage: "Template color",
+        description:
+          "Option that keeps the color the template gives part of a review",
+      }),
+      value: "template",
+    },
+    {
+      label: intl.formatMessage({
+        defaultMessage: "Primary brand color",
+        description: "Option that colors part of a review in the primary color",
+      }),
+      value: "primary",
+    },
+    {
+      label: intl.formatMessage({
+        defaultMessage: "Accent brand color",
+        description: "Option that colors part of a review in the accent color",
+      }),
+      value: "accent",
+    },
+  ];
+
+  const colorFields: {
+    key: "primaryColor" | "accentColor";
+    label: string;
+  }[] = [
+    {
+      key: "primaryColor",
+      label: intl.formatMessage({
+        defaultMessage: "Primary color",
+        description: "Label of the brand's primary color",
+      }),
+    },
+    {
+      key: "accentColor",
+      label: intl.formatMessage({
+        defaultMessage: "Accent color",
+        description: "Label of the brand's accent color",
+      }),
+    },
+  ];
+
+  const chooseFont = async () => {
+    setFontError(null);
+    try {
+      const response = await requestFontSelection({
+        selectedFontRef: profile.font?.ref as FontRef | undefined,
+      });
+      if (response.type === "completed") {
+        const { ref, name } = response.font;
+        onChange({ ...profile, font: { ref, name } });
+      }
+    } catch {
+      setFontError(
+        intl.formatMessage({
+          defaultMessage:
+            "The font picker couldn't be opened. Please try again.",
+          description:
+            "Error shown when opening the font picker to choose the brand's font fails",
+        }),
+      );
+    }
+  };
+
+  const resetFont = () => {
+    const { font: _font, ...rest } = profile;
+    onChange(rest);
+  };
+
+  return (
+    <Rows spacing="1u">
+      <Text variant="bold">
+        <FormattedMessage
+          defaultMessage="Brand style"
+          description="Heading above the brand colors and font used for inserted reviews"
+        />
+      </Text>
+      {brandColors.length === 0 && (
+        <Text size="small" tone="tertiary">
+          <FormattedMessage
+            defaultMessage="There are no colors in this design's brand kit. The colors you choose are saved for your brand."
+            description="Shown when the app can't use the brand kit's colors for inserted reviews"
+          />
+        </Text>
+      )}
+      {colorFields.map(({ key, label }) => (
+        <FormField
+          key={key}
+          label={label}
+          value={profile[key]}
+          control={(props) =>
+            brandColors.length > 0 ? (
+              <Select
+                {...props}
+                // Colors saved before the brand kit changed stay selectable
+                options={[
+                  ...new Set([
+                    ...brandColors,
+                    ...(profile[key] ? [profile[key]] : []),
+                  ]),
+                ].map((color) => ({ label: color, value: color }))}
+                onChange={(color) => onChange({ ...profile, [key]: color })}
+                stretch
+              />
+            ) : (
+              <ColorSelector
+                color={profile[key] || UNSET_COLOR}
+                onChange={(color) => onChange({ ...profile, [key]: color })}
+              />
+            )
+          }
+        />
+      ))}
+      {STYLED_LINES.map((line) => (
+        <FormField
+          key={line}
+          label={lineLabels[line]}
+          value={profile.roles[line]}
+          control={(props) => (
+            <Select<StyleRole>
+              {...props}
+              options={roleOptions}
+              onChange={(role) =>
+                onChange({
+                  ...profile,
+                  roles: { ...profile.roles, [line]: role || "template" },
+                })
+              }
+              stretch
+            />
+          )}
+        />
+      ))}
+      <StarStyleSettings
+        style={profile.stars || DEFAULT_STAR_STYLE}
+        brandColors={brandColors}
+        onChange={(stars) => onChange({ ...profile, stars })}
+      />
+      <Text size="small" tone="tertiary">
+        <FormattedMessage
+          defaultMessage="Your brand kit's fonts aren't available to apps, so choose the font your brand uses. It's saved for your brand."
+          description="Explains why the font of inserted reviews is chosen from every font rather than from the brand kit"
+        />
+      </Text>
+      {fontError && <Alert tone="critical">{fontError}</Alert>}
+      <Button variant="secondary" onClick={chooseFont} stretch>
+        {profile.font
+          ? intl.formatMessage(
+              {
+                defaultMessage: "Font: {name}",
+                description:
+                  "Button showing the font chosen for the brand's inserted reviews, which opens the font picker",
+              },
+              { name: profile.font.name },
+            )
+          : intl.formatMessage({
+              defaultMessage: "Choose your brand's font",
+              description:
+                "Button that opens the font picker to choose the font of inserted reviews",
+            })}
+      </Button>
+      {profile.font && (
+        <Button variant="tertiary" onClick={resetFont} stretch>
+          {intl.formatMessage({
+            defaultMessage: "Use each template's font",
+            description:
+              "Button that stops using the font chosen for the brand's inserted reviews",
+          })}
+        </Button>
+      )}
+    </Rows>
+  );
+};
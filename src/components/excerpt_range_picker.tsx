@@ -0,0 +1,92 @@
+import { FormField, Rows, Select } from "@canva/app-ui-kit";
+import React from "react";
+import { useIntl } from "react-intl";
+import type { SentenceRange } from "../layout/excerpt";
+import { pickExcerpt, splitSentences } from "../layout/excerpt";
+
+type ExcerptRangePickerProps = {
+  text: string;
+  // The excerpt length the app picks sentences for
+  maxLength: number;
+  // The sentences the user chose, if they've chosen any
+  range?: SentenceRange;
+  onChange: (range: SentenceRange) => void;
+};
+
+// Sentences are listed by how they start, which is enough to tell them apart
+const OPTION_LENGTH = 40;
+
+/**
+ * Lets the user choose which sentences of a long review are inserted, starting from the
+ * ones the app picked. Shows nothing for reviews that are inserted whole.
+ */
+export const ExcerptRangePicker = ({
+  text,
+  maxLength,
+  range,
+  onChange,
+}: ExcerptRangePickerProps) => {
+  const intl = useIntl();
+  const sentences = splitSentences(text);
+  if (text.length <= maxLength || sentences.length < 2) {
+    return null;
+  }
+
+  const { first, last } = range || pickExcerpt(text, maxLength);
+  const options = sentences.map(({ index, length }, value) => {
+    const sentence = text.slice(index, index + length);
+    return {
+      label:
+        sentence.length > OPTION_LENGTH
+          ? intl.formatMessage(
+              {
+                defaultMessage: "{start}…",
+                description:
+                  "The start of a sentence of a review, shown when the sentence is too long to list whole",
+              },
+              { start: sentence.slice(0, OPTION_LENGTH).trimEnd() },
+            )
+          : sentence,
+      value,
+    };
+  });
+
+  return (
+    <Rows spacing="1u">
+      <FormField
+        label={intl.formatMessage({
+          defaultMessage: "Quote from",
+          description:
+            "Label of the picker for the first sentence of a long review to insert",
+        })}
+        value={first}
+        control={(props) => (
+          <Select<number>
+            {...props}
+            options={options}
+            onChange={(value) =>
+              onChange({ first: value, last: Math.max(value, last) })
+            }
+            stretch
+          />
+        )}
+      />
+      <FormField
+        label={intl.formatMessage({
+          defaultMessage: "Quote to",
+          description:
+            "Label of the picker for the last sentence of a long review to insert",
+        })}
+        value={last}
+        control={(props) => (
+          <Select<number>
+            {...props}
+            options={options.slice(first)}
+            onChange={(value) => onChange({ first, last: value })}
+            stretch
+          />
+        )}
+      />
+    </Rows>
+  );
+};
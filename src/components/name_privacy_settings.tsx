@@ -0,0 +1,137 @@
+import { FormField, Rows, Select, Text, TextInput } from "@canva/app-ui-kit";
+import React, { useEffect, useState } from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { NamePrivacy, NamePrivacyMode } from "../models";
+import { MAX_ALIAS_LENGTH } from "../models";
+
+type NamePrivacySettingsProps = {
+  privacy: NamePrivacy;
+  onChange: (privacy: NamePrivacy) => void;
+};
+
+/**
+ * Lets the user choose how much of their clients' names the brand shows. An alias is only
+ * saved once it's been typed out, so choosing "alias" doesn't save an empty one.
+ */
+export const NamePrivacySettings = ({
+  privacy,
+  onChange,
+}: NamePrivacySettingsProps) => {
+  const intl = useIntl();
+  const [mode, setMode] = useState(privacy.mode);
+  const [alias, setAlias] = useState(privacy.alias || "");
+
+  // The brand's setting loads after the app opens
+  useEffect(() => {
+    setMode(privacy.mode);
+    setAlias(privacy.alias || "");
+  }, [privacy]);
+
+  const save = (nextMode: NamePrivacyMode, nextAlias: string) => {
+    if (nextMode !== "alias") {
+      onChange({ mode: nextMode });
+    } else if (nextAlias.trim()) {
+      onChange({ mode: nextMode, alias: nextAlias.trim() });
+    }
+  };
+
+  const modeOptions: { label: string; value: NamePrivacyMode }[] = [
+    {
+      label: intl.formatMessage({
+        defaultMessage: "Full name",
+        description: "Name privacy option that shows the client's full name",
+      }),
+      value: "full",
+    },
+    {
+      label: intl.formatMessage({
+        defaultMessage: "First name and last initial",
+        description:
+          "Name privacy option that shows the client's first name and the first letter of their last name",
+      }),
+      value: "firstInitial",
+    },
+    {
+      label: intl.formatMessage({
+        defaultMessage: "Initials only",
+        description: "Name privacy option that shows the client's initials",
+      }),
+      value: "initials",
+    },
+    {
+      label: intl.formatMessage({
+        defaultMessage: "The same alias for everyone",
+        description:
+          "Name privacy option that shows a name of the user's choice instead of each client's name",
+      }),
+      value: "alias",
+    },
+    {
+      label: intl.formatMessage({
+        defaultMessage: "Anonymous",
+        description: "Name privacy option that leaves out the client's name",
+      }),
+      value: "anonymous",
+    },
+  ];
+
+  return (
+    <Rows spacing="1u">
+      <Text variant="bold">
+        <FormattedMessage
+          defaultMessage="Client names"
+          description="Heading above the setting for how much of a client's name reviews show"
+        />
+      </Text>
+      <Text size="small" tone="tertiary">
+        <FormattedMessage
+          defaultMessage="Applies to everyone in your brand, wherever reviews are shown or inserted."
+          description="Explains that the client name setting is shared by the brand"
+        />
+      </Text>
+      <FormField
+        label={intl.formatMessage({
+          defaultMessage: "Show clients as",
+          description:
+            "Label of the picker for how much of a client's name reviews show",
+        })}
+        value={mode}
+        control={(props) => (
+          <Select<NamePrivacyMode>
+            {...props}
+            options={modeOptions}
+            onChange={(value) => {
+              const nextMode = value || "firstInitial";
+              setMode(nextMode);
+              save(nextMode, alias);
+            }}
+            stretch
+          />
+        )}
+      />
+      {mode === "alias" && (
+        <FormField
+          label={intl.formatMessage({
+            defaultMessage: "Alias",
+            description:
+              "Label of the field for the name shown instead of each client's name",
+          })}
+          value={alias}
+          control={(props) => (
+            <TextInput
+              {...props}
+              placeholder={intl.formatMessage({
+                defaultMessage: "A happy client",
+                description:
+                  "Example of a name shown instead of each client's name",
+              })}
+              maxLength={MAX_ALIAS_LENGTH}
+              onChange={setAlias}
+              onBlur={() => save(mode, alias)}
+            />
+          )}
+        />
+      )}
+    </Rows>
+  );
+};
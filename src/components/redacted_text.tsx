@@ -0,0 +1,64 @@
+import React from "react";
+import { useIntl } from "react-intl";
+import * as styles from "../../styles/components.css";
+import type { RedactedSpan } from "../redaction";
+
+type RedactedTextProps = {
+  text: string;
+  spans: RedactedSpan[];
+  // Whether the user chose to keep a span rather than hide it
+  isKept: (span: RedactedSpan) => boolean;
+  onToggle: (span: RedactedSpan) => void;
+};
+
+/**
+ * Shows a review's text with the parts that will be hidden highlighted. Clicking a
+ * highlighted part keeps it in inserted reviews, and clicking it again hides it.
+ */
+export const RedactedText = ({
+  text,
+  spans,
+  isKept,
+  onToggle,
+}: RedactedTextProps) => {
+  const intl = useIntl();
+  const parts: React.ReactNode[] = [];
+  let end = 0;
+  spans.forEach((span) => {
+    const kept = isKept(span);
+    parts.push(
+      text.slice(end, span.index),
+      <span
+        key={span.index}
+        role="button"
+        tabIndex={0}
+        className={kept ? styles.keptRedaction : styles.redaction}
+        onClick={() => onToggle(span)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" || event.key === " ") {
+            event.preventDefault();
+            onToggle(span);
+          }
+        }}
+        title={
+          kept
+            ? intl.formatMessage({
+                defaultMessage: "Shown when inserted. Click to hide.",
+                description:
+                  "Tooltip of review text the user chose not to hide",
+              })
+            : intl.formatMessage({
+                defaultMessage: "Hidden when inserted. Click to show.",
+                description: "Tooltip of review text that will be hidden",
+              })
+        }
+      >
+        {text.slice(span.index, span.index + span.length)}
+      </span>,
+    );
+    end = span.index + span.length;
+  });
+  parts.push(text.slice(end));
+
+  return <>{parts}</>;
+};
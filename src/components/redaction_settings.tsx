@@ -0,0 +1,137 @@
+import {
+  CheckboxGroup,
+  FormField,
+  Rows,
+  Text,
+  TextInput,
+} from "@canva/app-ui-kit";
+import React from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { RedactionKind } from "../redaction";
+import { REDACTION_KINDS } from "../redaction";
+
+export type RedactionChoices = {
+  detectors: RedactionKind[];
+  // Comma separated words to hide as well as the built-in list
+  blockedWords: string;
+  // Comma separated names that are never hidden, as well as the staff's
+  allowedNames: string;
+};
+
+export const DEFAULT_REDACTION_CHOICES: RedactionChoices = {
+  detectors: [...REDACTION_KINDS],
+  blockedWords: "",
+  allowedNames: "",
+};
+
+type RedactionSettingsProps = {
+  choices: RedactionChoices;
+  onChange: (choices: RedactionChoices) => void;
+};
+
+/**
+ * Lets the user choose what's hidden from review text before it's inserted.
+ */
+export const RedactionSettings = ({
+  choices,
+  onChange,
+}: RedactionSettingsProps) => {
+  const intl = useIntl();
+
+  const detectorLabels: Record<RedactionKind, string> = {
+    email: intl.formatMessage({
+      defaultMessage: "Email addresses",
+      description: "Option that hides email addresses in review text",
+    }),
+    url: intl.formatMessage({
+      defaultMessage: "Links",
+      description: "Option that hides website links in review text",
+    }),
+    phone: intl.formatMessage({
+      defaultMessage: "Phone numbers",
+      description: "Option that hides phone numbers in review text",
+    }),
+    name: intl.formatMessage({
+      defaultMessage: "Other clients' names",
+      description:
+        "Option that hides the names of other clients mentioned in review text",
+    }),
+    profanity: intl.formatMessage({
+      defaultMessage: "Swearing",
+      description: "Option that hides swear words in review text",
+    }),
+  };
+
+  return (
+    <Rows spacing="1u">
+      <Text variant="bold">
+        <FormattedMessage
+          defaultMessage="Hide from review text"
+          description="Heading above the options for what's hidden from inserted review text"
+        />
+      </Text>
+      <CheckboxGroup
+        value={choices.detectors}
+        onChange={(detectors) =>
+          // Kept in the order the detectors run
+          onChange({
+            ...choices,
+            detectors: REDACTION_KINDS.filter((kind) =>
+              detectors.includes(kind),
+            ),
+          })
+        }
+        options={REDACTION_KINDS.map((kind) => ({
+          label: detectorLabels[kind],
+          value: kind,
+        }))}
+      />
+      {choices.detectors.includes("profanity") && (
+        <FormField
+          label={intl.formatMessage({
+            defaultMessage: "More words to hide",
+            description:
+              "Label of the field for words to hide as well as the built-in swear words",
+          })}
+          value={choices.blockedWords}
+          control={(props) => (
+            <TextInput
+              {...props}
+              onChange={(blockedWords) =>
+                onChange({ ...choices, blockedWords })
+              }
+              placeholder={intl.formatMessage({
+                defaultMessage: "Separated by commas",
+                description:
+                  "Placeholder of a field that takes several words separated by commas",
+              })}
+            />
+          )}
+        />
+      )}
+      {choices.detectors.includes("name") && (
+        <FormField
+          label={intl.formatMessage({
+            defaultMessage: "Names to always show",
+            description:
+              "Label of the field for names that are never hidden from review text, as well as the staff's",
+          })}
+          value={choices.allowedNames}
+          control={(props) => (
+            <TextInput
+              {...props}
+              onChange={(allowedNames) =>
+                onChange({ ...choices, allowedNames })
+              }
+              placeholder={intl.formatMessage({
+                defaultMessage: "Your staff are always shown",
+                description:
+                  "Placeholder of the field for names that are never hidden from review text",
+              })}
+            />
+          )}
+        />
+      )}
+    </Rows>
+  );
+};
@@ -0,0 +1,98 @@
+import React from "react";
+import { useIntl } from "react-intl";
+import { layoutStarRating } from "../layout/star_rating";
+import type { OriginalRating, StarStyle } from "../models";
+import { DEFAULT_STAR_STYLE, MAX_RATING, RATING_SCALE_RANGES } from "../models";
+
+type StarRatingProps = {
+  rating: number;
+  // The rating as the platform gave it, described to screen readers if it wasn't stars
+  original?: OriginalRating;
+  color: string;
+  // The width and height of each star, in pixels
+  size: number;
+  style?: StarStyle;
+};
+
+/**
+ * Shows a star rating in the panel, drawn the same way as ratings inserted into the design.
+ */
+export const StarRating = ({
+  rating,
+  original,
+  color,
+  size,
+  style = DEFAULT_STAR_STYLE,
+}: StarRatingProps) => {
+  const intl = useIntl();
+  const describeOriginal = ({ value, scale }: OriginalRating) => {
+    switch (scale) {
+      case "thumbs":
+        return value > 0
+          ? intl.formatMessage({
+              defaultMessage: "Thumbs up",
+              description:
+                "Describes a thumbs up rating to screen readers, in place of stars",
+            })
+          : intl.formatMessage({
+              defaultMessage: "Thumbs down",
+              description:
+                "Describes a thumbs down rating to screen readers, in place of stars",
+            });
+      case "nps":
+        return intl.formatMessage(
+          {
+            defaultMessage: "Would recommend: {value} out of {max}",
+            description:
+              "Describes a Net Promoter Score rating to screen readers, in place of stars",
+          },
+          { value, max: RATING_SCALE_RANGES.nps.max },
+        );
+      default:
+        return intl.formatMessage(
+          {
+            defaultMessage: "{value} out of {max}",
+            description:
+              "Describes a rating out of a number other than five to screen readers, in place of stars",
+          },
+          { value, max: RATING_SCALE_RANGES[scale].max },
+        );
+    }
+  };
+  const { viewBox, paths, width, height } = layoutStarRating(rating, {
+    ...style,
+    color,
+    starSize: size,
+  });
+
+  return (
+    <svg
+      role="img"
+      aria-label={
+        original && original.scale !== "fiveStar"
+          ? describeOriginal(original)
+          : intl.formatMessage(
+              {
+                defaultMessage: "{rating} out of {max} stars",
+                description: "Describes a star rating to screen readers",
+              },
+              { rating, max: MAX_RATING },
+            )
+      }
+      width={width}
+      height={height}
+      viewBox={`${viewBox.left} ${viewBox.top} ${viewBox.width} ${viewBox.height}`}
+    >
+      {paths.map(({ d, fill, stroke }, index) => (
+        <path
+          // Paths never change order for a rating
+          key={index}
+          d={d}
+          fill={fill.color || "none"}
+          stroke={stroke?.color}
+          strokeWidth={stroke?.weight}
+        />
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,138 @@
+import { FormField, Rows, Select, Slider } from "@canva/app-ui-kit";
+import React, { useEffect, useState } from "react";
+import { useIntl } from "react-intl";
+import type { StarStyle } from "../models";
+import { STAR_STYLE_LIMITS } from "../models";
+
+type StarStyleSettingsProps = {
+  style: StarStyle;
+  // The solid colors of the brand kit. Empty if the design has no brand kit.
+  brandColors: string[];
+  onChange: (style: StarStyle) => void;
+};
+
+// Offered for empty stars alongside the brand's colors, since few brands have a color
+// light enough
+const LIGHT_GRAY = "#e5e5e5";
+// Stands in for an unset color in the pickers, which can't hold `undefined`
+const UNSET = "";
+
+type SizeField = keyof typeof STAR_STYLE_LIMITS;
+
+/**
+ * Lets the user choose how star ratings are drawn. Sizes are only saved once the user
+ * lets go of a slider, rather than at every step.
+ */
+export const StarStyleSettings = ({
+  style,
+  brandColors,
+  onChange,
+}: StarStyleSettingsProps) => {
+  const intl = useIntl();
+  const [draft, setDraft] = useState(style);
+
+  useEffect(() => {
+    setDraft(style);
+  }, [style]);
+
+  const sizeLabels: Record<SizeField, string> = {
+    size: intl.formatMessage({
+      defaultMessage: "Star size",
+      description: "Label of the slider for the size of rating stars",
+    }),
+    spacing: intl.formatMessage({
+      defaultMessage: "Space between stars",
+      description: "Label of the slider for the space between rating stars",
+    }),
+    outlineWidth: intl.formatMessage({
+      defaultMessage: "Star outline",
+      description:
+        "Label of the slider for the thickness of the outline of rating stars",
+    }),
+  };
+
+  // Colors saved before the brand kit changed stay selectable
+  const colorOptions = (saved: string | undefined, extra: string[] = []) =>
+    [...new Set([...brandColors, ...extra, ...(saved ? [saved] : [])])].map(
+      (color) => ({ label: color, value: color }),
+    );
+
+  return (
+    <Rows spacing="1u">
+      <FormField
+        label={intl.formatMessage({
+          defaultMessage: "Empty star color",
+          description:
+            "Label of the picker for the color of stars a rating doesn't reach",
+        })}
+        value={style.emptyColor || UNSET}
+        control={(props) => (
+          <Select
+            {...props}
+            options={[
+              {
+                label: intl.formatMessage({
+                  defaultMessage: "Outline only",
+                  description:
+                    "Option that leaves stars a rating doesn't reach unfilled",
+                }),
+                value: UNSET,
+              },
+              ...colorOptions(style.emptyColor, [LIGHT_GRAY]),
+            ]}
+            onChange={(color) =>
+              onChange({ ...style, emptyColor: color || undefined })
+            }
+            stretch
+          />
+        )}
+      />
+      <FormField
+        label={intl.formatMessage({
+          defaultMessage: "Star outline color",
+          description: "Label of the picker for the color of star outlines",
+        })}
+        value={style.outlineColor || UNSET}
+        control={(props) => (
+          <Select
+            {...props}
+            options={[
+              {
+                label: intl.formatMessage({
+                  defaultMessage: "Same as the stars",
+                  description:
+                    "Option that outlines stars in the star rating color",
+                }),
+                value: UNSET,
+              },
+              ...colorOptions(style.outlineColor),
+            ]}
+            onChange={(color) =>
+              onChange({ ...style, outlineColor: color || undefined })
+            }
+            stretch
+          />
+        )}
+      />
+      {(Object.keys(STAR_STYLE_LIMITS) as SizeField[]).map((field) => (
+        <FormField
+          key={field}
+          label={sizeLabels[field]}
+          value={draft[field]}
+          control={({ id }) => (
+            <Slider
+              id={id}
+              {...STAR_STYLE_LIMITS[field]}
+              step="any"
+              value={draft[field]}
+              onChange={(value) => setDraft({ ...draft, [field]: value })}
+              onChangeComplete={(_previous, value) =>
+                onChange({ ...draft, [field]: value })
+              }
+            />
+          )}
+        />
+      ))}
+    </Rows>
+  );
+};
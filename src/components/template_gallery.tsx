@@ -0,0 +1,165 @@
+import { Grid, Rows, Text, TypographyCard } from "@canva/app-ui-kit";
+import type { GroupContentAtPoint, PageDimensions } from "@canva/design";
+import React from "react";
+import { useIntl } from "react-intl";
+import * as styles from "../../styles/components.css";
+import type {
+  ReviewCardContent,
+  ReviewCardElement,
+} from "../layout/review_card";
+import { CSS_FONT_WEIGHTS } from "../layout/fonts";
+import { layoutReviewCard, LINE_HEIGHT_EM } from "../layout/review_card";
+import type { TestimonialTemplate } from "../templates";
+
+type TemplateGalleryProps = {
+  templates: TestimonialTemplate[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  // The review shown in each template
+  content: ReviewCardContent;
+  page: PageDimensions;
+};
+
+/**
+ * A grid of templates, each previewing the review as it would be inserted.
+ */
+export const TemplateGallery = ({
+  templates,
+  selectedId,
+  onSelect,
+  content,
+  page,
+}: TemplateGalleryProps) => {
+  const intl = useIntl();
+
+  return (
+    <Grid columns={2} spacing="1u">
+      {templates.map((template) => {
+        const name = intl.formatMessage(template.name);
+        return (
+          <div
+            key={template.id}
+            className={
+              template.id === selectedId
+                ? styles.templateTileSelected
+                : styles.templateTile
+            }
+          >
+            <TypographyCard
+              ariaLabel={name}
+              onClick={() => onSelect(template.id)}
+            >
+              <Rows spacing="1u">
+                <TemplatePreview
+                  element={layoutReviewCard(content, template, page)}
+                  page={page}
+                />
+                <Text size="small" alignment="center">
+                  {name}
+                </Text>
+              </Rows>
+            </TypographyCard>
+          </div>
+        );
+      })}
+    </Grid>
+  );
+};
+
+type TemplatePreviewProps = {
+  element: ReviewCardElement;
+  page: PageDimensions;
+};
+
+/**
+ * Draws a laid out review card on a scaled-down page. Sizes are relative to the page, so
+ * the preview fits whatever width it's given.
+ */
+export const TemplatePreview = ({ element, page }: TemplatePreviewProps) => {
+  const children: GroupContentAtPoint[] =
+    element.type === "group"
+      ? element.children.map((child) => ({
+          ...child,
+          top: element.top + child.top,
+          left: element.left + child.left,
+        }))
+      : [element];
+  const percentOf = (value: number, total: number) =>
+    `${(value / total) * 100}%`;
+
+  return (
+    <div
+      className={styles.templatePreview}
+      style={{ aspectRatio: `${page.width} / ${page.height}` }}
+      aria-hidden
+    >
+      {children.map((child, index) => {
+        const position: React.CSSProperties = {
+          position: "absolute",
+          top: percentOf(child.top, page.height),
+          left: percentOf(child.left, page.width),
+          width:
+            typeof child.width === "number"
+              ? percentOf(child.width, page.width)
+              : undefined,
+        };
+
+        if (child.type === "shape") {
+          const { viewBox } = child;
+          return (
+            <svg
+              key={index}
+              style={{
+                ...position,
+                height:
+                  typeof child.height === "number"
+                    ? percentOf(child.height, page.height)
+                    : undefined,
+              }}
+              viewBox={`${viewBox.left} ${viewBox.top} ${viewBox.width} ${viewBox.height}`}
+              preserveAspectRatio="none"
+            >
+              {child.paths.map((path, pathIndex) => (
+                <path
+                  // Half stars draw the same outline twice, so paths aren't unique
+                  key={pathIndex}
+                  d={path.d}
+                  fill={path.fill.color || "none"}
+                  stroke={path.stroke?.color}
+                  // Doubled and clipped by the view box, to match Canva's inset strokes
+                  strokeWidth={(path.stroke?.weight || 0) * 2}
+                />
+              ))}
+            </svg>
+          );
+        }
+
+        if (child.type === "text") {
+          return (
+            <div
+              key={index}
+              style={{
+                ...position,
+                // Container query units scale the text with the preview's width
+                fontSize: `${((child.fontSize || 16) / page.width) * 100}cqw`,
+                // Matches the line height the layout assumes, so the preview wraps like the design
+                lineHeight: LINE_HEIGHT_EM,
+                fontWeight: child.fontWeight
+                  ? CSS_FONT_WEIGHTS[child.fontWeight]
+                  : undefined,
+                fontStyle: child.fontStyle,
+                color: child.color,
+                textAlign: child.textAlign,
+                whiteSpace: "pre-wrap",
+              }}
+            >
+              {child.children.join("")}
+            </div>
+          );
+        }
+
+        return null;
+      })}
+    </div>
+  );
+};
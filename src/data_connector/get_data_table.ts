@@ -0,0 +1,111 @@
+import { initIntl } from "@canva/app-i18n-kit";
+import type {
+  GetDataTableRequest,
+  GetDataTableResponse,
+} from "@canva/intents/data";
+import { defineMessage } from "react-intl";
+import * as api from "../api/backend";
+import type { Review } from "../models";
+import { MIN_RATING } from "../models";
+import { fetchAllReviews } from "../providers";
+import { formatRedactionLabels } from "../redaction";
+import type { ReviewDataColumn } from "./review_data_table";
+import {
+  parseDataSource,
+  redactReviews,
+  toReviewDataTable,
+} from "./review_data_table";
+
+const COLUMN_NAMES = {
+  quote: defineMessage({
+    defaultMessage: "Quote",
+    description: "Name of the review text column in Bulk Create data",
+  }),
+  firstName: defineMessage({
+    defaultMessage: "First name",
+    description: "Name of the client first name column in Bulk Create data",
+  }),
+  initial: defineMessage({
+    defaultMessage: "Initial",
+    description:
+      "Name of the column with the first letter of the client's last name, in Bulk Create data",
+  }),
+  rating: defineMessage({
+    defaultMessage: "Rating",
+    description: "Name of the numeric star rating column in Bulk Create data",
+  }),
+  stars: defineMessage({
+    defaultMessage: "Stars",
+    description:
+      "Name of the column with the rating written as stars, in Bulk Create data",
+  }),
+  staff: defineMessage({
+    defaultMessage: "Staff",
+    description:
+      "Name of the column with the staff member who served the client, in Bulk Create data",
+  }),
+  date: defineMessage({
+    defaultMessage: "Date",
+    description: "Name of the review date column in Bulk Create data",
+  }),
+  branch: defineMessage({
+    defaultMessage: "Branch",
+    description:
+      "Name of the column with the branch the review was left at, in Bulk Create data",
+  }),
+};
+
+/**
+ * Lists the reviews of a data source for Bulk Create. Only as many reviews as Canva
+ * accepts are fetched, and their text is redacted as when they're inserted.
+ */
+export async function getReviewDataTable({
+  dataSourceRef,
+  limit,
+  signal,
+}: GetDataTableRequest): Promise<GetDataTableResponse> {
+  const source = parseDataSource(dataSourceRef.source);
+  if (!source) {
+    return { status: "outdated_source_ref" };
+  }
+
+  const intl = initIntl();
+  const reviews: Review[] = [];
+  try {
+    const [branches, namePrivacy] = await Promise.all([
+      source.branchId ? api.listBranches() : [],
+      api.getNamePrivacy(),
+      fetchAllReviews((options) => api.listReviews(source.branchId, options), {
+        signal,
+        onPage: (page) =>
+          reviews.push(
+            ...page.reviews.filter((review) =>
+              review.rating === undefined
+                ? source.minRating <= MIN_RATING
+                : review.rating >= source.minRating,
+            ),
+          ),
+        until: () => reviews.length >= limit.row,
+      }),
+    ]);
+    const branchName = branches.find(({ id }) => id === source.branchId)?.name;
+
+    const columnNames = Object.fromEntries(
+      Object.entries(COLUMN_NAMES).map(([column, name]) => [
+        column,
+        intl.formatMessage(name),
+      ]),
+    ) as Record<ReviewDataColumn, string>;
+    return {
+      status: "completed",
+      dataTable: toReviewDataTable(
+        redactReviews(reviews, formatRedactionLabels(intl), namePrivacy),
+        columnNames,
+        limit,
+        branchName,
+      ),
+    };
+  } catch {
+    return { status: "remote_request_failed" };
+  }
+}
@@ -0,0 +1,223 @@
+import {
+  Alert,
+  Button,
+  FormField,
+  LoadingIndicator,
+  Rows,
+  Select,
+  Text,
+} from "@canva/app-ui-kit";
+import type { RenderSelectionUiRequest } from "@canva/intents/data";
+import React, { useEffect, useState } from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import * as styles from "../../styles/components.css";
+import * as api from "../api/backend";
+import type { Branch } from "../models";
+import { MAX_RATING, MIN_RATING } from "../models";
+import type { ReviewDataSource } from "./review_data_table";
+import { parseDataSource, serializeDataSource } from "./review_data_table";
+
+// The location picker value that lists the reviews of every branch
+const ALL_LOCATIONS = "all";
+
+type ReviewDataSelectionProps = {
+  request: RenderSelectionUiRequest;
+};
+
+/**
+ * Lets the user choose which reviews Bulk Create fills designs with. Opens with the
+ * choices of the data source being edited, if any.
+ */
+export const ReviewDataSelection = ({ request }: ReviewDataSelectionProps) => {
+  const intl = useIntl();
+  const { invocationContext } = request;
+  const previous =
+    invocationContext.dataSourceRef &&
+    parseDataSource(invocationContext.dataSourceRef.source);
+
+  const [branches, setBranches] = useState<Branch[]>();
+  const [branchId, setBranchId] = useState(previous?.branchId || ALL_LOCATIONS);
+  const [minRating, setMinRating] = useState(previous?.minRating || MIN_RATING);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(
+    invocationContext.reason === "app_error"
+      ? invocationContext.message ||
+          intl.formatMessage({
+            defaultMessage: "The reviews couldn't be loaded. Please try again.",
+            description:
+              "Error shown when Bulk Create couldn't load the reviews chosen before",
+          })
+      : invocationContext.reason === "outdated_source_ref"
+        ? intl.formatMessage({
+            defaultMessage:
+              "These reviews were chosen with an older version of the app. Please choose them again.",
+            description:
+              "Error shown when Bulk Create data was set up with a version of the app that's no longer supported",
+          })
+        : null,
+  );
+
+  useEffect(() => {
+    api
+      .listBranches()
+      .then(setBranches)
+      .catch(() => {
+        setBranches([]);
+        setError(
+          intl.formatMessage({
+            defaultMessage:
+              "Connect your salon software account from this app in the editor, then come back to choose reviews.",
+            description:
+              "Error shown in Bulk Create when the user hasn't connected their salon account",
+          }),
+        );
+      });
+  }, []);
+
+  const chooseReviews = async () => {
+    const source: ReviewDataSource = {
+      ...(branchId !== ALL_LOCATIONS && { branchId }),
+      minRating,
+    };
+    const branchName = branches?.find(({ id }) => id === branchId)?.name;
+    const loadFailedMessage = intl.formatMessage({
+      defaultMessage:
+        "The reviews couldn't be loaded. Please check your connection and try again.",
+      description:
+        "Error shown when Canva couldn't load the reviews chosen for Bulk Create",
+    });
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await request.updateDataRef({
+        source: serializeDataSource(source),
+        title: intl.formatMessage(
+          {
+            defaultMessage:
+              "Reviews from {branch}, {minRating, plural, =0 {any rating} one {# star and up} other {# stars and up}}",
+            description:
+              "Name of the reviews chosen for Bulk Create, shown in Canva's data panel",
+          },
+          {
+            branch:
+              branchName ||
+              intl.formatMessage({
+                defaultMessage: "all locations",
+                description:
+                  "Stands in for a branch name when reviews from every location are chosen for Bulk Create",
+              }),
+            minRating,
+          },
+        ),
+      });
+      if (response.status !== "completed") {
+        setError(loadFailedMessage);
+      }
+    } catch {
+      setError(loadFailedMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!branches) {
+    return (
+      <div className={styles.scrollContainer}>
+        <LoadingIndicator />
+      </div>
+    );
+  }
+
+  const ratings = Array.from(
+    { length: MAX_RATING - MIN_RATING + 1 },
+    (_, index) => MIN_RATING + index,
+  );
+
+  return (
+    <div className={styles.scrollContainer}>
+      <Rows spacing="2u">
+        <Text>
+          <FormattedMessage
+            defaultMessage="Choose the reviews to fill your designs with. Each review becomes one design."
+            description="Introduction to choosing reviews for Bulk Create"
+          />
+        </Text>
+        {error && <Alert tone="critical">{error}</Alert>}
+        <FormField
+          label={intl.formatMessage({
+            defaultMessage: "Location",
+            description: "Label of the location picker for Bulk Create",
+          })}
+          value={branchId}
+          control={(props) => (
+            <Select
+              {...props}
+              options={[
+                {
+                  label: intl.formatMessage({
+                    defaultMessage: "All locations",
+                    description:
+                      "Location option that lists the reviews of every location",
+                  }),
+                  value: ALL_LOCATIONS,
+                },
+                ...branches.map((branch) => ({
+                  label: branch.name,
+                  value: branch.id,
+                })),
+              ]}
+              onChange={(value) => setBranchId(value || ALL_LOCATIONS)}
+              stretch
+            />
+          )}
+        />
+        <FormField
+          label={intl.formatMessage({
+            defaultMessage: "Lowest rating",
+            description:
+              "Label of the picker for the fewest stars a review needs to be used in Bulk Create",
+          })}
+          value={minRating}
+          control={(props) => (
+            <Select<number>
+              {...props}
+              options={ratings.map((rating) => ({
+                label:
+                  rating === MIN_RATING
+                    ? intl.formatMessage({
+                        defaultMessage: "Any rating, including unrated",
+                        description:
+                          "Option that uses every review in Bulk Create, including reviews without a rating",
+                      })
+                    : intl.formatMessage(
+                        {
+                          defaultMessage:
+                            "{rating, plural, one {# star} other {# stars}} and up",
+                          description:
+                            "Option for the fewest stars a review needs to be used in Bulk Create",
+                        },
+                        { rating },
+                      ),
+                value: rating,
+              }))}
+              onChange={(value) => setMinRating(value || MIN_RATING)}
+              stretch
+            />
+          )}
+        />
+        <Button
+          variant="primary"
+          onClick={chooseReviews}
+          loading={saving}
+          disabled={branches.length === 0}
+          stretch
+        >
+          {intl.formatMessage({
+            defaultMessage: "Use these reviews",
+            description: "Button that chooses the reviews for Bulk Create",
+          })}
+        </Button>
+      </Rows>
+    </div>
+  );
+};
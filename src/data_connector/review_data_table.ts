@@ -0,0 +1,177 @@
+import type {
+  ColumnConfig,
+  DataTable,
+  DataTableCell,
+  DataTableLimit,
+} from "@canva/intents/data";
+import { formatStars } from "../layout/star_rating";
+import type { NamePrivacy, Review } from "../models";
+import type { RedactionLabels } from "../redaction";
+import {
+  findReviewRedactions,
+  REDACTION_KINDS,
+  redactText,
+  replaceWithLabel,
+} from "../redaction";
+
+export type ReviewDataColumn =
+  | "quote"
+  | "firstName"
+  | "initial"
+  | "rating"
+  | "stars"
+  | "staff"
+  | "date"
+  | "branch";
+
+/**
+ * Every column of the review data source, in order. Columns past Canva's limit are left
+ * out from the end.
+ */
+export const REVIEW_DATA_COLUMNS: ReviewDataColumn[] = [
+  "quote",
+  "firstName",
+  "initial",
+  "rating",
+  "stars",
+  "staff",
+  "date",
+  "branch",
+];
+
+/**
+ * The reviews a Bulk Create data source lists, as chosen by the user.
+ */
+export type ReviewDataSource = {
+  // Every branch if not set
+  branchId?: string;
+  // Reviews with fewer stars are left out. Unrated reviews are only listed when this is
+  // the lowest rating.
+  minRating: number;
+};
+
+const COLUMN_TYPES: Record<ReviewDataColumn, ColumnConfig["type"]> = {
+  quote: "string",
+  firstName: "string",
+  initial: "string",
+  rating: "number",
+  stars: "string",
+  staff: "string",
+  date: "date",
+  branch: "string",
+};
+
+const string = (value: string | undefined): DataTableCell<"string"> => ({
+  type: "string",
+  value: value || undefined,
+});
+
+/**
+ * Saves a data source as the reference Canva stores with the design.
+ */
+export function serializeDataSource(source: ReviewDataSource): string {
+  return JSON.stringify(source);
+}
+
+/**
+ * Reads a data source saved by {@link serializeDataSource}.
+ * @returns The data source, or `undefined` if the reference isn't one this version of the
+ * app understands.
+ */
+export function parseDataSource(source: string): ReviewDataSource | undefined {
+  try {
+    const { branchId, minRating } = JSON.parse(source);
+    if (
+      (branchId !== undefined && typeof branchId !== "string") ||
+      typeof minRating !== "number"
+    ) {
+      return undefined;
+    }
+    return { branchId, minRating };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hides contact details, other clients' names and swearing from the text of each review,
+ * the same way reviews inserted from the app are with every detector turned on.
+ * @param reviews - The reviews listed together.
+ * @param labels - The translated text that takes the place of each kind of detail.
+ * @param namePrivacy - The privacy setting the reviews' names were shown with.
+ */
+export function redactReviews(
+  reviews: Review[],
+  labels: RedactionLabels,
+  namePrivacy?: NamePrivacy,
+): Review[] {
+  const redactions = findReviewRedactions(reviews, {
+    detectors: REDACTION_KINDS,
+    namePrivacy,
+  });
+  return reviews.map((review) => ({
+    ...review,
+    text: redactText(
+      review.text,
+      redactions.get(review.reviewId) || [],
+      replaceWithLabel(labels),
+    ),
+  }));
+}
+
+/**
+ * Lays out reviews as a table for Bulk Create, with a row for each review and a header
+ * for each column.
+ * @param reviews - The reviews, in the order they're listed.
+ * @param columnNames - The translated name of each column.
+ * @param limit - The most rows and columns Canva accepts. Rows and columns past the
+ * limit are left out.
+ * @param branchName - The name of the branch the reviews were listed for. Reviews listed
+ * across branches are tagged with their own branch instead.
+ */
+export function toReviewDataTable(
+  reviews: Review[],
+  columnNames: Record<ReviewDataColumn, string>,
+  limit: DataTableLimit,
+  branchName = "",
+): DataTable {
+  const columns = REVIEW_DATA_COLUMNS.slice(0, limit.column);
+  const cellOf = (review: Review, column: ReviewDataColumn): DataTableCell => {
+    switch (column) {
+      case "quote":
+        return string(review.text);
+      case "firstName":
+        return string(review.clientFirstName);
+      case "initial":
+        return string(review.clientLastName.trim().charAt(0).toUpperCase());
+      case "rating":
+        return { type: "number", value: review.rating };
+      case "stars":
+        return string(formatStars(review.rating));
+      case "staff":
+        return string(
+          review.staff &&
+            `${review.staff.firstName} ${review.staff.lastName}`.trim(),
+        );
+      case "date":
+        return {
+          type: "date",
+          value: Math.floor(Date.parse(review.reviewDate) / 1000),
+        };
+      case "branch":
+        return string(review.branch?.name || branchName);
+      default:
+        return string(undefined);
+    }
+  };
+
+  return {
+    columnConfigs: columns.map((column) => ({
+      name: columnNames[column],
+      type: COLUMN_TYPES[column],
+    })),
+    rows: reviews.slice(0, limit.row).map((review) => ({
+      cells: columns.map((column) => cellOf(review, column)),
+    })),
+  };
+}
@@ -0,0 +1,148 @@
+import type { Review } from "../../models";
+import type { ReviewDataColumn } from "../review_data_table";
+import {
+  parseDataSource,
+  redactReviews,
+  REVIEW_DATA_COLUMNS,
+  serializeDataSource,
+  toReviewDataTable,
+} from "../review_data_table";
+
+describe("toReviewDataTable", () => {
+  const columnNames = Object.fromEntries(
+    REVIEW_DATA_COLUMNS.map((column) => [column, column.toUpperCase()]),
+  ) as Record<ReviewDataColumn, string>;
+  const limit = { row: 100, column: 20 };
+
+  const review: Review = {
+    reviewId: "r1",
+    clientFirstName: "Ada",
+    clientLastName: "lovelace",
+    rating: 4,
+    reviewDate: "2024-06-01T10:00:00Z",
+    text: "Loved my new colour",
+    staff: { firstName: "Grace", lastName: "Hopper" },
+  };
+
+  it("lists each review as a row of typed cells", () => {
+    const table = toReviewDataTable([review], columnNames, limit, "Soho");
+
+    expect(table.columnConfigs).toEqual([
+      { name: "QUOTE", type: "string" },
+      { name: "FIRSTNAME", type: "string" },
+      { name: "INITIAL", type: "string" },
+      { name: "RATING", type: "number" },
+      { name: "STARS", type: "string" },
+      { name: "STAFF", type: "string" },
+      { name: "DATE", type: "date" },
+      { name: "BRANCH", type: "string" },
+    ]);
+    expect(table.rows).toEqual([
+      {
+        cells: [
+          { type: "string", value: "Loved my new colour" },
+          { type: "string", value: "Ada" },
+          { type: "string", value: "L" },
+          { type: "number", value: 4 },
+          { type: "string", value: "★★★★☆" },
+          { type: "string", value: "Grace Hopper" },
+          { type: "date", value: 1717236000 },
+          { type: "string", value: "Soho" },
+        ],
+      },
+    ]);
+  });
+
+  it("leaves cells empty for parts a review doesn't have", () => {
+    const [row] = toReviewDataTable(
+      [{ ...review, text: "", clientLastName: "", staff: undefined }],
+      columnNames,
+      limit,
+    ).rows;
+
+    expect(row.cells.filter(({ value }) => value === undefined)).toHaveLength(
+      4,
+    );
+  });
+
+  it("rounds fractional ratings to the stars they're shown with", () => {
+    const [fractional, unrated] = toReviewDataTable(
+      [
+        { ...review, rating: 3.3 },
+        { ...review, rating: undefined },
+      ],
+      columnNames,
+      limit,
+    ).rows;
+
+    expect(fractional.cells.slice(3, 5)).toEqual([
+      { type: "number", value: 3.3 },
+      { type: "string", value: "★★★★☆" },
+    ]);
+    expect(unrated.cells[4]).toEqual({ type: "string", value: undefined });
+  });
+
+  it("prefers the branch a review is tagged with", () => {
+    const [row] = toReviewDataTable(
+      [{ ...review, branch: { id: "b2", name: "Shoreditch" } }],
+      columnNames,
+      limit,
+    ).rows;
+
+    expect(row.cells[7]).toEqual({ type: "string", value: "Shoreditch" });
+  });
+
+  it("keeps within Canva's row and column limits", () => {
+    const table = toReviewDataTable([review, review, review], columnNames, {
+      row: 2,
+      column: 3,
+    });
+
+    expect(table.columnConfigs).toHaveLength(3);
+    expect(table.rows).toHaveLength(2);
+    expect(table.rows[0].cells).toHaveLength(3);
+  });
+});
+
+describe("redactReviews", () => {
+  const labels = {
+    email: "[email]",
+    url: "[link]",
+    phone: "[phone number]",
+    name: "[name]",
+  };
+  const review: Review = {
+    reviewId: "r1",
+    clientFirstName: "Ada",
+    clientLastName: "L.",
+    rating: 5,
+    reviewDate: "2024-06-01T10:00:00Z",
+    text: "Grace was damn good, better than when Jane did it. Call 020 7946 0958.",
+    staff: { firstName: "Grace", lastName: "Hopper" },
+  };
+
+  it("hides details, other clients' names and swearing but not staff names", () => {
+    const [redacted] = redactReviews(
+      [review, { ...review, reviewId: "r2", clientFirstName: "Jane" }],
+      labels,
+    );
+
+    expect(redacted).toEqual({
+      ...review,
+      text: "Grace was d*** good, better than when [name] did it. Call [phone number].",
+    });
+  });
+});
+
+describe("parseDataSource", () => {
+  it("reads a data source it saved", () => {
+    const source = { branchId: "b1", minRating: 4 };
+
+    expect(parseDataSource(serializeDataSource(source))).toEqual(source);
+  });
+
+  it("rejects references it doesn't understand", () => {
+    expect(parseDataSource("not json")).toBeUndefined();
+    expect(parseDataSource(JSON.stringify({ branch: "b1" }))).toBeUndefined();
+  });
+});
@@ -1,22 +1,45 @@
 import { AppUiProvider } from "@canva/app-ui-kit";
+import { prepareDataConnector } from "@canva/intents/data";
+import { prepareDesignEditor } from "@canva/intents/design";
 import { createRoot } from "react-dom/client";
 import { App } from "./app";
 import "@canva/app-ui-kit/styles.css";
 import { AppI18nProvider } from "@canva/app-i18n-kit";
+import { getReviewDataTable } from "./data_connector/get_data_table";
+import { ReviewDataSelection } from "./data_connector/review_data_selection";
 
 const root = createRoot(document.getElementById("root") as Element);
+
+// The view Canva opened the app with, rendered again when hot reloading
+let renderView: () => JSX.Element = () => <App />;
+
 function render() {
   root.render(
     <AppI18nProvider>
-      <AppUiProvider>
-        <App />
-      </AppUiProvider>
+      <AppUiProvider>{renderView()}</AppUiProvider>
     </AppI18nProvider>,
   );
 }
 
-render();
+prepareDesignEditor({
+  render: () => {
+    renderView = () => <App />;
+    render();
+  },
+});
+
+// Lets Bulk Create fill designs with reviews
+prepareDataConnector({
+  getDataTable: getReviewDataTable,
+  renderSelectionUi: (request) => {
+    renderView = () => <ReviewDataSelection request={request} />;
+    render();
+  },
+});
 
 if (module.hot) {
-  module.hot.accept("./app", render);
+  module.hot.accept(
+    ["./app", "./data_connector/review_data_selection"],
+    render,
+  );
 }
@@ -0,0 +1,406 @@
+import type {
+  GroupContentAtPoint,
+  PageDimensions,
+  ShapeElementAtPoint,
+  TextElementAtPoint,
+} from "@canva/design";
+import type { MessageDescriptor } from "react-intl";
+import { defineMessage } from "react-intl";
+import type { TestimonialTemplate } from "../templates";
+import { CSS_FONT_WEIGHTS } from "./fonts";
+import type { ReviewCardContent, TextMeasurer } from "./review_card";
+import { accentColorOf, layoutReviewCard, LINE_HEIGHT_EM } from "./review_card";
+
+/**
+ * A size for review card images, set by the width of the image.
+ */
+export type ImagePreset = {
+  id: string;
+  name: MessageDescriptor;
+  // In pixels. The height follows from the card's proportions.
+  width: number;
+};
+
+export const IMAGE_PRESETS: ImagePreset[] = [
+  {
+    id: "social",
+    name: defineMessage({
+      defaultMessage: "Social media (1080 px)",
+      description: "Image size option for reviews shared on social media",
+    }),
+    width: 1080,
+  },
+  {
+    id: "social-hd",
+    name: defineMessage({
+      defaultMessage: "High resolution (2160 px)",
+      description:
+        "Image size option for reviews shown on high resolution screens",
+    }),
+    width: 2160,
+  },
+  {
+    id: "print",
+    name: defineMessage({
+      defaultMessage: "Print (A4 width at 300 DPI)",
+      description: "Image size option for reviews that will be printed",
+    }),
+    width: 2480,
+  },
+];
+
+export const DEFAULT_IMAGE_PRESET = IMAGE_PRESETS[0];
+
+/**
+ * A circle with the client's initials, drawn above the review in the template's accent
+ * color.
+ */
+export type CardAvatar = {
+  initials: string;
+};
+
+export type CardImage = {
+  // A PNG data URL, ready to upload
+  dataUrl: string;
+  width: number;
+  height: number;
+};
+
+// Canvas can't use Canva's fonts, so images fall back to fonts every platform has
+const FONT_FAMILY = "Helvetica, Arial, sans-serif";
+// Star ratings are drawn as shapes, so they look the same whatever fonts are installed
+const STAR_RATING = /^[★☆]+$/u;
+const FILLED_STAR = "★";
+// The size of the points of a star, relative to its outer radius
+const STAR_INNER_RADIUS = 0.4;
+const STAR_SPACING_EM = 1.15;
+// The avatar's diameter and the space below it, relative to the width of the text
+const AVATAR_SIZE_RATIO = 0.14;
+const AVATAR_GAP_RATIO = 0.04;
+const DEFAULT_AVATAR_COLOR = "#6f6f6f";
+
+type TextStyle = Parameters<TextMeasurer>[3];
+
+const fontOf = (fontSize: number, { fontWeight, fontStyle }: TextStyle) =>
+  `${fontStyle || "normal"} ${CSS_FONT_WEIGHTS[fontWeight || "normal"]} ${fontSize}px ${FONT_FAMILY}`;
+
+/**
+ * Breaks text into lines that fit a width, breaking between words where possible and
+ * within words that are too long for a line of their own.
+ * @param text - The text to wrap. Line breaks in the text are kept.
+ * @param width - The width of a line.
+ * @param measureWidth - Returns the width of a piece of text.
+ */
+export function wrapText(
+  text: string,
+  width: number,
+  measureWidth: (text: string) => number,
+): string[] {
+  const lines: string[] = [];
+  // Breaks words that are wider than a line on their own, character by character
+  const pushLine = (line: string) => {
+    let rest = line;
+    while (rest.length > 1 && measureWidth(rest) > width) {
+      let end = rest.length - 1;
+      while (end > 1 && measureWidth(rest.slice(0, end)) > width) {
+        end--;
+      }
+      lines.push(rest.slice(0, end));
+      rest = rest.slice(end);
+    }
+    lines.push(rest);
+  };
+
+  text.split("\n").forEach((paragraph) => {
+    let line = "";
+    paragraph.split(/(\s+)/).forEach((word) => {
+      const candidate = line + word;
+      if (!line || measureWidth(candidate) <= width) {
+        line = candidate;
+        return;
+      }
+      pushLine(line.trimEnd());
+      line = word.trimStart();
+    });
+    pushLine(line);
+  });
+
+  return lines;
+}
+
+const textOf = (element: TextElementAtPoint) => element.children.join("");
+
+const widthOf = (element: { width?: unknown }, fallback: number) =>
+  typeof element.width === "number" ? element.width : fallback;
+
+const createMeasurer =
+  (context: CanvasRenderingContext2D): TextMeasurer =>
+  (text, fontSize, width, style) => {
+    if (STAR_RATING.test(text)) {
+      return fontSize * LINE_HEIGHT_EM;
+    }
+    context.font = fontOf(fontSize, style);
+    const lines = wrapText(
+      text,
+      width,
+      (line) => context.measureText(line).width,
+    );
+    return lines.length * fontSize * LINE_HEIGHT_EM;
+  };
+
+const drawStar = (
+  context: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  radius: number,
+) => {
+  context.beginPath();
+  for (let point = 0; point < 10; point++) {
+    const pointRadius = point % 2 === 0 ? radius : radius * STAR_INNER_RADIUS;
+    const angle = -Math.PI / 2 + (point * Math.PI) / 5;
+    context.lineTo(
+      x + pointRadius * Math.cos(angle),
+      y + pointRadius * Math.sin(angle),
+    );
+  }
+  context.closePath();
+};
+
+const drawStars = (
+  context: CanvasRenderingContext2D,
+  element: TextElementAtPoint,
+  width: number,
+) => {
+  const stars = [...textOf(element)];
+  const fontSize = element.fontSize || 16;
+  // Shrinks the stars if the row is wider than the text box
+  const spacing = Math.min(fontSize * STAR_SPACING_EM, width / stars.length);
+  const rowWidth = spacing * stars.length;
+  const startX =
+    element.textAlign === "center"
+      ? element.left + (width - rowWidth) / 2
+      : element.textAlign === "end"
+        ? element.left + width - rowWidth
+        : element.left;
+  const centerY = element.top + (fontSize * LINE_HEIGHT_EM) / 2;
+
+  context.fillStyle = element.color || "#000000";
+  context.strokeStyle = element.color || "#000000";
+  context.lineWidth = fontSize / 20;
+  stars.forEach((star, index) => {
+    drawStar(
+      context,
+      startX + spacing * (index + 0.5),
+      centerY,
+      (spacing / STAR_SPACING_EM) * 0.5,
+    );
+    if (star === FILLED_STAR) {
+      context.fill();
+    } else {
+      context.stroke();
+    }
+  });
+};
+
+const drawText = (
+  context: CanvasRenderingContext2D,
+  element: TextElementAtPoint,
+  width: number,
+) => {
+  const text = textOf(element);
+  if (STAR_RATING.test(text)) {
+    drawStars(context, element, width);
+    return;
+  }
+
+  const fontSize = element.fontSize || 16;
+  const lineHeight = fontSize * LINE_HEIGHT_EM;
+  context.font = fontOf(fontSize, element);
+  context.fillStyle = element.color || "#000000";
+  context.textBaseline = "middle";
+  context.textAlign =
+    element.textAlign === "center" || element.textAlign === "end"
+      ? element.textAlign
+      : "start";
+  const x =
+    element.textAlign === "center"
+      ? element.left + width / 2
+      : element.textAlign === "end"
+        ? element.left + width
+        : element.left;
+
+  wrapText(text, width, (line) => context.measureText(line).width).forEach(
+    (line, index) =>
+      context.fillText(line, x, element.top + lineHeight * (index + 0.5)),
+  );
+};
+
+const drawShape = (
+  context: CanvasRenderingContext2D,
+  shape: ShapeElementAtPoint,
+  height: number,
+) => {
+  const { viewBox } = shape;
+  const scaleX = widthOf(shape, viewBox.width) / viewBox.width;
+  const scaleY = height / viewBox.height;
+
+  shape.paths.forEach(({ d, fill, stroke }) => {
+    const path = new Path2D(d);
+    context.save();
+    context.translate(shape.left, shape.top);
+    context.scale(scaleX, scaleY);
+    context.translate(-viewBox.left, -viewBox.top);
+    if (fill.color) {
+      context.fillStyle = fill.color;
+      context.fill(path);
+    }
+    if (stroke) {
+      // Canva's strokes are inset, so the outer half of a doubled stroke is clipped away
+      context.clip(path);
+      context.strokeStyle = stroke.color;
+      context.lineWidth = (stroke.weight * 2) / scaleX;
+      context.stroke(path);
+    }
+    context.restore();
+  });
+};
+
+const drawAvatar = (
+  context: CanvasRenderingContext2D,
+  { initials }: CardAvatar,
+  color: string,
+  x: number,
+  y: number,
+  size: number,
+) => {
+  context.beginPath();
+  context.arc(x + size / 2, y + size / 2, size / 2, 0, Math.PI * 2);
+  context.fillStyle = color;
+  context.fill();
+
+  context.font = fontOf(size * 0.4, { fontWeight: "bold" });
+  context.fillStyle = "#ffffff";
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillText(initials, x + size / 2, y + size / 2);
+};
+
+/**
+ * Places an image of a review card where the card would be laid out as text, as wide as
+ * the card and in the image's proportions.
+ * @param image - The image of the card.
+ * @param content - The text of each line of the card.
+ * @param template - The template the card is laid out with.
+ * @param page - The page the card is added to.
+ */
+export function placeCardImage(
+  image: CardImage,
+  content: ReviewCardContent,
+  template: TestimonialTemplate,
+  page: PageDimensions,
+) {
+  const { top, left, width } = layoutReviewCard(content, template, page);
+  const cardWidth = typeof width === "number" ? width : page.width;
+  return {
+    top,
+    left,
+    width: cardWidth,
+    height: Math.round((cardWidth * image.height) / image.width),
+  };
+}
+
+/**
+ * Draws a review card as a PNG, with the same layout as the card inserted as text. Star
+ * ratings are drawn as shapes rather than with a font, including for reviews without a
+ * numeric rating.
+ * @param content - The text of each line of the card.
+ * @param template - The template to lay out the card with.
+ * @param page - The page the card is laid out for, which sets its proportions.
+ * @param options - The width of the image in pixels, and an optional avatar.
+ * @throws Error if the browser can't draw on a canvas.
+ */
+export function renderCardImage(
+  content: ReviewCardContent,
+  template: TestimonialTemplate,
+  page: PageDimensions,
+  { width, avatar }: { width: number; avatar?: CardAvatar },
+): CardImage {
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Drawing images isn't supported in this browser.");
+  }
+
+  const measure = createMeasurer(context);
+  const card = layoutReviewCard(content, template, page, measure);
+  const cardWidth = widthOf(card, page.width);
+  const elements: GroupContentAtPoint[] =
+    card.type === "group" ? card.children : [{ ...card, top: 0, left: 0 }];
+  const texts = elements.filter(
+    (element): element is TextElementAtPoint => element.type === "text",
+  );
+  const heightOf = (element: GroupContentAtPoint) =>
+    element.type === "text"
+      ? measure(
+          textOf(element),
+          element.fontSize || 16,
+          widthOf(element, cardWidth),
+          element,
+        )
+      : "height" in element && typeof element.height === "number"
+        ? element.height
+        : 0;
+
+  // Room for the avatar is made above the text, growing any background to fit
+  const firstText = texts[0];
+  const textWidth = firstText ? widthOf(firstText, cardWidth) : cardWidth;
+  const avatarSize = avatar ? textWidth * AVATAR_SIZE_RATIO : 0;
+  const avatarSpace = avatar ? avatarSize + textWidth * AVATAR_GAP_RATIO : 0;
+  const cardHeight =
+    Math.max(...elements.map((element) => element.top + heightOf(element))) +
+    avatarSpace;
+
+  const scale = width / cardWidth;
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(cardHeight * scale);
+  context.scale(scale, scale);
+
+  elements.forEach((element, index) => {
+    if (element.type === "shape") {
+      // The background grows to make room for the avatar, and shapes on it move down
+      const isBackground = index === 0 && Boolean(template.background);
+      drawShape(
+        context,
+        isBackground ? element : { ...element, top: element.top + avatarSpace },
+        heightOf(element) + (isBackground ? avatarSpace : 0),
+      );
+    } else if (element.type === "text") {
+      drawText(
+        context,
+        { ...element, top: element.top + avatarSpace },
+        widthOf(element, cardWidth),
+      );
+    }
+  });
+
+  if (avatar && firstText) {
+    const x =
+      firstText.textAlign === "center"
+        ? firstText.left + (textWidth - avatarSize) / 2
+        : firstText.left;
+    drawAvatar(
+      context,
+      avatar,
+      accentColorOf(template) || DEFAULT_AVATAR_COLOR,
+      x,
+      firstText.top,
+      avatarSize,
+    );
+  }
+
+  return {
+    dataUrl: canvas.toDataURL("image/png"),
+    width: canvas.width,
+    height: canvas.height,
+  };
+}
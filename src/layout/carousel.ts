@@ -0,0 +1,107 @@
+import type { ElementAtPoint } from "@canva/design";
+import { addPage } from "@canva/design";
+import { CanvaError } from "@canva/error";
+
+// Page titles longer than this are rejected by Canva
+const MAX_TITLE_LENGTH = 255;
+// How many times adding a page is retried when the editor is rate limiting the app
+const MAX_RATE_LIMIT_RETRIES = 3;
+// The delay before the first retry. Each later retry waits twice as long.
+const RATE_LIMIT_DELAY_MS = 1000;
+
+export type CarouselPage = {
+  title: string;
+  elements: ElementAtPoint[];
+};
+
+export type CarouselProgress = {
+  // The number of pages added so far
+  created: number;
+  total: number;
+};
+
+type CreateCarouselOptions<T> = {
+  signal?: AbortSignal;
+  onProgress?: (progress: CarouselProgress) => void;
+  // Waits between attempts. Replaceable so tests don't have to wait.
+  sleep?: (ms: number) => Promise<void>;
+  // Lays out the page for an item. Called just before the page is added, so a cancel
+  // doesn't wait for every page to be laid out.
+  buildPage: (item: T) => CarouselPage | Promise<CarouselPage>;
+};
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const isRateLimited = (error: unknown) =>
+  error instanceof CanvaError && error.code === "rate_limited";
+
+/**
+ * Adds a page to the design for each item, one at a time and in order. Retries pages the
+ * editor rejects because the app is adding them too quickly.
+ * @param items - The items to create pages for, such as a list of reviews.
+ * @param options - How to lay out each page, a signal to cancel, and a progress callback.
+ * @returns The number of pages added.
+ * @throws CarouselCancelledError if the signal is aborted before every page is added.
+ * Pages added before the cancel are left in the design.
+ */
+export async function createCarousel<T>(
+  items: T[],
+  { signal, onProgress, sleep = wait, buildPage }: CreateCarouselOptions<T>,
+): Promise<number> {
+  let created = 0;
+  onProgress?.({ created, total: items.length });
+
+  for (const item of items) {
+    if (signal?.aborted) {
+      throw new CarouselCancelledError(created);
+    }
+
+    const { title, elements } = await buildPage(item);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await addPage({
+          title: title.slice(0, MAX_TITLE_LENGTH),
+          elements,
+        });
+        break;
+      } catch (e) {
+        if (!isRateLimited(e) || attempt >= MAX_RATE_LIMIT_RETRIES) {
+          throw e;
+        }
+        await sleep(RATE_LIMIT_DELAY_MS * 2 ** attempt);
+      }
+    }
+
+    created++;
+    onProgress?.({ created, total: items.length });
+  }
+
+  return created;
+}
+
+/**
+ * Returns a client's initials, such as "AL" for Ada Lovelace, for page titles that
+ * identify a review without spelling out the client's name.
+ * @returns The initials, or an empty string if the client has no name.
+ */
+export function initialsOf(
+  firstName: string | undefined,
+  lastName: string | undefined,
+): string {
+  return [firstName, lastName]
+    .map((name) => name?.trim().charAt(0).toUpperCase() || "")
+    .join("");
+}
+
+export class CarouselCancelledError extends Error {
+  constructor(
+    // The number of pages added before the cancel
+    readonly created: number,
+    message = "Creating the carousel was cancelled.",
+  ) {
+    super(message);
+
+    Object.setPrototypeOf(this, CarouselCancelledError.prototype);
+  }
+}
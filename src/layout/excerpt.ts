@@ -0,0 +1,176 @@
+import type { Bounds } from "@canva/design";
+
+/**
+ * A run of whole sentences of a review, from the first to the last, both included.
+ */
+export type SentenceRange = {
+  first: number;
+  last: number;
+};
+
+// The end of a sentence, including any closing quote or bracket, or a line break. Stops
+// followed by a letter or digit, as in "4.5" or "salon.com", don't end a sentence.
+const SENTENCE_END = /[.!?…]+["'”’)]*(?=\s|$)|\n+/gu;
+const ELLIPSIS = "…";
+
+// Words that make a sentence worth quoting, matched at the start of each word so
+// "recommended" counts as "recommend"
+const PRAISE = [
+  "amazing",
+  "beautiful",
+  "best",
+  "brilliant",
+  "excellent",
+  "fantastic",
+  "friendly",
+  "gorgeous",
+  "great",
+  "happy",
+  "incredibl",
+  "love",
+  "perfect",
+  "professional",
+  "recommend",
+  "thank",
+  "wonderful",
+];
+// Words that make a sentence a poor quote on its own
+const HEDGES = [
+  "although",
+  "but",
+  "disappointed",
+  "expensive",
+  "however",
+  "late",
+  "unfortunately",
+  "wait",
+];
+// A quote reads best at about this many characters
+const IDEAL_SENTENCE_LENGTH = 90;
+
+/**
+ * Splits a review into sentences.
+ * @returns The position of each sentence, in order and without surrounding whitespace.
+ */
+export function splitSentences(text: string): Bounds[] {
+  const sentences: Bounds[] = [];
+  let start = 0;
+  const add = (end: number) => {
+    const sentence = text.slice(start, end);
+    const trimmed = sentence.trim();
+    if (trimmed) {
+      sentences.push({
+        index: start + sentence.length - sentence.trimStart().length,
+        length: trimmed.length,
+      });
+    }
+    start = end;
+  };
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    add((match.index || 0) + match[0].length);
+  }
+  add(text.length);
+  return sentences;
+}
+
+// Higher for sentences that praise the salon and are a comfortable length to read.
+// Sentences that do neither score below zero, so they're only kept between sentences worth quoting.
+const scoreSentence = (sentence: string) => {
+  const words = sentence.toLowerCase().match(/[\p{L}']+/gu) || [];
+  const praise = words.filter((word) =>
+    PRAISE.some((praiseWord) => word.startsWith(praiseWord)),
+  ).length;
+  const hedges = words.filter((word) => HEDGES.includes(word)).length;
+  const lengthFit =
+    0.5 -
+    Math.min(
+      1,
+      Math.abs(sentence.length - IDEAL_SENTENCE_LENGTH) / IDEAL_SENTENCE_LENGTH,
+    );
+  return (
+    praise * 2 -
+    hedges * 1.5 +
+    lengthFit +
+    (sentence.includes("!") ? 0.5 : 0) -
+    (sentence.endsWith("?") ? 1 : 0)
+  );
+};
+
+const endOf = ({ index, length }: Bounds) => index + length;
+
+/**
+ * Picks the most quotable run of sentences in a review that fits a character budget.
+ * Sentences that praise the salon score higher, and sentences that complain or hedge
+ * score lower.
+ * @param maxLength - The most characters the excerpt may have, including ellipses.
+ * @returns Every sentence if the whole review fits. If no sentence fits on its own, the
+ * best sentence, which {@link excerptText} shortens.
+ */
+export function pickExcerpt(text: string, maxLength: number): SentenceRange {
+  const sentences = splitSentences(text);
+  if (sentences.length === 0 || text.trim().length <= maxLength) {
+    return { first: 0, last: Math.max(0, sentences.length - 1) };
+  }
+
+  const scores = sentences.map((sentence) =>
+    scoreSentence(text.slice(sentence.index, endOf(sentence))),
+  );
+  // Leaves room for an ellipsis at each end
+  const budget = maxLength - ELLIPSIS.length * 2;
+  let best: { range: SentenceRange; score: number } | undefined;
+  sentences.forEach((start, first) => {
+    let score = 0;
+    for (let last = first; last < sentences.length; last++) {
+      if (endOf(sentences[last]) - start.index > budget) {
+        break;
+      }
+      score += scores[last];
+      if (!best || score > best.score) {
+        best = { range: { first, last }, score };
+      }
+    }
+  });
+  if (best) {
+    return best.range;
+  }
+
+  const first = scores.indexOf(Math.max(...scores));
+  return { first, last: first };
+}
+
+/**
+ * Returns a run of sentences of a review, with an ellipsis wherever text is left out. A
+ * run that ends on a full stop ends on an ellipsis instead, and one that's cut short ends
+ * on the last whole word that fits.
+ * @param range - The sentences to keep. Out of range sentences are clamped to the review.
+ * @param maxLength - The most characters the excerpt may have, including ellipses.
+ * Longer runs are cut short. Runs are kept whole if not set.
+ */
+export function excerptText(
+  text: string,
+  range: SentenceRange,
+  maxLength?: number,
+): string {
+  const sentences = splitSentences(text);
+  if (sentences.length === 0) {
+    return text.trim();
+  }
+  const first = Math.min(Math.max(range.first, 0), sentences.length - 1);
+  const last = Math.min(Math.max(range.last, first), sentences.length - 1);
+  const before = first > 0;
+  let excerpt = text.slice(sentences[first].index, endOf(sentences[last]));
+
+  const room =
+    maxLength === undefined
+      ? Infinity
+      : maxLength - (before ? ELLIPSIS.length : 0);
+  if (excerpt.length > room) {
+    const cut = excerpt.slice(0, Math.max(room - ELLIPSIS.length, 0));
+    const lastSpace = cut.search(/\s\S*$/);
+    excerpt = `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s\p{P}]+$/u, "")}${ELLIPSIS}`;
+  } else if (last < sentences.length - 1 && !/(\.\.\.|…)$/.test(excerpt)) {
+    excerpt = excerpt.replace(/\.$/, ELLIPSIS);
+  }
+  return before ? `${ELLIPSIS}${excerpt}` : excerpt;
+}
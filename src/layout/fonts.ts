@@ -0,0 +1,17 @@
+import type { FontWeight } from "@canva/design";
+
+/**
+ * The CSS `font-weight` of each of Canva's font weights, for drawing text the way Canva
+ * would, such as in previews and images.
+ */
+export const CSS_FONT_WEIGHTS: Record<FontWeight, number> = {
+  thin: 100,
+  extralight: 200,
+  light: 300,
+  normal: 400,
+  medium: 500,
+  semibold: 600,
+  bold: 700,
+  ultrabold: 800,
+  heavy: 900,
+};
@@ -0,0 +1,108 @@
+import type { Bounds, InlineFormatting, RichtextRange } from "@canva/design";
+
+// The tokens designers can put in their own layouts, written like `{{quote}}`
+export const PLACEHOLDER_TOKENS = [
+  "quote",
+  "client",
+  "stars",
+  "staff",
+  "date",
+  "branch",
+] as const;
+
+export type PlaceholderToken = (typeof PLACEHOLDER_TOKENS)[number];
+
+// The text each token is replaced with. Empty for parts a review doesn't have.
+export type PlaceholderValues = Record<PlaceholderToken, string>;
+
+export type Placeholder = {
+  token: PlaceholderToken;
+  bounds: Bounds;
+};
+
+// Spaces inside the braces and any letter case are allowed, since designers type these
+const PLACEHOLDER = /\{\{\s*([a-z]+)\s*\}\}/gi;
+
+const toToken = (name: string): PlaceholderToken | undefined =>
+  PLACEHOLDER_TOKENS.find((token) => token === name.toLowerCase());
+
+/**
+ * Finds the placeholders in a piece of text. Text in braces that isn't a known token is
+ * left alone.
+ * @returns The token and position of each placeholder, in order.
+ */
+export function findPlaceholders(text: string): Placeholder[] {
+  return Array.from(text.matchAll(PLACEHOLDER)).flatMap((match) => {
+    const token = toToken(match[1]);
+    return token
+      ? [
+          {
+            token,
+            bounds: { index: match.index || 0, length: match[0].length },
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Replaces the placeholders in a piece of plain text with a review's values.
+ */
+export function fillPlaceholders(
+  text: string,
+  values: PlaceholderValues,
+): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const token = toToken(name);
+    return token ? values[token] : placeholder;
+  });
+}
+
+// The inline formatting at a position in a range, so replaced text looks like the
+// placeholder it replaces
+const formattingAt = (
+  range: RichtextRange,
+  index: number,
+): InlineFormatting | undefined => {
+  let start = 0;
+  for (const { text, formatting } of range.readTextRegions()) {
+    if (index < start + text.length) {
+      if (!formatting) {
+        return undefined;
+      }
+      const { color, fontWeight, fontStyle, decoration, strikethrough, link } =
+        formatting;
+      const inline = {
+        color,
+        fontWeight,
+        fontStyle,
+        decoration,
+        strikethrough,
+        link,
+      };
+      // Unset properties are left out, so they aren't reset
+      return Object.fromEntries(
+        Object.entries(inline).filter(([, value]) => value !== undefined),
+      ) as InlineFormatting;
+    }
+    start += text.length;
+  }
+  return undefined;
+};
+
+/**
+ * Replaces the placeholders in a range of rich text with a review's values, keeping the
+ * formatting of each placeholder.
+ * @returns The number of placeholders replaced.
+ */
+export function fillRichtextPlaceholders(
+  range: RichtextRange,
+  values: PlaceholderValues,
+): number {
+  const placeholders = findPlaceholders(range.readPlaintext());
+  // From the end, so replacing a placeholder doesn't move the ones still to be replaced
+  [...placeholders].reverse().forEach(({ token, bounds }) => {
+    range.replaceText(bounds, values[token], formattingAt(range, bounds.index));
+  });
+  return placeholders.length;
+}
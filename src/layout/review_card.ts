@@ -0,0 +1,377 @@
+import type {
+  GroupContentAtPoint,
+  GroupElementAtPoint,
+  PageDimensions,
+  RichtextElementAtPoint,
+  ShapeElementAtPoint,
+  TextElementAtPoint,
+} from "@canva/design";
+import { DEFAULT_STAR_STYLE, MAX_RATING } from "../models";
+import type {
+  TemplateBackground,
+  TemplateLine,
+  TestimonialTemplate,
+} from "../templates";
+import { layoutStarRating } from "./star_rating";
+
+/**
+ * The text that makes up a review card, already formatted and translated.
+ */
+export type ReviewCardContent = {
+  heading: string;
+  // Omitted for reviews that only have a rating.
+  quote?: string;
+  // The rating as text, for text that can't hold shapes
+  stars: string;
+  // The rating out of five, drawn as stars where the card can hold shapes. Not set for
+  // reviews inserted before ratings were drawn.
+  rating?: number;
+  name: string;
+  // Secondary details, such as the staff member and date.
+  details?: string;
+};
+
+/**
+ * A laid out review card, ready to add to the design.
+ */
+export type ReviewCardElement =
+  | GroupElementAtPoint
+  | TextElementAtPoint
+  | ShapeElementAtPoint;
+
+// Template styles are defined for text this wide and scaled to the actual width
+const BASE_WIDTH = 1000;
+// Used when the design has no fixed page size, such as a whiteboard
+export const DEFAULT_PAGE: PageDimensions = { width: 1080, height: 1080 };
+// Rough text metrics used to predict how many lines a paragraph wraps onto
+const AVERAGE_CHAR_WIDTH_EM = 0.5;
+export const LINE_HEIGHT_EM = 1.4;
+const MIN_FONT_SIZE = 1;
+const MAX_FONT_SIZE = 100;
+const MAX_STROKE_WEIGHT = 100;
+// How much of the page's height a card fitted to the page may fill
+const MAX_PAGE_FILL = 0.9;
+// How far a quote fitted to the page may shrink, relative to the template's size
+const MIN_QUOTE_SCALE = 0.4;
+const QUOTE_SCALE_STEP = 0.05;
+
+/**
+ * Returns the height of a block of text wrapped to a width, in the same units as the
+ * font size.
+ */
+export type TextMeasurer = (
+  text: string,
+  fontSize: number,
+  width: number,
+  style: Pick<TextElementAtPoint, "fontWeight" | "fontStyle">,
+) => number;
+
+/**
+ * Estimates the height of a block of wrapped text. Canva sizes text boxes itself, so this
+ * is only used to stack the lines without overlapping.
+ */
+export function estimateTextHeight(
+  text: string,
+  fontSize: number,
+  width: number,
+): number {
+  const charsPerLine = Math.max(
+    1,
+    Math.floor(width / (fontSize * AVERAGE_CHAR_WIDTH_EM)),
+  );
+  const lines = text
+    .split("\n")
+    .reduce(
+      (total, paragraph) =>
+        total + Math.max(1, Math.ceil(paragraph.length / charsPerLine)),
+      0,
+    );
+  return lines * fontSize * LINE_HEIGHT_EM;
+}
+
+/**
+ * Returns the color of a template's star rating, which every template uses as its accent.
+ */
+export const accentColorOf = (
+  template: TestimonialTemplate,
+): string | undefined =>
+  template.lines.find((line) => "slot" in line && line.slot === "stars")?.color;
+
+/**
+ * Returns the width the text of a card takes up on a page, and how much the template's
+ * sizes are scaled to fit that width.
+ */
+export const textBoxOf = (
+  template: TestimonialTemplate,
+  page: PageDimensions,
+) => {
+  const width = Math.round(page.width * template.widthRatio);
+  return { width, scale: width / BASE_WIDTH };
+};
+
+export const clampFontSize = (fontSize: number) =>
+  Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, Math.round(fontSize)));
+
+/**
+ * Returns the text a line of a template shows for a review, or `undefined` if the line is
+ * left out.
+ */
+export const textOf = (
+  line: TemplateLine,
+  content: ReviewCardContent,
+): string | undefined => {
+  if ("text" in line) {
+    return !line.requires || content[line.requires] ? line.text : undefined;
+  }
+  const text = content[line.slot];
+  return text ? `${line.before || ""}${text}${line.after || ""}` : undefined;
+};
+
+const rectangle = (
+  background: TemplateBackground,
+  { width, height }: PageDimensions,
+  scale: number,
+): ShapeElementAtPoint => ({
+  type: "shape",
+  viewBox: { top: 0, left: 0, width, height },
+  paths: [
+    {
+      d: `M 0 0 H ${width} V ${height} H 0 Z`,
+      fill: { color: background.color },
+      stroke: background.border && {
+        weight: Math.min(
+          MAX_STROKE_WEIGHT,
+          Math.max(1, Math.round(background.border.weight * scale)),
+        ),
+        color: background.border.color,
+        strokeAlign: "inset",
+      },
+    },
+  ],
+  top: 0,
+  left: 0,
+  width,
+  height,
+});
+
+type CardText = TextElementAtPoint | RichtextElementAtPoint;
+type CardContent = CardText | ShapeElementAtPoint;
+
+const moveBy = <T extends CardContent>(
+  elements: T[],
+  { top, left }: { top: number; left: number },
+): T[] =>
+  elements.map((element) => ({
+    ...element,
+    top: element.top + top,
+    left: element.left + left,
+  }));
+
+/**
+ * Lays out a review with a template, as a group of text elements each with its own
+ * style, stacked from top to bottom on an optional background and centered on the page.
+ * A card with a single line of text and no background is laid out as a text element,
+ * since a group needs at least two elements.
+ * @param content - The text of each line. Lines without text are left out.
+ * @param template - The styles and order of the lines, and the background.
+ * @param page - The dimensions of the page the card is added to, if it has any.
+ * @param measure - Measures each line. Text added to the design is sized by Canva, so
+ * the estimate is close enough, but the card can be measured exactly when it's drawn by
+ * the app.
+ */
+export function layoutReviewCard(
+  content: ReviewCardContent,
+  template: TestimonialTemplate,
+  page: PageDimensions = DEFAULT_PAGE,
+  measure: TextMeasurer = estimateTextHeight,
+): ReviewCardElement {
+  const { lines, height } = stackLines(content, template, page, measure);
+  return placeCardText(lines, height, template, page);
+}
+
+/**
+ * Shrinks the quote of a template until a card fits on the page, so long reviews aren't
+ * laid out taller than the page. Short reviews keep the template's size.
+ * @returns The template with the quote's font size adjusted, or the template itself if
+ * the card already fits.
+ */
+export function fitQuoteToPage(
+  content: ReviewCardContent,
+  template: TestimonialTemplate,
+  page: PageDimensions = DEFAULT_PAGE,
+): TestimonialTemplate {
+  const { scale } = textBoxOf(template, page);
+  const padding = template.background?.fillPage
+    ? 0
+    : (template.background?.padding || 0) * scale * 2;
+  const maxHeight = page.height * MAX_PAGE_FILL - padding;
+  const withQuoteScale = (quoteScale: number): TestimonialTemplate => ({
+    ...template,
+    lines: template.lines.map((line) =>
+      "slot" in line && line.slot === "quote"
+        ? { ...line, fontSize: line.fontSize * quoteScale }
+        : line,
+    ),
+  });
+
+  const steps = Math.round((1 - MIN_QUOTE_SCALE) / QUOTE_SCALE_STEP);
+  let fitted = template;
+  for (
+    let step = 1;
+    step <= steps &&
+    stackLines(content, fitted, page, estimateTextHeight).height > maxHeight;
+    step++
+  ) {
+    fitted = withQuoteScale(1 - step * QUOTE_SCALE_STEP);
+  }
+  return fitted;
+}
+
+// A star rating drawn as a shape, in place of a line of text as tall as the stars. The
+// stars shrink if the row would be wider than the text.
+const starRatingLine = (
+  rating: number,
+  line: TemplateLine,
+  template: TestimonialTemplate,
+  width: number,
+  scale: number,
+) => {
+  const style = template.stars || DEFAULT_STAR_STYLE;
+  const starSize = Math.min(
+    line.fontSize * scale * style.size,
+    width / (MAX_RATING + style.spacing * (MAX_RATING - 1)),
+  );
+  const stars = layoutStarRating(rating, {
+    ...style,
+    color: line.color,
+    starSize,
+  });
+  const height = starSize * LINE_HEIGHT_EM;
+  return {
+    stars: {
+      ...stars,
+      left:
+        template.textAlign === "center"
+          ? Math.round((width - stars.width) / 2)
+          : 0,
+    },
+    offset: (height - stars.height) / 2,
+    height,
+  };
+};
+
+// Lays out the text of a card from the top left, one element per line
+const stackLines = (
+  content: ReviewCardContent,
+  template: TestimonialTemplate,
+  page: PageDimensions,
+  measure: TextMeasurer,
+) => {
+  const { width, scale } = textBoxOf(template, page);
+  const lines: (TextElementAtPoint | ShapeElementAtPoint)[] = [];
+  let y = 0;
+
+  template.lines.forEach((line) => {
+    const text = textOf(line, content);
+    if (!text) {
+      return;
+    }
+
+    const { fontSize, fontRef, fontWeight, fontStyle, color, marginTop } = line;
+    const scaledFontSize = clampFontSize(fontSize * scale);
+    if (lines.length > 0) {
+      y = Math.max(0, y + marginTop * scale);
+    }
+
+    if ("slot" in line && line.slot === "stars" && content.rating != null) {
+      const { stars, offset, height } = starRatingLine(
+        content.rating,
+        line,
+        template,
+        width,
+        scale,
+      );
+      lines.push({ ...stars, top: Math.round(y + offset) });
+      y += height;
+      return;
+    }
+
+    lines.push({
+      type: "text",
+      children: [text],
+      fontSize: scaledFontSize,
+      ...(fontRef && { fontRef }),
+      fontWeight,
+      fontStyle,
+      color,
+      textAlign: template.textAlign,
+      top: Math.round(y),
+      left: 0,
+      width,
+    });
+    y += measure(text, scaledFontSize, width, { fontWeight, fontStyle });
+  });
+
+  return { lines, height: Math.round(y) };
+};
+
+/**
+ * Puts the text of a card on the template's background and centers the card on the page.
+ * A card with a single element is returned as that element, since a group needs at least
+ * two elements.
+ * @param texts - The text of the card, laid out from the top left.
+ * @param textHeight - The height of the text.
+ * @param template - The template the text was laid out with.
+ * @param page - The dimensions of the page the card is added to.
+ */
+export function placeCardText<T extends CardContent>(
+  texts: T[],
+  textHeight: number,
+  template: TestimonialTemplate,
+  page: PageDimensions,
+): GroupElementAtPoint | T {
+  const { width, scale } = textBoxOf(template, page);
+  const { background } = template;
+  if (background?.fillPage) {
+    // The group covers the page, with the text centered on it
+    const offset = {
+      top: Math.round(Math.max(0, (page.height - textHeight) / 2)),
+      left: Math.round((page.width - width) / 2),
+    };
+    return {
+      type: "group",
+      children: [rectangle(background, page, scale), ...moveBy(texts, offset)],
+      top: 0,
+      left: 0,
+      width: page.width,
+      height: "auto",
+    };
+  }
+
+  const padding = background ? Math.round(background.padding * scale) : 0;
+  const card = {
+    width: width + padding * 2,
+    height: textHeight + padding * 2,
+  };
+  const children: GroupContentAtPoint[] = background
+    ? [
+        rectangle(background, card, scale),
+        ...moveBy(texts, { top: padding, left: padding }),
+      ]
+    : texts;
+  const position = {
+    top: Math.round(Math.max(0, (page.height - card.height) / 2)),
+    left: Math.round((page.width - card.width) / 2),
+  };
+
+  if (children.length === 1) {
+    return moveBy(texts, position)[0];
+  }
+  return {
+    type: "group",
+    children,
+    ...position,
+    width: card.width,
+    height: "auto",
+  };
+}
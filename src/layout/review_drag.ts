@@ -0,0 +1,44 @@
+import type { ImageDragConfig, ImageRef, PageDimensions } from "@canva/design";
+import type { TestimonialTemplate } from "../templates";
+import type { CardImage } from "./card_image";
+import { placeCardImage } from "./card_image";
+import type { ReviewCardContent } from "./review_card";
+
+// The width of the image shown under the cursor while dragging, in pixels
+const DRAG_PREVIEW_WIDTH = 240;
+
+/**
+ * Describes a review dragged into the design. A drag can only carry a single element, so
+ * the review is dragged as an image of its card drawn with the template, whatever format
+ * it's inserted in. The image is dropped at the size it's inserted at, and the full-size
+ * image is only drawn and uploaded once the review is dropped.
+ * @param content - The text of each line of the card.
+ * @param template - The template to draw the card with.
+ * @param page - The page the card is dropped on.
+ * @param options - The width of the full-size image in pixels, and how to draw and upload
+ * the image.
+ */
+export function reviewImageDragConfig(
+  content: ReviewCardContent,
+  template: TestimonialTemplate,
+  page: PageDimensions,
+  {
+    width,
+    render,
+    upload,
+  }: {
+    width: number;
+    render: (width: number) => CardImage;
+    upload: (image: CardImage) => Promise<{ ref: ImageRef }>;
+  },
+): ImageDragConfig {
+  const preview = render(DRAG_PREVIEW_WIDTH);
+  const fullSize = placeCardImage(preview, content, template, page);
+  return {
+    type: "image",
+    previewUrl: preview.dataUrl,
+    previewSize: { width: preview.width, height: preview.height },
+    fullSize: { width: fullSize.width, height: fullSize.height },
+    resolveImageRef: () => upload(render(width)),
+  };
+}
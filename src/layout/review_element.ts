@@ -0,0 +1,72 @@
+import type {
+  AppElementRendererOutput,
+  PageDimensions,
+  Placement,
+} from "@canva/design";
+import type { StyleProfile } from "../models";
+import { applyBrandStyle, getTemplate } from "../templates";
+import type { ReviewCardContent } from "./review_card";
+import { fitQuoteToPage, layoutReviewCard } from "./review_card";
+import { layoutReviewRichtext } from "./review_richtext";
+
+/**
+ * Everything needed to draw a review inserted as an app element. The review's text is
+ * kept with the element, so it can be redrawn without reconnecting to the salon platform.
+ */
+export type ReviewElementData = {
+  // Identifies the review the element shows
+  platform: string;
+  reviewId: string;
+  content: ReviewCardContent;
+  templateId: string;
+  format: "text" | "richtext";
+  // Highlighted in the quote of rich text reviews
+  keywords: string[];
+  style: StyleProfile;
+  // The page the review was laid out for, which sets the size of its text
+  page: PageDimensions;
+  // Whether long quotes shrink to fit the page. Not set for reviews inserted before
+  // quotes could be fitted.
+  fitToPage?: boolean;
+};
+
+const layoutOf = ({
+  content,
+  templateId,
+  format,
+  keywords,
+  style,
+  page,
+  fitToPage,
+}: ReviewElementData) => {
+  const styled = applyBrandStyle(getTemplate(templateId), style);
+  const template = fitToPage ? fitQuoteToPage(content, styled, page) : styled;
+  return format === "richtext"
+    ? layoutReviewRichtext(content, template, page, { keywords })
+    : layoutReviewCard(content, template, page);
+};
+
+/**
+ * Draws a review app element. Canva calls this whenever the element's data changes.
+ * @returns The elements of the review card, positioned from the element's top left.
+ */
+export function renderReviewElement(
+  data: ReviewElementData,
+): AppElementRendererOutput {
+  const card = layoutOf(data);
+  return card.type === "group" ? card.children : [{ ...card, top: 0, left: 0 }];
+}
+
+/**
+ * Returns where a newly added review app element goes, so it's centered on the page like
+ * a review inserted as plain text.
+ */
+export function placementOf(data: ReviewElementData): Placement {
+  const card = layoutOf(data);
+  return {
+    top: card.top,
+    left: card.left,
+    width: typeof card.width === "number" ? card.width : data.page.width,
+    height: "auto",
+  };
+}
@@ -0,0 +1,141 @@
+import type {
+  Bounds,
+  GroupElementAtPoint,
+  InlineFormatting,
+  PageDimensions,
+  RichtextElementAtPoint,
+} from "@canva/design";
+import { createRichtextRange } from "@canva/design";
+import type { TemplateLine, TestimonialTemplate } from "../templates";
+import type { ReviewCardContent } from "./review_card";
+import {
+  accentColorOf,
+  clampFontSize,
+  DEFAULT_PAGE,
+  estimateTextHeight,
+  LINE_HEIGHT_EM,
+  placeCardText,
+  textBoxOf,
+  textOf,
+} from "./review_card";
+
+/**
+ * A review laid out as one rich text element, on its own or in a group with the
+ * template's background.
+ */
+export type ReviewRichtextElement =
+  | GroupElementAtPoint
+  | RichtextElementAtPoint;
+
+type LayoutReviewRichtextOptions = {
+  // Words and phrases to highlight in the quote, matched case-insensitively
+  keywords?: string[];
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Finds whole-word matches of keywords in a piece of text, so "cut" matches "Cut" but
+ * not "haircut".
+ * @param text - The text to search.
+ * @param keywords - The words and phrases to find. Blank keywords are ignored.
+ * @param options - Whether case must match too, such as for names.
+ * @returns The position of each match, in order. Where keywords overlap, the longest
+ * match wins.
+ */
+export function findKeywords(
+  text: string,
+  keywords: string[],
+  { caseSensitive = false }: { caseSensitive?: boolean } = {},
+): Bounds[] {
+  const patterns = keywords
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  if (patterns.length === 0) {
+    return [];
+  }
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${patterns.join("|")})(?![\\p{L}\\p{N}])`,
+    caseSensitive ? "gu" : "giu",
+  );
+  return Array.from(text.matchAll(pattern), (match) => ({
+    index: match.index || 0,
+    length: match[0].length,
+  }));
+}
+
+// Rich text is edited as one piece, so parts of the review are set apart by their style.
+// The template's own style wins where it has one.
+const inlineFormattingOf = (line: TemplateLine): InlineFormatting => {
+  const slot = "slot" in line ? line.slot : undefined;
+  return {
+    color: line.color,
+    fontWeight: line.fontWeight || (slot === "name" ? "bold" : undefined),
+    fontStyle: line.fontStyle || (slot === "quote" ? "italic" : undefined),
+  };
+};
+
+/**
+ * Lays out a review with a template as a single rich text element, with a paragraph for
+ * each line in the line's style. The client's name is bold and the quote italic unless
+ * the template styles them otherwise, and keywords in the quote are highlighted in bold,
+ * in the template's accent color.
+ * @param content - The text of each line. Lines without text are left out.
+ * @param template - The styles and order of the lines, and the background. The spacing
+ * between lines isn't kept, since rich text has no spacing between paragraphs.
+ * @param page - The dimensions of the page the review is added to, if it has any.
+ * @param options - The keywords to highlight.
+ */
+export function layoutReviewRichtext(
+  content: ReviewCardContent,
+  template: TestimonialTemplate,
+  page: PageDimensions = DEFAULT_PAGE,
+  { keywords = [] }: LayoutReviewRichtextOptions = {},
+): ReviewRichtextElement {
+  const { width, scale } = textBoxOf(template, page);
+  const range = createRichtextRange();
+  const highlight: InlineFormatting = {
+    fontWeight: "bold",
+    color: accentColorOf(template),
+  };
+  let height = 0;
+  let hasText = false;
+
+  template.lines.forEach((line) => {
+    const text = textOf(line, content);
+    if (!text) {
+      return;
+    }
+
+    const fontSize = clampFontSize(line.fontSize * scale);
+    if (hasText) {
+      range.appendText("\n");
+    }
+    const { bounds } = range.appendText(text, inlineFormattingOf(line));
+    range.formatParagraph(bounds, {
+      fontSize,
+      textAlign: template.textAlign,
+      lineHeightEm: LINE_HEIGHT_EM,
+      ...(line.fontRef && { fontRef: line.fontRef }),
+    });
+    if ("slot" in line && line.slot === "quote") {
+      findKeywords(text, keywords).forEach(({ index, length }) =>
+        range.formatText({ index: bounds.index + index, length }, highlight),
+      );
+    }
+
+    hasText = true;
+    height += estimateTextHeight(text, fontSize, width);
+  });
+
+  return placeCardText(
+    [{ type: "richtext", range, top: 0, left: 0, width }],
+    Math.round(height),
+    template,
+    page,
+  );
+}
@@ -0,0 +1,146 @@
+import type { Cell, TableElement } from "@canva/design";
+import { MAX_CELL_COUNT, TableWrapper } from "../../utils/table_wrapper";
+
+export type ReviewTableColumn =
+  | "client"
+  | "rating"
+  | "date"
+  | "staff"
+  | "quote";
+
+/**
+ * Every column a review table can have, in the order they're shown.
+ */
+export const REVIEW_TABLE_COLUMNS: ReviewTableColumn[] = [
+  "client",
+  "rating",
+  "date",
+  "staff",
+  "quote",
+];
+
+/**
+ * The text of each cell in a review's row, already formatted and translated. Empty
+ * cells are left blank.
+ */
+export type ReviewTableRow = Record<ReviewTableColumn, string | undefined>;
+
+/**
+ * What to do when the reviews don't fit in a single table:
+ * - `split`: keep every column and spread the reviews over several tables.
+ * - `reduce-columns`: leave out the least important columns until the reviews fit, and
+ *   only split if they still don't fit with a single column.
+ */
+export type TableOverflow = "split" | "reduce-columns";
+
+export type ReviewTablePlan = {
+  columns: ReviewTableColumn[];
+  // Columns left out to fit the reviews into fewer tables
+  droppedColumns: ReviewTableColumn[];
+  // The number of reviews in each table, not counting the header row
+  rowsPerTable: number;
+  tableCount: number;
+};
+
+// The order columns are left out in, from the least important
+const DROP_ORDER: ReviewTableColumn[] = [
+  "staff",
+  "date",
+  "rating",
+  "quote",
+  "client",
+];
+
+const HEADER_ATTRIBUTES: Cell["attributes"] = {
+  backgroundColor: "#1f1f1f",
+  color: "#ffffff",
+  fontWeight: "bold",
+};
+
+const COLUMN_ATTRIBUTES: Partial<
+  Record<ReviewTableColumn, Cell["attributes"]>
+> = {
+  client: { fontWeight: "bold" },
+  rating: { color: "#f3c117" },
+  quote: { fontStyle: "italic" },
+};
+
+/**
+ * Works out how to fit reviews into tables without going over Canva's cell limit. Each
+ * table has a header row, which counts towards the limit.
+ * @param reviewCount - The number of reviews to put in the tables.
+ * @param columns - The columns the user asked for, in the order they're shown.
+ * @param overflow - What to do if the reviews don't fit in one table.
+ */
+export function planReviewTables(
+  reviewCount: number,
+  columns: ReviewTableColumn[],
+  overflow: TableOverflow,
+): ReviewTablePlan {
+  if (columns.length === 0) {
+    throw new Error("A review table needs at least one column.");
+  }
+
+  let kept = columns;
+  if (overflow === "reduce-columns") {
+    for (const column of DROP_ORDER) {
+      if ((reviewCount + 1) * kept.length <= MAX_CELL_COUNT) {
+        break;
+      }
+      if (kept.length > 1) {
+        kept = kept.filter((keptColumn) => keptColumn !== column);
+      }
+    }
+  }
+
+  const rowsPerTable = Math.floor(MAX_CELL_COUNT / kept.length) - 1;
+  return {
+    columns: kept,
+    droppedColumns: columns.filter((column) => !kept.includes(column)),
+    rowsPerTable,
+    tableCount: Math.ceil(reviewCount / rowsPerTable),
+  };
+}
+
+/**
+ * Builds the tables for a set of reviews, with a styled header row at the top of each.
+ * @param rows - The text of each review's row, in the order they're listed.
+ * @param headers - The text of each column's header.
+ * @param plan - The columns and table sizes, from {@link planReviewTables}.
+ */
+export function layoutReviewTables(
+  rows: ReviewTableRow[],
+  headers: Record<ReviewTableColumn, string>,
+  plan: ReviewTablePlan,
+): TableElement[] {
+  const tables: TableElement[] = [];
+
+  for (let start = 0; start < rows.length; start += plan.rowsPerTable) {
+    const tableRows = rows.slice(start, start + plan.rowsPerTable);
+    const table = TableWrapper.create(
+      tableRows.length + 1,
+      plan.columns.length,
+    );
+
+    plan.columns.forEach((column, columnIndex) => {
+      table.setCellDetails(1, columnIndex + 1, {
+        type: "string",
+        value: headers[column],
+        attributes: HEADER_ATTRIBUTES,
+      });
+      tableRows.forEach((row, rowIndex) => {
+        const value = row[column];
+        table.setCellDetails(
+          rowIndex + 2,
+          columnIndex + 1,
+          value
+            ? { type: "string", value, attributes: COLUMN_ATTRIBUTES[column] }
+            : { type: "empty" },
+        );
+      });
+    });
+    tables.push(table.toElement());
+  }
+
+  return tables;
+}
@@ -0,0 +1,141 @@
+import type { ShapeElementAtPoint, ShapePath } from "@canva/design";
+import type { StarStyle } from "../models";
+import { MAX_RATING } from "../models";
+
+/**
+ * How a star rating is drawn, in pixels on the page.
+ */
+export type StarRatingOptions = StarStyle & {
+  // The color of the part of the rating the review reaches
+  color: string;
+  // The width and height of each star
+  starSize: number;
+};
+
+// The size of the points of a star, relative to its outer radius, for a regular star
+const STAR_INNER_RADIUS = 0.382;
+// The thinnest outline Canva draws, and the thickest it accepts
+const MIN_OUTLINE_WEIGHT = 1;
+const MAX_OUTLINE_WEIGHT = 100;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// The corners of a five-pointed star pointing up, clockwise from the top
+const starPoints = (centerX: number, centerY: number, radius: number) =>
+  Array.from({ length: 10 }, (_, point) => {
+    const pointRadius = point % 2 === 0 ? radius : radius * STAR_INNER_RADIUS;
+    const angle = -Math.PI / 2 + (point * Math.PI) / 5;
+    return [
+      round(centerX + pointRadius * Math.cos(angle)),
+      round(centerY + pointRadius * Math.sin(angle)),
+    ];
+  });
+
+const pathOf = (points: number[][]) =>
+  `M ${points.map(([x, y]) => `${x} ${y}`).join(" L ")} Z`;
+
+/**
+ * Returns the outline of a star as a path, for a star centered on a point.
+ * @param half - Returns just the left half of the star, for half star ratings. The top
+ * point and the inner corner at the bottom are on the star's center line, so the left
+ * half is exactly the corners from the bottom round to the top.
+ */
+export function starPath(
+  centerX: number,
+  centerY: number,
+  radius: number,
+  half = false,
+): string {
+  const points = starPoints(centerX, centerY, radius);
+  return pathOf(half ? [...points.slice(5), points[0]] : points);
+}
+
+/**
+ * Rounds a rating to the nearest half star, within the rating scale.
+ */
+export function roundToHalfStar(rating: number): number {
+  return Math.min(MAX_RATING, Math.max(0, Math.round(rating * 2) / 2));
+}
+
+/**
+ * Writes a rating as star characters, with empty stars for the rest of the scale, for
+ * places a rating can only be text. Half stars are rounded up, since there's no half
+ * star character every font has. Unrated reviews have no stars at all.
+ */
+export function formatStars(rating: number | undefined): string {
+  if (rating === undefined) {
+    return "";
+  }
+  const filled = Math.ceil(roundToHalfStar(rating));
+  return "★".repeat(filled) + "☆".repeat(MAX_RATING - filled);
+}
+
+/**
+ * Draws a star rating as a single shape, with a star for each point on the rating scale.
+ * Stars the rating reaches are filled with the rating's color, a half star is filled on
+ * its left, and the rest are filled with the empty color or left as outlines.
+ * @param rating - The rating, which is rounded to the nearest half star.
+ * @returns The shape, positioned at the top left of the page.
+ */
+export function layoutStarRating(
+  rating: number,
+  {
+    color,
+    starSize,
+    emptyColor,
+    outlineColor,
+    outlineWidth,
+    spacing,
+  }: StarRatingOptions,
+): ShapeElementAtPoint & { width: number; height: number } {
+  const rounded = roundToHalfStar(rating);
+  const gap = starSize * spacing;
+  const width = Math.round(starSize * MAX_RATING + gap * (MAX_RATING - 1));
+  const height = Math.round(starSize);
+  const radius = starSize / 2;
+  const outline = outlineWidth > 0 && {
+    weight: Math.min(
+      MAX_OUTLINE_WEIGHT,
+      Math.max(MIN_OUTLINE_WEIGHT, Math.round(starSize * outlineWidth)),
+    ),
+    color: outlineColor || color,
+    strokeAlign: "inset" as const,
+  };
+
+  const paths: ShapePath[] = [];
+  for (let star = 0; star < MAX_RATING; star++) {
+    const centerX = radius + star * (starSize + gap);
+    const d = starPath(centerX, radius, radius);
+    const filled = star + 1 <= rounded;
+    const halfFilled = !filled && star + 0.5 === rounded;
+    const fillColor = filled ? color : emptyColor;
+
+    // A half star is its empty star, then the filled half, then the outline on top
+    if (fillColor || (outline && !halfFilled)) {
+      paths.push({
+        d,
+        fill: { color: fillColor },
+        ...(outline && !halfFilled && { stroke: outline }),
+      });
+    }
+    if (halfFilled) {
+      paths.push({
+        d: starPath(centerX, radius, radius, true),
+        fill: { color },
+      });
+      if (outline) {
+        paths.push({ d, fill: {}, stroke: outline });
+      }
+    }
+  }
+
+  return {
+    type: "shape",
+    viewBox: { top: 0, left: 0, width, height },
+    paths,
+    top: 0,
+    left: 0,
+    width,
+    height,
+  };
+}
@@ -0,0 +1,131 @@
+import { minimalQuote } from "../../templates/minimal_quote";
+import { bigStarHero } from "../../templates/big_star_hero";
+import { placeCardImage, renderCardImage, wrapText } from "../card_image";
+
+describe("wrapText", () => {
+  // Every character is 10 wide
+  const measureWidth = (text: string) => text.length * 10;
+
+  it("breaks between words", () => {
+    expect(wrapText("Loved my new colour", 100, measureWidth)).toEqual([
+      "Loved my",
+      "new colour",
+    ]);
+  });
+
+  it("keeps line breaks", () => {
+    expect(wrapText("Loved it\nThanks", 200, measureWidth)).toEqual([
+      "Loved it",
+      "Thanks",
+    ]);
+  });
+
+  it("breaks words that don't fit on a line of their own", () => {
+    expect(wrapText("Wow fantastically", 50, measureWidth)).toEqual([
+      "Wow",
+      "fanta",
+      "stica",
+      "lly",
+    ]);
+  });
+});
+
+describe("placeCardImage", () => {
+  const content = {
+    heading: "CLIENT REVIEW",
+    quote: "Loved my new colour",
+    stars: "★★★★★",
+    name: "Ada Lovelace",
+  };
+  const image = {
+    dataUrl: "data:image/png;base64,",
+    width: 2400,
+    height: 1200,
+  };
+
+  it("places the image as wide as the card, in the image's proportions", () => {
+    expect(
+      placeCardImage(image, content, minimalQuote, {
+        width: 1000,
+        height: 1000,
+      }),
+    ).toMatchObject({ width: 800, height: 400 });
+  });
+});
+
+describe("renderCardImage", () => {
+  const content = {
+    heading: "CLIENT REVIEW",
+    quote: "Loved my new colour",
+    stars: "★★★★★",
+    name: "Ada Lovelace",
+  };
+  const page = { width: 1000, height: 1000 };
+
+  let context: Record<string, jest.Mock | string | number>;
+
+  beforeEach(() => {
+    context = {
+      scale: jest.fn(),
+      measureText: jest.fn((text: string) => ({ width: text.length * 10 })),
+      fillText: jest.fn(),
+      beginPath: jest.fn(),
+      lineTo: jest.fn(),
+      closePath: jest.fn(),
+      arc: jest.fn(),
+      fill: jest.fn(),
+      stroke: jest.fn(),
+    };
+    jest
+      .spyOn(HTMLCanvasElement.prototype, "getContext")
+      .mockReturnValue(context as unknown as CanvasRenderingContext2D);
+    jest
+      .spyOn(HTMLCanvasElement.prototype, "toDataURL")
+      .mockReturnValue("data:image/png;base64,AAAA");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("draws the card at the preset's width", () => {
+    const image = renderCardImage(content, minimalQuote, page, {
+      width: 2400,
+    });
+
+    expect(image).toMatchObject({
+      dataUrl: "data:image/png;base64,AAAA",
+      width: 2400,
+    });
+    expect(image.height).toBeGreaterThan(0);
+    // The card is 800 wide on the page
+    expect(context.scale).toHaveBeenCalledWith(3, 3);
+  });
+
+  it("draws star ratings as shapes rather than text", () => {
+    renderCardImage(content, bigStarHero, page, { width: 1080 });
+
+    const drawnText = (context.fillText as jest.Mock).mock.calls.map(
+      ([text]) => text,
+    );
+    expect(drawnText.join("")).not.toContain("★");
+    expect(context.fill).toHaveBeenCalledTimes(5);
+  });
+
+  it("makes room for the avatar above the text", () => {
+    const withoutAvatar = renderCardImage(content, minimalQuote, page, {
+      width: 1080,
+    });
+    const withAvatar = renderCardImage(content, minimalQuote, page, {
+      width: 1080,
+      avatar: { initials: "AL" },
+    });
+
+    expect(withAvatar.height).toBeGreaterThan(withoutAvatar.height);
+    expect(context.fillText).toHaveBeenCalledWith(
+      "AL",
+      expect.any(Number),
+      expect.any(Number),
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { addPage } from "@canva/design";
+import { CanvaError } from "@canva/error";
+import {
+  CarouselCancelledError,
+  createCarousel,
+  initialsOf,
+} from "../carousel";
+
+describe("createCarousel", () => {
+  const mockAddPage = jest.mocked(addPage);
+  const sleep = jest.fn(async (_ms: number) => undefined);
+
+  const buildPage = (name: string) => ({
+    title: name,
+    elements: [
+      {
+        type: "text" as const,
+        children: [name],
+        top: 0,
+        left: 0,
+        width: 100,
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    mockAddPage.mockReset();
+    mockAddPage.mockResolvedValue({} as Awaited<ReturnType<typeof addPage>>);
+    sleep.mockClear();
+  });
+
+  it("adds a page for each item, in order, and reports progress", async () => {
+    const onProgress = jest.fn();
+
+    const created = await createCarousel(["Ada", "Grace"], {
+      buildPage,
+      onProgress,
+      sleep,
+    });
+
+    expect(created).toBe(2);
+    expect(mockAddPage.mock.calls.map(([opts]) => opts?.title)).toEqual([
+      "Ada",
+      "Grace",
+    ]);
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { created: 0, total: 2 },
+      { created: 1, total: 2 },
+      { created: 2, total: 2 },
+    ]);
+  });
+
+  it("shortens titles to Canva's limit", async () => {
+    await createCarousel(["x".repeat(300)], { buildPage, sleep });
+
+    expect(mockAddPage.mock.calls[0][0]?.title).toHaveLength(255);
+  });
+
+  it("stops when cancelled, keeping the pages already added", async () => {
+    const controller = new AbortController();
+    mockAddPage.mockImplementation(async () => {
+      controller.abort();
+      return {} as Awaited<ReturnType<typeof addPage>>;
+    });
+
+    const result = createCarousel(["Ada", "Grace", "Hedy"], {
+      buildPage,
+      signal: controller.signal,
+      sleep,
+    });
+
+    await expect(result).rejects.toBeInstanceOf(CarouselCancelledError);
+    await expect(result).rejects.toMatchObject({ created: 1 });
+    expect(mockAddPage).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries pages the editor rejects for being added too quickly", async () => {
+    mockAddPage.mockRejectedValueOnce(
+      new CanvaError({ code: "rate_limited", message: "Slow down" }),
+    );
+
+    await createCarousel(["Ada"], { buildPage, sleep });
+
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(mockAddPage).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry other errors", async () => {
+    const error = new CanvaError({ code: "not_allowed", message: "No" });
+    mockAddPage.mockRejectedValue(error);
+
+    await expect(createCarousel(["Ada"], { buildPage, sleep })).rejects.toBe(
+      error,
+    );
+    expect(mockAddPage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("initialsOf", () => {
+  it("joins the first letter of each name", () => {
+    expect(initialsOf("ada", " Lovelace")).toBe("AL");
+  });
+
+  it("skips missing names", () => {
+    expect(initialsOf("Ada", undefined)).toBe("A");
+    expect(initialsOf(undefined, undefined)).toBe("");
+  });
+});
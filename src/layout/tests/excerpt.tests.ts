@@ -0,0 +1,63 @@
+import { excerptText, pickExcerpt, splitSentences } from "../excerpt";
+
+describe("splitSentences", () => {
+  it("splits at stops and line breaks but not inside numbers or links", () => {
+    const text =
+      "Gave 4.5 stars! Book at salon.com.\nWorth it “every penny.” Really";
+
+    expect(
+      splitSentences(text).map(({ index, length }) =>
+        text.slice(index, index + length),
+      ),
+    ).toEqual([
+      "Gave 4.5 stars!",
+      "Book at salon.com.",
+      "Worth it “every penny.”",
+      "Really",
+    ]);
+  });
+});
+
+describe("pickExcerpt", () => {
+  const review =
+    "I booked in on a Tuesday. The wait was long, but fine. Grace is amazing and I love my colour! Parking was easy.";
+
+  it("keeps reviews that fit whole", () => {
+    expect(pickExcerpt(review, 200)).toEqual({ first: 0, last: 3 });
+  });
+
+  it("picks the sentences that praise the salon", () => {
+    expect(pickExcerpt(review, 60)).toEqual({ first: 2, last: 2 });
+  });
+
+  it("picks the best sentence when none fits", () => {
+    expect(pickExcerpt(review, 10)).toEqual({ first: 2, last: 2 });
+  });
+});
+
+describe("excerptText", () => {
+  const review = "Great cut. Grace is amazing! I'll be back next month.";
+
+  it("marks text left out before and after", () => {
+    expect(excerptText(review, { first: 1, last: 1 })).toBe(
+      "…Grace is amazing!",
+    );
+    expect(excerptText(review, { first: 0, last: 0 })).toBe("Great cut…");
+  });
+
+  it("leaves whole reviews as they are", () => {
+    expect(excerptText(review, { first: 0, last: 2 })).toBe(review);
+  });
+
+  it("cuts long sentences at the last word that fits", () => {
+    expect(excerptText(review, { first: 0, last: 2 }, 25)).toBe(
+      "Great cut. Grace is…",
+    );
+  });
+
+  it("clamps ranges to the review", () => {
+    expect(excerptText(review, { first: 2, last: 9 })).toBe(
+      "…I'll be back next month.",
+    );
+  });
+});
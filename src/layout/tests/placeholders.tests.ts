@@ -0,0 +1,112 @@
+import type {
+  Bounds,
+  InlineFormatting,
+  RichtextRange,
+  TextRegion,
+} from "@canva/design";
+import type { PlaceholderValues } from "../placeholders";
+import {
+  fillPlaceholders,
+  fillRichtextPlaceholders,
+  findPlaceholders,
+} from "../placeholders";
+
+const values: PlaceholderValues = {
+  quote: "Loved my new colour",
+  client: "Ada Lovelace",
+  stars: "★★★★★",
+  staff: "",
+  date: "Sat 1 Jun, 2024",
+  branch: "Soho",
+};
+
+describe("findPlaceholders", () => {
+  it("finds known tokens, allowing spaces and any case", () => {
+    expect(findPlaceholders("{{quote}} by {{ Client }}")).toEqual([
+      { token: "quote", bounds: { index: 0, length: 9 } },
+      { token: "client", bounds: { index: 13, length: 12 } },
+    ]);
+  });
+
+  it("ignores unknown tokens", () => {
+    expect(findPlaceholders("{{price}} {stars}")).toEqual([]);
+  });
+});
+
+describe("fillPlaceholders", () => {
+  it("replaces every placeholder with the review's values", () => {
+    expect(
+      fillPlaceholders(
+        "“{{quote}}” {{stars}} — {{client}}, {{branch}}",
+        values,
+      ),
+    ).toBe("“Loved my new colour” ★★★★★ — Ada Lovelace, Soho");
+  });
+
+  it("empties placeholders for parts the review doesn't have and keeps unknown ones", () => {
+    expect(fillPlaceholders("with {{staff}} {{price}}", values)).toBe(
+      "with  {{price}}",
+    );
+  });
+});
+
+describe("fillRichtextPlaceholders", () => {
+  // Keeps the formatting of each character, and groups them into regions like Canva does
+  const createRange = (initialRegions: TextRegion[]) => {
+    const characters = initialRegions.flatMap(({ text, formatting }) =>
+      [...text].map((character) => ({ character, formatting })),
+    );
+    const readPlaintext = () =>
+      characters.map(({ character }) => character).join("");
+    const readTextRegions = () =>
+      characters.reduce<TextRegion[]>((regions, { character, formatting }) => {
+        const last = regions[regions.length - 1];
+        if (last && last.formatting === formatting) {
+          last.text += character;
+        } else {
+          regions.push({ text: character, formatting });
+        }
+        return regions;
+      }, []);
+    const replaceText = jest.fn(
+      (
+        { index, length }: Bounds,
+        text: string,
+        formatting?: InlineFormatting,
+      ) => {
+        characters.splice(
+          index,
+          length,
+          ...[...text].map((character) => ({ character, formatting })),
+        );
+        return { bounds: { index, length: text.length } };
+      },
+    );
+    return {
+      readPlaintext,
+      readTextRegions,
+      replaceText,
+    } as unknown as RichtextRange & { replaceText: typeof replaceText };
+  };
+
+  it("replaces placeholders from the end, keeping their formatting", () => {
+    const range = createRange([
+      { text: "{{quote}}", formatting: { fontStyle: "italic" } },
+      { text: " — " },
+      { text: "{{client}}", formatting: { fontWeight: "bold" } },
+    ]);
+
+    expect(fillRichtextPlaceholders(range, values)).toBe(2);
+    expect(range.replaceText.mock.calls).toEqual([
+      [{ index: 12, length: 10 }, "Ada Lovelace", { fontWeight: "bold" }],
+      [{ index: 0, length: 9 }, "Loved my new colour", { fontStyle: "italic" }],
+    ]);
+  });
+
+  it("leaves text without placeholders alone", () => {
+    const range = createRange([{ text: "No tokens here" }]);
+
+    expect(fillRichtextPlaceholders(range, values)).toBe(0);
+    expect(range.replaceText).not.toHaveBeenCalled();
+  });
+});
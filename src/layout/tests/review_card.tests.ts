@@ -0,0 +1,289 @@
+import type {
+  GroupElementAtPoint,
+  ShapeElementAtPoint,
+  TextElementAtPoint,
+} from "@canva/design";
+import type { TestimonialTemplate } from "../../templates";
+import type { ReviewCardElement } from "../review_card";
+import {
+  estimateTextHeight,
+  fitQuoteToPage,
+  layoutReviewCard,
+} from "../review_card";
+
+describe("layoutReviewCard", () => {
+  const content = {
+    heading: "CLIENT REVIEW",
+    quote: "Loved my new colour",
+    stars: "★★★★★",
+    name: "Ada Lovelace",
+    details: "Sat 1 Jun, 2024 with Grace Hopper",
+  };
+
+  const template: TestimonialTemplate = {
+    id: "test",
+    name: { defaultMessage: "Test", description: "Test template" },
+    widthRatio: 0.8,
+    textAlign: "center",
+    lines: [
+      {
+        slot: "heading",
+        fontSize: 28,
+        fontWeight: "bold",
+        color: "#8c8c8c",
+        marginTop: 0,
+      },
+      {
+        slot: "quote",
+        before: "“",
+        after: "”",
+        fontSize: 44,
+        fontStyle: "italic",
+        color: "#1f1f1f",
+        marginTop: 32,
+      },
+      { slot: "stars", fontSize: 48, color: "#f3c117", marginTop: 32 },
+      {
+        slot: "name",
+        fontSize: 32,
+        fontWeight: "bold",
+        color: "#1f1f1f",
+        marginTop: 24,
+      },
+      { slot: "details", fontSize: 24, color: "#6f6f6f", marginTop: 8 },
+    ],
+  };
+
+  const asGroup = (card: ReviewCardElement) => {
+    expect(card.type).toBe("group");
+    return card as GroupElementAtPoint;
+  };
+  const textElements = (card: ReviewCardElement) =>
+    asGroup(card).children.filter(
+      (child): child is TextElementAtPoint => child.type === "text",
+    );
+  const textOf = (element: TextElementAtPoint) => element.children[0];
+
+  it("stacks each line as its own text element", () => {
+    const card = layoutReviewCard(content, template, {
+      width: 1000,
+      height: 1000,
+    });
+
+    expect(textElements(card).map(textOf)).toEqual([
+      content.heading,
+      "“Loved my new colour”",
+      content.stars,
+      content.name,
+      content.details,
+    ]);
+    const tops = textElements(card).map((child) => child.top);
+    expect(tops).toEqual([...tops].sort((a, b) => a - b));
+    expect(new Set(tops).size).toBe(tops.length);
+  });
+
+  it("styles each line independently", () => {
+    const card = layoutReviewCard(content, template, {
+      width: 1000,
+      height: 1000,
+    });
+    const [heading, quote, stars, name] = textElements(card);
+
+    expect(heading.fontWeight).toBe("bold");
+    expect(quote.fontStyle).toBe("italic");
+    expect(stars.color).not.toBe(name.color);
+    expect(quote.fontSize).toBeGreaterThan(heading.fontSize || 0);
+  });
+
+  it("leaves out lines without text", () => {
+    const card = layoutReviewCard(
+      { ...content, quote: "", details: undefined },
+      template,
+      { width: 1000, height: 1000 },
+    );
+
+    expect(textElements(card).map(textOf)).toEqual([
+      content.heading,
+      content.stars,
+      content.name,
+    ]);
+  });
+
+  it("centers the card on the page and scales it with the page width", () => {
+    const small = layoutReviewCard(content, template, {
+      width: 500,
+      height: 500,
+    });
+    const large = layoutReviewCard(content, template, {
+      width: 2000,
+      height: 2000,
+    });
+
+    expect(small.left).toBe(50);
+    expect(asGroup(small).width).toBe(400);
+    expect(asGroup(large).width).toBe(1600);
+    expect(textElements(large)[0].fontSize).toBeGreaterThan(
+      textElements(small)[0].fontSize || 0,
+    );
+  });
+
+  it("keeps font sizes within Canva's limits", () => {
+    const card = layoutReviewCard(content, template, {
+      width: 10000,
+      height: 10000,
+    });
+
+    textElements(card).forEach((child) =>
+      expect(child.fontSize).toBeLessThanOrEqual(100),
+    );
+  });
+
+  it("aligns the text as the template says", () => {
+    const card = layoutReviewCard(content, { ...template, textAlign: "start" });
+
+    textElements(card).forEach((child) =>
+      expect(child.textAlign).toBe("start"),
+    );
+  });
+
+  it("shows decorations only alongside the line they belong to", () => {
+    const decorated: TestimonialTemplate = {
+      ...template,
+      lines: [
+        {
+          text: "“",
+          requires: "quote",
+          fontSize: 100,
+          color: "#c9a227",
+          marginTop: 0,
+        },
+        ...template.lines,
+      ],
+    };
+
+    expect(textOf(textElements(layoutReviewCard(content, decorated))[0])).toBe(
+      "“",
+    );
+    expect(
+      textOf(
+        textElements(layoutReviewCard({ ...content, quote: "" }, decorated))[0],
+      ),
+    ).toBe(content.heading);
+  });
+
+  it("draws a padded background behind the text", () => {
+    const card = asGroup(
+      layoutReviewCard(
+        content,
+        {
+          ...template,
+          background: {
+            color: "#ffffff",
+            border: { color: "#e5e5e5", weight: 5 },
+            padding: 50,
+          },
+        },
+        { width: 1000, height: 1000 },
+      ),
+    );
+    const [background, ...lines] = card.children;
+
+    expect(background).toMatchObject({
+      type: "shape",
+      top: 0,
+      left: 0,
+      width: card.width,
+    });
+    expect((background as ShapeElementAtPoint).paths[0]).toMatchObject({
+      fill: { color: "#ffffff" },
+      stroke: { color: "#e5e5e5", weight: 4, strokeAlign: "inset" },
+    });
+    // The text is 800 wide, with 40 of padding on each side
+    expect(card.width).toBe(880);
+    lines.forEach((line) => expect(line.left).toBe(40));
+    expect(lines[0].top).toBe(40);
+  });
+
+  it("covers the page with a full-page background", () => {
+    const card = asGroup(
+      layoutReviewCard(
+        content,
+        {
+          ...template,
+          background: { color: "#2b2b2b", padding: 0, fillPage: true },
+        },
+        { width: 1080, height: 1920 },
+      ),
+    );
+
+    expect(card).toMatchObject({ top: 0, left: 0, width: 1080 });
+    expect(card.children[0]).toMatchObject({
+      type: "shape",
+      width: 1080,
+      height: 1920,
+    });
+    expect(card.children[1].top).toBeGreaterThan(0);
+  });
+
+  it("lays out a single line as a text element, since a group needs two", () => {
+    const card = layoutReviewCard(
+      content,
+      { ...template, lines: [template.lines[3]] },
+      { width: 1000, height: 1000 },
+    );
+
+    expect(card).toMatchObject({
+      type: "text",
+      children: [content.name],
+      left: 100,
+    });
+  });
+
+  it("draws the rating as a row of stars where the card has one", () => {
+    const card = asGroup(
+      layoutReviewCard({ ...content, rating: 4 }, template, {
+        width: 1000,
+        height: 1000,
+      }),
+    );
+    const stars = card.children.find(
+      (child): child is ShapeElementAtPoint => child.type === "shape",
+    );
+
+    expect(textElements(card).map(textOf)).not.toContain(content.stars);
+    expect(stars?.paths).toHaveLength(5);
+    // Centered like the text around it
+    expect(stars && stars.left + Number(stars.width) / 2).toBeCloseTo(400, -1);
+  });
+
+  it("shrinks a long quote until the card fits on the page", () => {
+    const page = { width: 1000, height: 1000 };
+    const long = { ...content, quote: "Loved my new colour. ".repeat(40) };
+    const fitted = fitQuoteToPage(long, template, page);
+    const quoteSize = (card: ReviewCardElement) =>
+      textElements(card)[1].fontSize || 0;
+
+    expect(quoteSize(layoutReviewCard(long, fitted, page))).toBeLessThan(
+      quoteSize(layoutReviewCard(long, template, page)),
+    );
+    // Only the quote shrinks
+    expect(textElements(layoutReviewCard(long, fitted, page))[0].fontSize).toBe(
+      textElements(layoutReviewCard(long, template, page))[0].fontSize,
+    );
+  });
+
+  it("keeps the template's size for quotes that fit", () => {
+    expect(
+      fitQuoteToPage(content, template, { width: 1000, height: 1000 }),
+    ).toBe(template);
+  });
+});
+
+describe("estimateTextHeight", () => {
+  it("grows with the number of wrapped lines", () => {
+    const oneLine = estimateTextHeight("Short", 20, 1000);
+    const wrapped = estimateTextHeight("x".repeat(500), 20, 1000);
+
+    expect(wrapped).toBeGreaterThan(oneLine * 4);
+  });
+});
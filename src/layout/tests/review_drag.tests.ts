@@ -0,0 +1,92 @@
+import { minimalQuote } from "../../templates/minimal_quote";
+import { placeCardImage, renderCardImage } from "../card_image";
+import type { ReviewCardContent } from "../review_card";
+import { reviewImageDragConfig } from "../review_drag";
+
+describe("reviewImageDragConfig", () => {
+  const content: ReviewCardContent = {
+    heading: "CLIENT REVIEW",
+    quote: "Best cut ever",
+    stars: "★★★★★",
+    rating: 5,
+    name: "Ada L.",
+    details: "",
+  };
+  const page = { width: 1000, height: 1000 };
+  const render = (width: number) =>
+    renderCardImage(content, minimalQuote, page, { width });
+
+  beforeEach(() => {
+    const context = {
+      scale: jest.fn(),
+      measureText: jest.fn((text: string) => ({ width: text.length * 10 })),
+      fillText: jest.fn(),
+      beginPath: jest.fn(),
+      lineTo: jest.fn(),
+      closePath: jest.fn(),
+      arc: jest.fn(),
+      fill: jest.fn(),
+      stroke: jest.fn(),
+    };
+    jest
+      .spyOn(HTMLCanvasElement.prototype, "getContext")
+      .mockReturnValue(context as unknown as CanvasRenderingContext2D);
+    jest
+      .spyOn(HTMLCanvasElement.prototype, "toDataURL")
+      .mockImplementation(function (this: HTMLCanvasElement) {
+        return `data:image/png;width=${this.width}`;
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("drops the image that inserting the review adds, at the same size", async () => {
+    const upload = jest.fn().mockResolvedValue({ ref: "ref" });
+    const config = reviewImageDragConfig(content, minimalQuote, page, {
+      width: 1080,
+      render,
+      upload,
+    });
+
+    const inserted = render(1080);
+    const { width, height } = placeCardImage(
+      inserted,
+      content,
+      minimalQuote,
+      page,
+    );
+    expect(config.fullSize).toEqual({ width, height });
+    expect(await config.resolveImageRef()).toEqual({ ref: "ref" });
+    expect(upload).toHaveBeenCalledWith(inserted);
+  });
+
+  it("previews the same card, drawn small", () => {
+    const config = reviewImageDragConfig(content, minimalQuote, page, {
+      width: 1080,
+      render,
+      upload: jest.fn(),
+    });
+
+    const preview = render(240);
+    expect(config).toMatchObject({
+      type: "image",
+      previewUrl: preview.dataUrl,
+      previewSize: { width: 240, height: preview.height },
+    });
+  });
+
+  it("only draws the full-size image once the review is dropped", () => {
+    const renderSpy = jest.fn(render);
+
+    reviewImageDragConfig(content, minimalQuote, page, {
+      width: 1080,
+      render: renderSpy,
+      upload: jest.fn(),
+    });
+
+    expect(renderSpy).toHaveBeenCalledTimes(1);
+    expect(renderSpy).toHaveBeenCalledWith(240);
+  });
+});
@@ -0,0 +1,88 @@
+import type { TextElementAtPoint } from "@canva/design";
+import { DEFAULT_STYLE_PROFILE } from "../../models";
+import { DEFAULT_TEMPLATE } from "../../templates";
+import { fitQuoteToPage, layoutReviewCard } from "../review_card";
+import type { ReviewElementData } from "../review_element";
+import { placementOf, renderReviewElement } from "../review_element";
+
+describe("review app elements", () => {
+  const data: ReviewElementData = {
+    platform: "phorest",
+    reviewId: "r1",
+    content: {
+      heading: "CLIENT REVIEW",
+      quote: "Loved my new colour",
+      stars: "★★★★★",
+      name: "Ada Lovelace",
+    },
+    templateId: DEFAULT_TEMPLATE.id,
+    format: "text",
+    keywords: [],
+    style: DEFAULT_STYLE_PROFILE,
+    page: { width: 1080, height: 1080 },
+  };
+
+  it("draws the card from the element's top left", () => {
+    const card = layoutReviewCard(data.content, DEFAULT_TEMPLATE, data.page);
+
+    expect(renderReviewElement(data)).toEqual(
+      card.type === "group" ? card.children : [],
+    );
+    expect(placementOf(data)).toEqual({
+      top: card.top,
+      left: card.left,
+      width: card.width,
+      height: "auto",
+    });
+  });
+
+  it("draws a single line at the origin", () => {
+    const children = renderReviewElement({
+      ...data,
+      templateId: "minimal-quote",
+      content: { ...data.content, quote: undefined },
+    });
+
+    expect(children).toHaveLength(1);
+    expect(children[0]).toMatchObject({ top: 0, left: 0 });
+  });
+
+  it("applies the saved brand style", () => {
+    const children = renderReviewElement({
+      ...data,
+      style: {
+        primaryColor: "#112233",
+        roles: { quote: "primary", stars: "template", name: "template" },
+      },
+    });
+    const quote = children.find(
+      (child): child is TextElementAtPoint =>
+        child.type === "text" && child.children[0].includes("Loved"),
+    );
+
+    expect(quote?.color).toBe("#112233");
+  });
+
+  it("falls back to the default template for unknown templates", () => {
+    expect(renderReviewElement({ ...data, templateId: "retired" })).toEqual(
+      renderReviewElement(data),
+    );
+  });
+
+  it("shrinks long quotes to fit the page when asked to", () => {
+    const long = {
+      ...data,
+      content: { ...data.content, quote: "Loved it. ".repeat(80) },
+      fitToPage: true,
+    };
+    const card = layoutReviewCard(
+      long.content,
+      fitQuoteToPage(long.content, DEFAULT_TEMPLATE, long.page),
+      long.page,
+    );
+
+    expect(renderReviewElement(long)).toEqual(
+      card.type === "group" ? card.children : [],
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import type { RichtextRange } from "@canva/design";
+import { createRichtextRange } from "@canva/design";
+import type { TestimonialTemplate } from "../../templates";
+import { findKeywords, layoutReviewRichtext } from "../review_richtext";
+
+describe("findKeywords", () => {
+  it("finds whole words regardless of case", () => {
+    expect(findKeywords("Best cut ever, not a haircut", ["CUT"])).toEqual([
+      { index: 5, length: 3 },
+    ]);
+  });
+
+  it("matches case too when asked", () => {
+    expect(
+      findKeywords("Will I come back? I will", ["Will"], {
+        caseSensitive: true,
+      }),
+    ).toEqual([{ index: 0, length: 4 }]);
+  });
+
+  it("prefers the longest of overlapping keywords", () => {
+    expect(
+      findKeywords("Loved the balayage colour", ["balayage colour", "colour"]),
+    ).toEqual([{ index: 10, length: 15 }]);
+  });
+
+  it("treats keywords as plain text and ignores blank ones", () => {
+    expect(findKeywords("Worth it (5/5)", ["(5/5)", "  "])).toEqual([
+      { index: 9, length: 5 },
+    ]);
+  });
+});
+
+describe("layoutReviewRichtext", () => {
+  const template: TestimonialTemplate = {
+    id: "test",
+    name: { id: "test", defaultMessage: "Test" },
+    widthRatio: 0.8,
+    textAlign: "center",
+    lines: [
+      { slot: "quote", fontSize: 48, color: "#1f1f1f", marginTop: 0 },
+      { slot: "stars", fontSize: 40, color: "#f3c117", marginTop: 24 },
+      { slot: "name", fontSize: 28, color: "#6f6f6f", marginTop: 24 },
+    ],
+  };
+  const content = {
+    heading: "CLIENT REVIEW",
+    quote: "Loved my new colour",
+    stars: "★★★★★",
+    name: "Ada Lovelace",
+  };
+
+  let text: string;
+  let range: jest.Mocked<RichtextRange>;
+
+  beforeEach(() => {
+    text = "";
+    range = {
+      appendText: jest.fn((characters: string) => {
+        const bounds = { index: text.length, length: characters.length };
+        text += characters;
+        return { bounds };
+      }),
+      formatParagraph: jest.fn(),
+      formatText: jest.fn(),
+    } as unknown as jest.Mocked<RichtextRange>;
+    jest.mocked(createRichtextRange).mockReturnValue(range);
+  });
+
+  it("adds a paragraph for each line, in the line's style", () => {
+    const element = layoutReviewRichtext(content, template, {
+      width: 1000,
+      height: 1000,
+    });
+
+    expect(text).toBe("Loved my new colour\n★★★★★\nAda Lovelace");
+    expect(range.appendText).toHaveBeenCalledWith("★★★★★", {
+      color: "#f3c117",
+      fontWeight: undefined,
+      fontStyle: undefined,
+    });
+    expect(range.formatParagraph).toHaveBeenCalledWith(
+      { index: 0, length: 19 },
+      expect.objectContaining({ fontSize: 38, textAlign: "center" }),
+    );
+    expect(element).toMatchObject({ type: "richtext", range, width: 800 });
+  });
+
+  it("makes the name bold and the quote italic unless the template styles them", () => {
+    layoutReviewRichtext(content, template);
+
+    expect(range.appendText).toHaveBeenCalledWith(
+      "Loved my new colour",
+      expect.objectContaining({ fontStyle: "italic" }),
+    );
+    expect(range.appendText).toHaveBeenCalledWith(
+      "Ada Lovelace",
+      expect.objectContaining({ fontWeight: "bold" }),
+    );
+  });
+
+  it("highlights keywords in the quote in the accent color", () => {
+    layoutReviewRichtext(content, template, undefined, {
+      keywords: ["colour", "Ada"],
+    });
+
+    expect(range.formatText).toHaveBeenCalledTimes(1);
+    expect(range.formatText).toHaveBeenCalledWith(
+      { index: 13, length: 6 },
+      { fontWeight: "bold", color: "#f3c117" },
+    );
+  });
+
+  it("puts the text on the template's background", () => {
+    const element = layoutReviewRichtext(
+      content,
+      {
+        ...template,
+        background: { color: "#ffffff", padding: 40 },
+      },
+      { width: 1000, height: 1000 },
+    );
+
+    expect(element.type).toBe("group");
+    expect(
+      element.type === "group" && element.children.map((child) => child.type),
+    ).toEqual(["shape", "richtext"]);
+  });
+});
@@ -0,0 +1,111 @@
+import type { Cell, TableElement } from "@canva/design";
+import { MAX_CELL_COUNT } from "../../../utils/table_wrapper";
+import type { ReviewTableRow } from "../review_table";
+import {
+  layoutReviewTables,
+  planReviewTables,
+  REVIEW_TABLE_COLUMNS,
+} from "../review_table";
+
+describe("planReviewTables", () => {
+  it("fits a few reviews into a single table", () => {
+    expect(planReviewTables(10, REVIEW_TABLE_COLUMNS, "split")).toEqual({
+      columns: REVIEW_TABLE_COLUMNS,
+      droppedColumns: [],
+      rowsPerTable: 44,
+      tableCount: 1,
+    });
+  });
+
+  it("splits reviews across tables, repeating the header in each", () => {
+    const plan = planReviewTables(100, REVIEW_TABLE_COLUMNS, "split");
+
+    expect(plan.tableCount).toBe(3);
+    expect((plan.rowsPerTable + 1) * plan.columns.length).toBeLessThanOrEqual(
+      MAX_CELL_COUNT,
+    );
+  });
+
+  it("leaves out the least important columns until the reviews fit", () => {
+    const plan = planReviewTables(60, REVIEW_TABLE_COLUMNS, "reduce-columns");
+
+    expect(plan.columns).toEqual(["client", "rating", "quote"]);
+    expect(plan.droppedColumns).toEqual(["date", "staff"]);
+    expect(plan.tableCount).toBe(1);
+  });
+
+  it("keeps one column and splits if the reviews still don't fit", () => {
+    const plan = planReviewTables(
+      300,
+      ["quote", "client", "staff"],
+      "reduce-columns",
+    );
+
+    expect(plan.columns).toEqual(["client"]);
+    expect(plan.tableCount).toBe(2);
+  });
+
+  it("requires a column", () => {
+    expect(() => planReviewTables(1, [], "split")).toThrow();
+  });
+});
+
+describe("layoutReviewTables", () => {
+  const headers = {
+    client: "Client",
+    rating: "Rating",
+    date: "Date",
+    staff: "Staff",
+    quote: "Review",
+  };
+
+  const row = (index: number): ReviewTableRow => ({
+    client: `Client ${index}`,
+    rating: "★★★★★",
+    date: "Sat 1 Jun, 2024",
+    staff: undefined,
+    quote: "Loved it",
+  });
+
+  const valuesOf = (table: TableElement) =>
+    table.rows.map((tableRow) =>
+      tableRow.cells.map((cell?: Cell | null) =>
+        cell?.type === "string" ? cell.value : "",
+      ),
+    );
+
+  it("adds a styled header row above the reviews", () => {
+    const [table] = layoutReviewTables(
+      [row(1), row(2)],
+      headers,
+      planReviewTables(2, ["client", "staff", "quote"], "split"),
+    );
+
+    expect(valuesOf(table)).toEqual([
+      ["Client", "Staff", "Review"],
+      ["Client 1", "", "Loved it"],
+      ["Client 2", "", "Loved it"],
+    ]);
+    table.rows[0].cells.forEach((cell) =>
+      expect(cell?.attributes).toMatchObject({ fontWeight: "bold" }),
+    );
+  });
+
+  it("splits the rows across the planned tables", () => {
+    const rows = Array.from({ length: 100 }, (_, index) => row(index + 1));
+    const tables = layoutReviewTables(
+      rows,
+      headers,
+      planReviewTables(rows.length, REVIEW_TABLE_COLUMNS, "split"),
+    );
+
+    expect(tables).toHaveLength(3);
+    tables.forEach((table) => {
+      expect(valuesOf(table)[0][0]).toBe("Client");
+      expect(
+        table.rows.length * table.rows[0].cells.length,
+      ).toBeLessThanOrEqual(MAX_CELL_COUNT);
+    });
+    expect(valuesOf(tables[1])[1][0]).toBe("Client 45");
+  });
+});
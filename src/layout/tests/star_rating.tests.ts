@@ -0,0 +1,103 @@
+import type { ShapePath } from "@canva/design";
+import {
+  formatStars,
+  layoutStarRating,
+  roundToHalfStar,
+  starPath,
+} from "../star_rating";
+
+describe("layoutStarRating", () => {
+  const options = {
+    color: "#f3c117",
+    starSize: 100,
+    outlineWidth: 0,
+    size: 1,
+    spacing: 0.2,
+  };
+  const fills = (paths: ShapePath[]) => paths.map(({ fill }) => fill.color);
+
+  it("draws five stars in a row, spaced apart", () => {
+    const stars = layoutStarRating(5, options);
+
+    expect(stars).toMatchObject({ type: "shape", width: 580, height: 100 });
+    expect(stars.viewBox).toEqual({ top: 0, left: 0, width: 580, height: 100 });
+    expect(fills(stars.paths)).toEqual(Array(5).fill("#f3c117"));
+  });
+
+  it("fills the stars the rating doesn't reach with the empty color", () => {
+    const stars = layoutStarRating(3, { ...options, emptyColor: "#e5e5e5" });
+
+    expect(fills(stars.paths)).toEqual([
+      "#f3c117",
+      "#f3c117",
+      "#f3c117",
+      "#e5e5e5",
+      "#e5e5e5",
+    ]);
+  });
+
+  it("outlines empty stars when there's no empty color", () => {
+    const stars = layoutStarRating(4, { ...options, outlineWidth: 0.05 });
+
+    expect(stars.paths).toHaveLength(5);
+    expect(stars.paths[4]).toEqual({
+      d: expect.any(String),
+      fill: { color: undefined },
+      stroke: { weight: 5, color: "#f3c117", strokeAlign: "inset" },
+    });
+  });
+
+  it("fills the left half of a half star", () => {
+    const stars = layoutStarRating(3.5, {
+      ...options,
+      emptyColor: "#e5e5e5",
+      outlineColor: "#1f1f1f",
+      outlineWidth: 0.05,
+    });
+    const [empty, half, outline] = stars.paths.slice(3, 6);
+
+    expect(empty.fill.color).toBe("#e5e5e5");
+    expect(empty.stroke).toBeUndefined();
+    expect(half).toEqual({
+      d: starPath(410, 50, 50, true),
+      fill: { color: "#f3c117" },
+    });
+    expect(outline).toMatchObject({
+      d: empty.d,
+      stroke: { color: "#1f1f1f" },
+    });
+    expect(stars.paths).toHaveLength(7);
+  });
+});
+
+describe("starPath", () => {
+  it("draws a closed star pointing up", () => {
+    const d = starPath(50, 50, 50);
+
+    expect(d).toMatch(/^M 50 0 L .* Z$/);
+    expect(d.split(" L ")).toHaveLength(10);
+  });
+
+  it("draws the left half from the bottom of the star to its top", () => {
+    const d = starPath(50, 50, 50, true);
+
+    expect(d).toMatch(/^M 50 69\.1 L .* L 50 0 Z$/);
+    expect(d.split(" L ")).toHaveLength(6);
+  });
+});
+
+describe("formatStars", () => {
+  it("writes empty stars for the rest of the scale", () => {
+    expect(formatStars(3)).toBe("★★★☆☆");
+    expect(formatStars(4.5)).toBe("★★★★★");
+  });
+
+  it("writes nothing for unrated reviews", () => {
+    expect(formatStars(undefined)).toBe("");
+  });
+
+  it("rounds to the nearest half star", () => {
+    expect(roundToHalfStar(4.3)).toBe(4.5);
+    expect(roundToHalfStar(7)).toBe(5);
+  });
+});
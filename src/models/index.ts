@@ -0,0 +1,39 @@
+export type { NamePrivacy, NamePrivacyMode } from "./name_privacy";
+export {
+  applyNamePrivacy,
+  clientNameOf,
+  DEFAULT_NAME_PRIVACY,
+  MAX_ALIAS_LENGTH,
+  NAME_PRIVACY_MODES,
+} from "./name_privacy";
+export type { OriginalRating, RatingScale } from "./rating_scale";
+export {
+  normalizeRating,
+  RATING_SCALE_RANGES,
+  RATING_SCALES,
+  toRatingFields,
+} from "./rating_scale";
+export type { Branch, Review, StaffMember } from "./review";
+export { MAX_RATING, MIN_RATING } from "./review";
+export type {
+  StarStyle,
+  StyledLine,
+  StyleFont,
+  StyleProfile,
+  StyleRole,
+} from "./style_profile";
+export {
+  DEFAULT_STAR_STYLE,
+  DEFAULT_STYLE_PROFILE,
+  STAR_STYLE_LIMITS,
+  STYLE_ROLES,
+  STYLED_LINES,
+} from "./style_profile";
+export type { RejectedRecord, ValidationResult } from "./validation";
+export {
+  parseBranch,
+  parseNamePrivacy,
+  parseReview,
+  parseStyleProfile,
+  validateAll,
+} from "./validation";
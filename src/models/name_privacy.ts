@@ -0,0 +1,83 @@
+/**
+ * How much of a client's name the app shows and inserts. Set per brand and enforced by the
+ * backend, so reviews never reach the app with more of a name than the brand allows.
+ */
+import type { Review } from "./review";
+
+// From the least to the most private
+export const NAME_PRIVACY_MODES = [
+  "full",
+  "firstInitial",
+  "initials",
+  "alias",
+  "anonymous",
+] as const;
+
+export type NamePrivacyMode = (typeof NAME_PRIVACY_MODES)[number];
+
+export type NamePrivacy = {
+  mode: NamePrivacyMode;
+  // Shown instead of every client's name in "alias" mode, such as "A happy client"
+  alias?: string;
+};
+
+// The longest alias a brand can choose, so it fits on a review card
+export const MAX_ALIAS_LENGTH = 40;
+
+// The first name and last initial, as the review list has always shown them
+export const DEFAULT_NAME_PRIVACY: NamePrivacy = { mode: "firstInitial" };
+
+const initialOf = (name: string) => name.trim().charAt(0).toUpperCase();
+
+/**
+ * Removes the parts of the client's name that the privacy setting hides. A name reduced
+ * to initials keeps just the initials, and an alias takes the place of the first name.
+ */
+export function applyNamePrivacy(review: Review, privacy: NamePrivacy): Review {
+  const { clientFirstName, clientLastName } = review;
+  switch (privacy.mode) {
+    case "full":
+      return review;
+    case "firstInitial":
+      return { ...review, clientLastName: initialOf(clientLastName) };
+    case "initials":
+      return {
+        ...review,
+        clientFirstName: initialOf(clientFirstName),
+        clientLastName: initialOf(clientLastName),
+      };
+    case "alias":
+      return {
+        ...review,
+        clientFirstName: privacy.alias?.trim() || "",
+        clientLastName: "",
+      };
+    case "anonymous":
+    default:
+      return { ...review, clientFirstName: "", clientLastName: "" };
+  }
+}
+
+/**
+ * Returns the client's name as the privacy setting allows it to be shown, such as
+ * "Ada L." for first name and initial or "A.L." for initials.
+ * @returns The name, or an empty string if the review is shown anonymously or the client
+ * left no name.
+ */
+export function clientNameOf(review: Review, privacy: NamePrivacy): string {
+  const { clientFirstName: first, clientLastName: last } = applyNamePrivacy(
+    review,
+    privacy,
+  );
+  switch (privacy.mode) {
+    case "firstInitial":
+      return first && last ? `${first} ${last}.` : first;
+    case "initials":
+      return [first, last]
+        .filter(Boolean)
+        .map((initial) => `${initial}.`)
+        .join("");
+    default:
+      return `${first} ${last}`.trim();
+  }
+}
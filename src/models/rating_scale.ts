@@ -0,0 +1,69 @@
+import { MAX_RATING, MIN_RATING } from "./review";
+
+/**
+ * The native rating scales of the platforms reviews are imported from. Every rating is
+ * converted to stars out of {@link MAX_RATING}, and the original is kept alongside it.
+ */
+export const RATING_SCALES = ["fiveStar", "tenPoint", "thumbs", "nps"] as const;
+
+export type RatingScale = (typeof RATING_SCALES)[number];
+
+/**
+ * The lowest and highest values of each rating scale. A thumbs rating is 1 for thumbs up
+ * and 0 for thumbs down.
+ */
+export const RATING_SCALE_RANGES: Record<
+  RatingScale,
+  { min: number; max: number }
+> = {
+  fiveStar: { min: 1, max: 5 },
+  tenPoint: { min: 1, max: 10 },
+  thumbs: { min: 0, max: 1 },
+  nps: { min: 0, max: 10 },
+};
+
+/**
+ * A rating as the platform gave it, before it was converted to stars.
+ */
+export type OriginalRating = {
+  value: number;
+  scale: RatingScale;
+};
+
+/**
+ * Converts a rating from a platform's scale to stars out of {@link MAX_RATING}, rounded
+ * to two decimal places. The lowest value on the scale becomes {@link MIN_RATING} stars
+ * and the highest becomes {@link MAX_RATING}, except on the five-star scale, whose
+ * ratings are already stars. Values outside the scale are converted all the same, so
+ * they fail validation rather than being clamped into a rating the client never gave.
+ * @param value - The rating on the platform's scale.
+ * @param scale - The platform's rating scale.
+ */
+export function normalizeRating(value: number, scale: RatingScale): number {
+  const { min, max } = RATING_SCALE_RANGES[scale];
+  const stars =
+    scale === "fiveStar"
+      ? value
+      : MIN_RATING + ((value - min) / (max - min)) * (MAX_RATING - MIN_RATING);
+  return Math.round(stars * 100) / 100;
+}
+
+/**
+ * Returns the rating fields of a review from a platform's raw rating. Reviews the client
+ * didn't rate get no rating fields at all, rather than a made-up rating.
+ * @param value - The rating as returned by the platform, if any.
+ * @param scale - The platform's rating scale.
+ */
+export function toRatingFields(value: unknown, scale: RatingScale) {
+  if (value == null) {
+    return {};
+  }
+  if (typeof value === "boolean") {
+    // Some platforms send thumbs ratings as booleans
+    value = Number(value);
+  }
+  return {
+    rating: typeof value === "number" ? normalizeRating(value, scale) : value,
+    originalRating: { value, scale },
+  };
+}
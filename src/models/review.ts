@@ -0,0 +1,37 @@
+import type { OriginalRating } from "./rating_scale";
+
+/**
+ * The canonical shapes the app works with. Provider adapters convert each platform's
+ * payloads into these types, and everything past the provider boundary can rely on them.
+ */
+
+export type Branch = {
+  id: string;
+  name: string;
+};
+
+export type StaffMember = {
+  firstName: string;
+  lastName: string;
+};
+
+export type Review = {
+  reviewId: string;
+  clientFirstName: string;
+  clientLastName: string;
+  // Stars out of 5, possibly fractional, converted from the platform's own scale. Not set
+  // if the client didn't leave a rating.
+  rating?: number;
+  // The rating as the platform gave it
+  originalRating?: OriginalRating;
+  // An ISO 8601 timestamp
+  reviewDate: string;
+  // May be empty if the client only left a rating
+  text: string;
+  staff?: StaffMember;
+  // The branch the review was left at. Only set when several branches are listed together.
+  branch?: Branch;
+};
+
+export const MIN_RATING = 0;
+export const MAX_RATING = 5;
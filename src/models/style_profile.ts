@@ -0,0 +1,65 @@
+/**
+ * The brand styling a brand applies to inserted reviews. Saved per brand, so everyone in
+ * the brand inserts reviews the same way.
+ */
+
+// The parts of a review card whose color can follow the brand
+export const STYLED_LINES = ["quote", "stars", "name"] as const;
+
+export type StyledLine = (typeof STYLED_LINES)[number];
+
+// Where a line takes its color from: the template's own color, or one of the brand's
+export const STYLE_ROLES = ["template", "primary", "accent"] as const;
+
+export type StyleRole = (typeof STYLE_ROLES)[number];
+
+export type StyleFont = {
+  // A Canva font reference, as returned by the font picker
+  ref: string;
+  name: string;
+};
+
+/**
+ * How star ratings are drawn. The stars the rating reaches take the star rating's color.
+ */
+export type StarStyle = {
+  // Hex color of the stars the rating doesn't reach. Left unfilled if not set.
+  emptyColor?: string;
+  // Hex color of each star's outline. Defaults to the star rating's color.
+  outlineColor?: string;
+  // The thickness of the outline, relative to the size of a star. 0 for no outline.
+  outlineWidth: number;
+  // The size of each star, relative to the template's size for the rating
+  size: number;
+  // The space between stars, relative to the size of a star
+  spacing: number;
+};
+
+export const STAR_STYLE_LIMITS: Record<
+  "outlineWidth" | "size" | "spacing",
+  { min: number; max: number }
+> = {
+  outlineWidth: { min: 0, max: 0.2 },
+  size: { min: 0.5, max: 2 },
+  spacing: { min: 0, max: 1 },
+};
+
+export const DEFAULT_STAR_STYLE: StarStyle = {
+  outlineWidth: 0.04,
+  size: 1,
+  spacing: 0.15,
+};
+
+export type StyleProfile = {
+  // Hex colors, such as "#1f1f1f"
+  primaryColor?: string;
+  accentColor?: string;
+  roles: Record<StyledLine, StyleRole>;
+  font?: StyleFont;
+  // Profiles saved before star ratings could be styled use the default
+  stars?: StarStyle;
+};
+
+export const DEFAULT_STYLE_PROFILE: StyleProfile = {
+  roles: { quote: "template", stars: "template", name: "template" },
+};
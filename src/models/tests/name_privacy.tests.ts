@@ -0,0 +1,52 @@
+import type { NamePrivacy } from "../name_privacy";
+import { applyNamePrivacy, clientNameOf } from "../name_privacy";
+import type { Review } from "../review";
+
+describe("name privacy", () => {
+  const review: Review = {
+    reviewId: "r1",
+    clientFirstName: "Ada",
+    clientLastName: "lovelace",
+    rating: 5,
+    reviewDate: "2024-06-01T10:00:00Z",
+    text: "Loved my new colour",
+  };
+
+  it.each<[NamePrivacy, string]>([
+    [{ mode: "full" }, "Ada lovelace"],
+    [{ mode: "firstInitial" }, "Ada L."],
+    [{ mode: "initials" }, "A.L."],
+    [{ mode: "alias", alias: "A happy client" }, "A happy client"],
+    [{ mode: "anonymous" }, ""],
+  ])("shows the name in %j as %j", (privacy, name) => {
+    expect(clientNameOf(review, privacy)).toBe(name);
+  });
+
+  it("leaves out the parts of a name the client didn't give", () => {
+    const firstNameOnly = { ...review, clientLastName: "" };
+
+    expect(clientNameOf(firstNameOnly, { mode: "firstInitial" })).toBe("Ada");
+    expect(clientNameOf(firstNameOnly, { mode: "initials" })).toBe("A.");
+  });
+
+  it("removes the hidden parts of the name from the review", () => {
+    expect(applyNamePrivacy(review, { mode: "initials" })).toEqual({
+      ...review,
+      clientFirstName: "A",
+      clientLastName: "L",
+    });
+    expect(applyNamePrivacy(review, { mode: "anonymous" })).toEqual({
+      ...review,
+      clientFirstName: "",
+      clientLastName: "",
+    });
+  });
+
+  it("shows a review the same once its name has been reduced", () => {
+    const privacy: NamePrivacy = { mode: "firstInitial" };
+
+    expect(clientNameOf(applyNamePrivacy(review, privacy), privacy)).toBe(
+      "Ada L.",
+    );
+  });
+});
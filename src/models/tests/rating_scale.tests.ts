@@ -0,0 +1,50 @@
+import { normalizeRating, toRatingFields } from "../rating_scale";
+
+describe("normalizeRating", () => {
+  it.each([
+    [4, "fiveStar", 4],
+    [1, "tenPoint", 0],
+    [7, "tenPoint", 3.33],
+    [10, "tenPoint", 5],
+    [1, "thumbs", 5],
+    [0, "thumbs", 0],
+    [9, "nps", 4.5],
+    [0, "nps", 0],
+  ] as const)(
+    "converts %p on the %s scale to %p stars",
+    (value, scale, stars) => {
+      expect(normalizeRating(value, scale)).toBe(stars);
+    },
+  );
+
+  it("counts from the lowest value on the scale", () => {
+    // A ten-point scale starts at 1, so 1 is the lowest rating rather than a tenth of the top
+    expect(normalizeRating(1, "tenPoint")).toBe(0);
+    expect(normalizeRating(5.5, "tenPoint")).toBe(2.5);
+  });
+
+  it("rounds to two decimal places", () => {
+    expect(normalizeRating(4.333, "fiveStar")).toBe(4.33);
+  });
+});
+
+describe("toRatingFields", () => {
+  it("keeps the original rating alongside the stars", () => {
+    expect(toRatingFields(8, "tenPoint")).toEqual({
+      rating: 3.89,
+      originalRating: { value: 8, scale: "tenPoint" },
+    });
+  });
+
+  it("reads thumbs ratings sent as booleans", () => {
+    expect(toRatingFields(false, "thumbs")).toEqual({
+      rating: 0,
+      originalRating: { value: 0, scale: "thumbs" },
+    });
+  });
+
+  it("doesn't make up a rating for unrated reviews", () => {
+    expect(toRatingFields(undefined, "fiveStar")).toEqual({});
+    expect(toRatingFields(null, "fiveStar")).toEqual({});
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  parseBranch,
+  parseNamePrivacy,
+  parseReview,
+  parseStyleProfile,
+  validateAll,
+} from "../validation";
+
+describe("parseReview", () => {
+  const validReview = {
+    reviewId: "r1",
+    clientFirstName: "Ada",
+    clientLastName: "Lovelace",
+    rating: 5,
+    reviewDate: "2024-03-01T10:00:00Z",
+    text: "Wonderful colour",
+    staff: { firstName: "Grace", lastName: "Hopper" },
+  };
+
+  it("should accept a complete review", () => {
+    expect(parseReview(validReview)).toEqual({ value: validReview });
+  });
+
+  it("should default missing optional fields to empty strings", () => {
+    const result = parseReview({
+      reviewId: "r1",
+      rating: 4,
+      reviewDate: "2024-03-01",
+    });
+
+    expect(result).toEqual({
+      value: {
+        reviewId: "r1",
+        clientFirstName: "",
+        clientLastName: "",
+        rating: 4,
+        reviewDate: "2024-03-01",
+        text: "",
+      },
+    });
+  });
+
+  it("should convert numeric IDs to strings", () => {
+    const result = parseReview({ ...validReview, reviewId: 42 });
+
+    expect(result).toMatchObject({ value: { reviewId: "42" } });
+  });
+
+  it("should drop staff members without a name", () => {
+    const result = parseReview({ ...validReview, staff: {} });
+
+    expect(result).toEqual({
+      value: expect.not.objectContaining({ staff: expect.anything() }),
+    });
+  });
+
+  it("should accept fractional ratings with the rating they were converted from", () => {
+    const review = {
+      ...validReview,
+      rating: 4.44,
+      originalRating: { value: 9, scale: "tenPoint" },
+    };
+
+    expect(parseReview(review)).toEqual({ value: review });
+  });
+
+  it("should keep reviews without a rating, unrated", () => {
+    const result = parseReview({ ...validReview, rating: undefined });
+
+    expect(result).toEqual({
+      value: expect.not.objectContaining({ rating: expect.anything() }),
+    });
+  });
+
+  it.each([-1, 6, NaN, null, "5"])("should reject a rating of %p", (rating) => {
+    const result = parseReview({ ...validReview, rating });
+
+    expect(result).toEqual({
+      reasons: [expect.stringContaining("'rating'")],
+    });
+  });
+
+  it.each([
+    { value: 11, scale: "tenPoint" },
+    { value: 1, scale: "percent" },
+    { value: "9", scale: "nps" },
+  ])("should reject an original rating of %p", (originalRating) => {
+    const result = parseReview({ ...validReview, originalRating });
+
+    expect(result).toEqual({
+      reasons: [expect.stringContaining("'originalRating'")],
+    });
+  });
+
+  it("should collect every reason a review is invalid", () => {
+    const result = parseReview({
+      rating: 3,
+      reviewDate: "not a date",
+      text: 12,
+    });
+
+    expect(result).toEqual({
+      reasons: [
+        expect.stringContaining("'reviewId'"),
+        expect.stringContaining("'reviewDate'"),
+        expect.stringContaining("'text'"),
+      ],
+    });
+  });
+
+  it("should reject values that aren't objects", () => {
+    expect(parseReview(null)).toEqual({ reasons: ["expected an object"] });
+    expect(parseReview([])).toEqual({ reasons: ["expected an object"] });
+  });
+});
+
+describe("parseBranch", () => {
+  it("should reject branches without a name", () => {
+    expect(parseBranch({ id: "b1" })).toEqual({
+      reasons: [expect.stringContaining("'name'")],
+    });
+  });
+});
+
+describe("parseStyleProfile", () => {
+  const roles = { quote: "primary", stars: "accent", name: "template" };
+
+  it("should accept a complete profile", () => {
+    const profile = {
+      primaryColor: "#1F1F1F",
+      accentColor: "#c9a227",
+      roles,
+      font: { ref: "font-ref", name: "Open Sans" },
+    };
+
+    expect(parseStyleProfile(profile)).toEqual({ value: profile });
+  });
+
+  it("should leave out colors and fonts that weren't chosen", () => {
+    expect(parseStyleProfile({ roles, primaryColor: null })).toEqual({
+      value: { roles },
+    });
+  });
+
+  it("should reject colors that aren't hex colors", () => {
+    expect(parseStyleProfile({ roles, accentColor: "gold" })).toEqual({
+      reasons: [expect.stringContaining("'accentColor'")],
+    });
+  });
+
+  it("should accept a star style within its limits", () => {
+    const stars = {
+      emptyColor: "#e5e5e5",
+      outlineWidth: 0,
+      size: 2,
+      spacing: 1,
+    };
+
+    expect(parseStyleProfile({ roles, stars })).toEqual({
+      value: { roles, stars },
+    });
+    expect(parseStyleProfile({ roles, stars: { ...stars, size: 3 } })).toEqual({
+      reasons: [expect.stringContaining("'stars.size'")],
+    });
+  });
+
+  it("should reject unknown roles", () => {
+    expect(
+      parseStyleProfile({ roles: { ...roles, stars: "secondary" } }),
+    ).toEqual({
+      reasons: [expect.stringContaining("'roles.stars'")],
+    });
+  });
+});
+
+describe("parseNamePrivacy", () => {
+  it("should accept a mode and drop an alias it doesn't use", () => {
+    expect(parseNamePrivacy({ mode: "initials", alias: "A client" })).toEqual({
+      value: { mode: "initials" },
+    });
+  });
+
+  it("should trim the alias", () => {
+    expect(parseNamePrivacy({ mode: "alias", alias: " A client " })).toEqual({
+      value: { mode: "alias", alias: "A client" },
+    });
+  });
+
+  it("should reject a missing or overlong alias", () => {
+    expect(parseNamePrivacy({ mode: "alias" })).toEqual({
+      reasons: [expect.stringContaining("'alias'")],
+    });
+    expect(parseNamePrivacy({ mode: "alias", alias: "a".repeat(41) })).toEqual({
+      reasons: [expect.stringContaining("'alias'")],
+    });
+  });
+
+  it("should reject unknown modes", () => {
+    expect(parseNamePrivacy({ mode: "surname" })).toEqual({
+      reasons: [expect.stringContaining("'mode'")],
+    });
+  });
+});
+
+describe("validateAll", () => {
+  it("should split records into accepted and rejected", () => {
+    const missingName = { id: "b2" };
+
+    const result = validateAll(
+      [{ id: "b1", name: "Dublin" }, missingName],
+      parseBranch,
+    );
+
+    expect(result.accepted).toEqual([{ id: "b1", name: "Dublin" }]);
+    expect(result.rejected).toEqual([
+      { record: missingName, reasons: [expect.stringContaining("'name'")] },
+    ]);
+  });
+});
@@ -0,0 +1,377 @@
+import type { NamePrivacy, NamePrivacyMode } from "./name_privacy";
+import { MAX_ALIAS_LENGTH, NAME_PRIVACY_MODES } from "./name_privacy";
+import type { OriginalRating, RatingScale } from "./rating_scale";
+import { RATING_SCALE_RANGES, RATING_SCALES } from "./rating_scale";
+import type { Branch, Review, StaffMember } from "./review";
+import { MAX_RATING, MIN_RATING } from "./review";
+import type {
+  StarStyle,
+  StyleFont,
+  StyleProfile,
+  StyleRole,
+} from "./style_profile";
+import { STAR_STYLE_LIMITS, STYLE_ROLES, STYLED_LINES } from "./style_profile";
+
+/**
+ * A record that failed validation, kept alongside the reasons so the user can be told
+ * what was skipped instead of having incomplete data inserted into their design.
+ */
+export type RejectedRecord = {
+  record: unknown;
+  reasons: string[];
+};
+
+export type ValidationResult<T> = {
+  accepted: T[];
+  rejected: RejectedRecord[];
+};
+
+type ParseResult<T> = { value: T } | { reasons: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value != null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+/**
+ * Reads an identifier. Some platforms use numeric IDs, which are converted to strings so
+ * every ID in the app has the same type.
+ */
+const readId = (
+  record: Record<string, unknown>,
+  field: string,
+  reasons: string[],
+): string => {
+  const value = record[field];
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (!isNonEmptyString(value)) {
+    reasons.push(`'${field}' must be a non-empty string or number`);
+    return "";
+  }
+  return value;
+};
+
+/**
+ * Reads an optional string field, treating `null` and `undefined` as empty.
+ * Records a reason if the field holds anything other than a string.
+ */
+const readOptionalString = (
+  record: Record<string, unknown>,
+  field: string,
+  reasons: string[],
+): string => {
+  const value = record[field];
+  if (value == null) {
+    return "";
+  }
+  if (typeof value !== "string") {
+    reasons.push(`'${field}' must be a string, got ${typeof value}`);
+    return "";
+  }
+  return value;
+};
+
+const parseStaffMember = (
+  value: unknown,
+  reasons: string[],
+): StaffMember | undefined => {
+  if (value == null) {
+    return undefined;
+  }
+  if (!isObject(value)) {
+    reasons.push(`'staff' must be an object`);
+    return undefined;
+  }
+  const firstName = readOptionalString(value, "firstName", reasons);
+  const lastName = readOptionalString(value, "lastName", reasons);
+  // A staff member without a name carries no information worth showing
+  return firstName || lastName ? { firstName, lastName } : undefined;
+};
+
+const parseOriginalRating = (
+  value: unknown,
+  reasons: string[],
+): OriginalRating | undefined => {
+  if (value == null) {
+    return undefined;
+  }
+  if (!isObject(value) || !RATING_SCALES.includes(value.scale as RatingScale)) {
+    reasons.push(
+      `'originalRating' must have a scale of ${RATING_SCALES.join(", ")}`,
+    );
+    return undefined;
+  }
+  const scale = value.scale as RatingScale;
+  const { min, max } = RATING_SCALE_RANGES[scale];
+  if (
+    typeof value.value !== "number" ||
+    !Number.isFinite(value.value) ||
+    value.value < min ||
+    value.value > max
+  ) {
+    reasons.push(
+      `'originalRating' must be from ${min} to ${max} on the ${scale} scale, got ${String(value.value)}`,
+    );
+    return undefined;
+  }
+  return { value: value.value, scale };
+};
+
+/**
+ * Checks that a record has the shape of a {@link Review}.
+ * @param record - A review produced by a provider adapter.
+ */
+export function parseReview(record: unknown): ParseResult<Review> {
+  if (!isObject(record)) {
+    return { reasons: ["expected an object"] };
+  }
+
+  const reasons: string[] = [];
+
+  const reviewId = readId(record, "reviewId", reasons);
+  const { rating, reviewDate } = record;
+
+  // Unrated reviews are kept, but a rating that is there must make sense
+  if (
+    rating !== undefined &&
+    (typeof rating !== "number" ||
+      !Number.isFinite(rating) ||
+      rating < MIN_RATING ||
+      rating > MAX_RATING)
+  ) {
+    reasons.push(
+      `'rating' must be a number from ${MIN_RATING} to ${MAX_RATING}, got ${String(rating)}`,
+    );
+  }
+  const originalRating = parseOriginalRating(record.originalRating, reasons);
+
+  if (!isNonEmptyString(reviewDate) || isNaN(Date.parse(reviewDate))) {
+    reasons.push(
+      `'reviewDate' must be a valid date, got ${String(reviewDate)}`,
+    );
+  }
+
+  const clientFirstName = readOptionalString(
+    record,
+    "clientFirstName",
+    reasons,
+  );
+  const clientLastName = readOptionalString(record, "clientLastName", reasons);
+  const text = readOptionalString(record, "text", reasons);
+  const staff = parseStaffMember(record.staff, reasons);
+
+  if (reasons.length > 0) {
+    return { reasons };
+  }
+
+  return {
+    value: {
+      reviewId,
+      clientFirstName,
+      clientLastName,
+      ...(rating !== undefined && { rating: rating as number }),
+      ...(originalRating && { originalRating }),
+      reviewDate: reviewDate as string,
+      text,
+      ...(staff && { staff }),
+    },
+  };
+}
+
+/**
+ * Checks that a record has the shape of a {@link Branch}.
+ * @param record - A branch produced by a provider adapter.
+ */
+export function parseBranch(record: unknown): ParseResult<Branch> {
+  if (!isObject(record)) {
+    return { reasons: ["expected an object"] };
+  }
+
+  const reasons: string[] = [];
+  const id = readId(record, "id", reasons);
+  const { name } = record;
+  if (!isNonEmptyString(name)) {
+    reasons.push(`'name' must be a non-empty string`);
+  }
+
+  if (reasons.length > 0) {
+    return { reasons };
+  }
+  return { value: { id, name: name as string } };
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const readOptionalColor = (
+  record: Record<string, unknown>,
+  field: string,
+  reasons: string[],
+): string | undefined => {
+  const value = record[field];
+  if (value == null) {
+    return undefined;
+  }
+  if (typeof value !== "string" || !HEX_COLOR.test(value)) {
+    reasons.push(`'${field}' must be a hex color such as #1f1f1f`);
+    return undefined;
+  }
+  return value;
+};
+
+const isStyleRole = (value: unknown): value is StyleRole =>
+  STYLE_ROLES.some((role) => role === value);
+
+const parseStyleFont = (
+  value: unknown,
+  reasons: string[],
+): StyleFont | undefined => {
+  if (value == null) {
+    return undefined;
+  }
+  if (
+    !isObject(value) ||
+    !isNonEmptyString(value.ref) ||
+    !isNonEmptyString(value.name)
+  ) {
+    reasons.push(`'font' must have a non-empty 'ref' and 'name'`);
+    return undefined;
+  }
+  return { ref: value.ref, name: value.name };
+};
+
+const parseStarStyle = (
+  value: unknown,
+  reasons: string[],
+): StarStyle | undefined => {
+  if (value == null) {
+    return undefined;
+  }
+  if (!isObject(value)) {
+    reasons.push(`'stars' must be an object`);
+    return undefined;
+  }
+
+  const emptyColor = readOptionalColor(value, "emptyColor", reasons);
+  const outlineColor = readOptionalColor(value, "outlineColor", reasons);
+  const sizes = Object.entries(STAR_STYLE_LIMITS).map(
+    ([field, { min, max }]) => {
+      const size = value[field];
+      if (typeof size !== "number" || !(size >= min && size <= max)) {
+        reasons.push(`'stars.${field}' must be a number from ${min} to ${max}`);
+      }
+      return [field, size];
+    },
+  );
+  return {
+    ...(emptyColor && { emptyColor }),
+    ...(outlineColor && { outlineColor }),
+    ...Object.fromEntries(sizes),
+  } as StarStyle;
+};
+
+/**
+ * Checks that a record has the shape of a {@link StyleProfile}. Unknown fields are dropped.
+ * @param record - A style profile sent by the app.
+ */
+export function parseStyleProfile(record: unknown): ParseResult<StyleProfile> {
+  if (!isObject(record)) {
+    return { reasons: ["expected an object"] };
+  }
+
+  const reasons: string[] = [];
+  const primaryColor = readOptionalColor(record, "primaryColor", reasons);
+  const accentColor = readOptionalColor(record, "accentColor", reasons);
+  const font = parseStyleFont(record.font, reasons);
+  const stars = parseStarStyle(record.stars, reasons);
+
+  const { roles } = record;
+  if (!isObject(roles)) {
+    reasons.push(`'roles' must be an object`);
+  } else {
+    STYLED_LINES.forEach((line) => {
+      if (!isStyleRole(roles[line])) {
+        reasons.push(
+          `'roles.${line}' must be one of ${STYLE_ROLES.join(", ")}, got ${String(roles[line])}`,
+        );
+      }
+    });
+  }
+
+  if (reasons.length > 0) {
+    return { reasons };
+  }
+
+  const validRoles = roles as Record<string, StyleRole>;
+  return {
+    value: {
+      ...(primaryColor && { primaryColor }),
+      ...(accentColor && { accentColor }),
+      roles: {
+        quote: validRoles.quote,
+        stars: validRoles.stars,
+        name: validRoles.name,
+      },
+      ...(font && { font }),
+      ...(stars && { stars }),
+    },
+  };
+}
+
+const isNamePrivacyMode = (value: unknown): value is NamePrivacyMode =>
+  NAME_PRIVACY_MODES.some((mode) => mode === value);
+
+/**
+ * Checks that a record has the shape of a {@link NamePrivacy}. An alias is required in
+ * "alias" mode and dropped in every other mode.
+ * @param record - A name privacy setting sent by the app.
+ */
+export function parseNamePrivacy(record: unknown): ParseResult<NamePrivacy> {
+  if (!isObject(record)) {
+    return { reasons: ["expected an object"] };
+  }
+
+  const { mode, alias } = record;
+  if (!isNamePrivacyMode(mode)) {
+    return {
+      reasons: [
+        `'mode' must be one of ${NAME_PRIVACY_MODES.join(", ")}, got ${String(mode)}`,
+      ],
+    };
+  }
+  if (mode !== "alias") {
+    return { value: { mode } };
+  }
+
+  if (!isNonEmptyString(alias) || alias.trim().length > MAX_ALIAS_LENGTH) {
+    return {
+      reasons: [
+        `'alias' must be a non-empty string of at most ${MAX_ALIAS_LENGTH} characters`,
+      ],
+    };
+  }
+  return { value: { mode, alias: alias.trim() } };
+}
+
+/**
+ * Splits a list of records into the ones that match a schema and the ones that don't.
+ * @param records - The records to validate.
+ * @param parse - A parser such as {@link parseReview} or {@link parseBranch}.
+ */
+export function validateAll<T>(
+  records: unknown[],
+  parse: (record: unknown) => ParseResult<T>,
+): ValidationResult<T> {
+  const result: ValidationResult<T> = { accepted: [], rejected: [] };
+  for (const record of records) {
+    const parsed = parse(record);
+    if ("value" in parsed) {
+      result.accepted.push(parsed.value);
+    } else {
+      result.rejected.push({ record, reasons: parsed.reasons });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,85 @@
+import type { Branch } from "../models";
+import { parseBranch, parseReview, validateAll } from "../models";
+import { normalizeGenericReview } from "./common";
+import type { GenericReview } from "./common";
+import { platformClient, toConcurrencyKey } from "./http";
+import type { ProviderOptions, ReviewPage, ReviewProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.boulevard.io/api/v1";
+const PAGE_SIZE = 20;
+const DEFAULT_RATING_SCALE = "fiveStar";
+
+type BoulevardLocationsResponse = {
+  data?: { id?: string | number; name?: string }[];
+};
+
+type BoulevardReviewsResponse = {
+  data?: GenericReview[];
+  pageInfo?: { hasNextPage: boolean; endCursor?: string };
+  totalCount?: number;
+};
+
+/**
+ * Creates a provider for the Boulevard API.
+ * @param options - Overrides for the API base URL and the rating scale.
+ */
+export const createBoulevardProvider = ({
+  baseUrl = DEFAULT_BASE_URL,
+  ratingScale = DEFAULT_RATING_SCALE,
+}: ProviderOptions = {}): ReviewProvider => ({
+  id: "boulevard",
+  name: "Boulevard",
+  capabilities: {
+    pagination: "cursor",
+    pageSize: PAGE_SIZE,
+    ratingScale,
+    globalReviewIds: true,
+  },
+
+  async authenticate({ businessId, email, password }) {
+    return { businessId, auth: { username: email, password } };
+  },
+
+  async listBranches(session): Promise<Branch[]> {
+    const { businessId, auth } = session;
+    const response = await platformClient.get<BoulevardLocationsResponse>(
+      `${baseUrl}/businesses/${businessId}/locations`,
+      { auth, concurrencyKey: toConcurrencyKey("boulevard", session) },
+    );
+
+    return validateAll(response.data?.data || [], parseBranch).accepted;
+  },
+
+  async listReviews(
+    session,
+    branchId,
+    { cursor, signal } = {},
+  ): Promise<ReviewPage> {
+    const { businessId, auth } = session;
+    const response = await platformClient.get<BoulevardReviewsResponse>(
+      `${baseUrl}/businesses/${businessId}/locations/${branchId}/reviews`,
+      {
+        params: { first: PAGE_SIZE, after: cursor },
+        auth,
+        signal,
+        concurrencyKey: toConcurrencyKey("boulevard", session),
+      },
+    );
+
+    const { accepted, rejected } = validateAll(
+      (response.data?.data || []).map((review) =>
+        normalizeGenericReview(review, ratingScale),
+      ),
+      parseReview,
+    );
+    const pageInfo = response.data?.pageInfo;
+    return {
+      reviews: accepted,
+      rejected,
+      nextCursor: pageInfo?.hasNextPage ? pageInfo.endCursor : undefined,
+      total: response.data?.totalCount,
+    };
+  },
+});
+
+export const boulevardProvider = createBoulevardProvider();
@@ -0,0 +1,46 @@
+import type { RatingScale } from "../models";
+import { toRatingFields } from "../models";
+
+type Person = {
+  firstName?: string;
+  lastName?: string;
+};
+
+/**
+ * The review shape shared by platforms with a conventional REST API. Field names vary
+ * between API versions, so each value is read from every known alias.
+ */
+export type GenericReview = {
+  id: string | number;
+  customer?: Person;
+  client?: Person;
+  staff?: Person;
+  stylist?: Person;
+  rating?: number;
+  date?: string;
+  createdAt?: string;
+  text?: string;
+  comment?: string;
+};
+
+/**
+ * Maps a {@link GenericReview} onto the fields of the app's review format. The result is
+ * unchecked and must be passed through `parseReview` before use.
+ * @param review - The review as returned by the platform.
+ * @param scale - The scale the platform rates reviews on.
+ */
+export function normalizeGenericReview(
+  review: GenericReview,
+  scale: RatingScale,
+) {
+  const staff = review.staff || review.stylist;
+  return {
+    reviewId: review.id,
+    clientFirstName: review.customer?.firstName || review.client?.firstName,
+    clientLastName: review.customer?.lastName || review.client?.lastName,
+    ...toRatingFields(review.rating, scale),
+    reviewDate: review.date || review.createdAt,
+    text: review.text || review.comment,
+    staff: staff && { firstName: staff.firstName, lastName: staff.lastName },
+  };
+}
@@ -0,0 +1,16 @@
+import { HttpClient } from "../../utils/http_client";
+import type { ProviderSession } from "./types";
+
+/**
+ * The client every provider calls its platform with. Sharing one client means the
+ * concurrency limit holds across all requests made with the same credentials.
+ */
+export const platformClient = new HttpClient();
+
+/**
+ * Returns the concurrency key for requests made with a session's credentials.
+ */
+export const toConcurrencyKey = (
+  providerId: string,
+  { businessId, auth }: ProviderSession,
+) => `${providerId}:${businessId}:${auth.username}`;
@@ -0,0 +1,31 @@
+import { boulevardProvider } from "./boulevard";
+import { mindbodyProvider } from "./mindbody";
+import { phorestProvider } from "./phorest";
+import { registerProvider } from "./registry";
+
+// Built-in platforms, in the order they appear in the platform picker
+registerProvider(phorestProvider);
+registerProvider(mindbodyProvider);
+registerProvider(boulevardProvider);
+
+export { createBoulevardProvider } from "./boulevard";
+export { createMindbodyProvider } from "./mindbody";
+export { createPhorestProvider } from "./phorest";
+export {
+  getProvider,
+  listProviders,
+  registerProvider,
+  UnknownProviderError,
+} from "./registry";
+export { fetchAllReviews, FetchCancelledError } from "./pagination";
+export type { FetchProgress, ReviewPageFetcher } from "./pagination";
+export type {
+  ListReviewsOptions,
+  ProviderCapabilities,
+  ProviderCredentials,
+  ProviderOptions,
+  ProviderSession,
+  ReviewListing,
+  ReviewPage,
+  ReviewProvider,
+} from "./types";
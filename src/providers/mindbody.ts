@@ -0,0 +1,97 @@
+import type { Branch } from "../models";
+import { parseBranch, parseReview, validateAll } from "../models";
+import { normalizeGenericReview } from "./common";
+import type { GenericReview } from "./common";
+import { platformClient, toConcurrencyKey } from "./http";
+import type { ProviderOptions, ReviewPage, ReviewProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.mindbodyonline.com/public/v6";
+const PAGE_SIZE = 20;
+const DEFAULT_RATING_SCALE = "fiveStar";
+
+type MindbodyLocationsResponse = {
+  locations?: { id?: string | number; name?: string }[];
+};
+
+type MindbodyReviewsResponse = {
+  reviews?: GenericReview[];
+  PaginationResponse?: {
+    RequestedLimit: number;
+    RequestedOffset: number;
+    PageSize: number;
+    TotalResults: number;
+  };
+};
+
+/**
+ * Creates a provider for the Mindbody API.
+ * @param options - Overrides for the API base URL and the rating scale.
+ */
+export const createMindbodyProvider = ({
+  baseUrl = DEFAULT_BASE_URL,
+  ratingScale = DEFAULT_RATING_SCALE,
+}: ProviderOptions = {}): ReviewProvider => ({
+  id: "mindbody",
+  name: "Mindbody",
+  capabilities: {
+    pagination: "offset",
+    pageSize: PAGE_SIZE,
+    ratingScale,
+    // Review IDs are only unique within a location
+    globalReviewIds: false,
+  },
+
+  async authenticate({ businessId, email, password }) {
+    return { businessId, auth: { username: email, password } };
+  },
+
+  async listBranches(session): Promise<Branch[]> {
+    const { businessId, auth } = session;
+    const response = await platformClient.get<MindbodyLocationsResponse>(
+      `${baseUrl}/business/${businessId}/locations`,
+      { auth, concurrencyKey: toConcurrencyKey("mindbody", session) },
+    );
+
+    return validateAll(response.data?.locations || [], parseBranch).accepted;
+  },
+
+  async listReviews(
+    session,
+    branchId,
+    { cursor, signal } = {},
+  ): Promise<ReviewPage> {
+    const { businessId, auth } = session;
+    const offset = cursor ? parseInt(cursor, 10) : 0;
+    const response = await platformClient.get<MindbodyReviewsResponse>(
+      `${baseUrl}/business/${businessId}/location/${branchId}/reviews`,
+      {
+        params: { limit: PAGE_SIZE, offset },
+        auth,
+        signal,
+        concurrencyKey: toConcurrencyKey("mindbody", session),
+      },
+    );
+
+    const { accepted, rejected } = validateAll(
+      (response.data?.reviews || []).map((review) =>
+        normalizeGenericReview(review, ratingScale),
+      ),
+      parseReview,
+    );
+    const pagination = response.data?.PaginationResponse;
+    const nextOffset = pagination
+      ? pagination.RequestedOffset + pagination.PageSize
+      : undefined;
+    return {
+      reviews: accepted,
+      rejected,
+      nextCursor:
+        pagination && nextOffset != null && nextOffset < pagination.TotalResults
+          ? String(nextOffset)
+          : undefined,
+      total: pagination?.TotalResults,
+    };
+  },
+});
+
+export const mindbodyProvider = createMindbodyProvider();
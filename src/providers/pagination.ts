@@ -0,0 +1,77 @@
+import type { ListReviewsOptions, ReviewListing, ReviewPage } from "./types";
+
+export type FetchProgress = {
+  // The number of reviews fetched so far, including rejected ones.
+  loaded: number;
+  // The total number of reviews, if the platform reports it.
+  total?: number;
+};
+
+/**
+ * Fetches a single page of reviews, such as a bound `ReviewProvider.listReviews` or a
+ * call to the backend.
+ */
+export type ReviewPageFetcher = (
+  options: ListReviewsOptions,
+) => Promise<ReviewPage>;
+
+type FetchAllOptions = {
+  // Resume from a cursor returned by an earlier page instead of the first page.
+  cursor?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: FetchProgress) => void;
+  // Called with each page as it arrives, so callers can keep what was fetched before a cancel.
+  onPage?: (page: ReviewPage) => void;
+  // Stops after the first page this returns true for, even if more pages remain.
+  until?: (page: ReviewPage) => boolean;
+};
+
+/**
+ * Follows the pagination of a review listing until every review has been fetched.
+ * @param fetchPage - Fetches the page at the given cursor.
+ * @param options - Where to start and stop, a signal to cancel the fetch, and progress callbacks.
+ * @throws FetchCancelledError if the signal is aborted before all pages have been fetched.
+ */
+export async function fetchAllReviews(
+  fetchPage: ReviewPageFetcher,
+  { cursor, signal, onProgress, onPage, until }: FetchAllOptions = {},
+): Promise<ReviewListing> {
+  const result: ReviewListing = { reviews: [], rejected: [] };
+  let nextCursor = cursor;
+
+  do {
+    if (signal?.aborted) {
+      throw new FetchCancelledError();
+    }
+
+    let page: ReviewPage;
+    try {
+      page = await fetchPage({ cursor: nextCursor, signal });
+    } catch (e) {
+      // Axios rejects in-flight requests when the signal is aborted
+      if (signal?.aborted) {
+        throw new FetchCancelledError();
+      }
+      throw e;
+    }
+
+    onPage?.(page);
+    result.reviews.push(...page.reviews);
+    result.rejected.push(...page.rejected);
+    onProgress?.({
+      loaded: result.reviews.length + result.rejected.length,
+      total: page.total,
+    });
+    nextCursor = until?.(page) ? undefined : page.nextCursor;
+  } while (nextCursor);
+
+  return result;
+}
+
+export class FetchCancelledError extends Error {
+  constructor(message = "The fetch was cancelled.") {
+    super(message);
+
+    Object.setPrototypeOf(this, FetchCancelledError.prototype);
+  }
+}
@@ -0,0 +1,132 @@
+import type { Branch, RatingScale } from "../models";
+import {
+  parseBranch,
+  parseReview,
+  toRatingFields,
+  validateAll,
+} from "../models";
+import { platformClient, toConcurrencyKey } from "./http";
+import type { ProviderOptions, ReviewPage, ReviewProvider } from "./types";
+
+const DEFAULT_BASE_URL =
+  "https://api-gateway-eu.phorest.com/third-party-api-server/api/business";
+const PAGE_SIZE = 20;
+const DEFAULT_RATING_SCALE = "fiveStar";
+
+type PhorestBranch = {
+  branchId?: string;
+  name?: string;
+  _links?: { self?: { href?: string } };
+};
+
+type PhorestBranchesResponse = {
+  _embedded?: { branches?: PhorestBranch[] };
+};
+
+type PhorestReview = {
+  reviewId?: string;
+  clientFirstName?: string;
+  clientLastName?: string;
+  rating?: number;
+  reviewDate?: string;
+  text?: string;
+  staffFirstName?: string;
+  staffLastName?: string;
+};
+
+type PhorestReviewsResponse = {
+  _embedded?: { reviews?: PhorestReview[] };
+  // Spring HAL page metadata. `number` is zero-based.
+  page?: {
+    size: number;
+    totalElements: number;
+    totalPages: number;
+    number: number;
+  };
+};
+
+const toReviewCandidate = (
+  { staffFirstName, staffLastName, rating, ...review }: PhorestReview,
+  ratingScale: RatingScale,
+) => ({
+  ...review,
+  ...toRatingFields(rating, ratingScale),
+  staff: { firstName: staffFirstName, lastName: staffLastName },
+});
+
+/**
+ * Creates a provider for the Phorest API.
+ * @param options - Overrides for the API base URL and the rating scale.
+ */
+export const createPhorestProvider = ({
+  baseUrl = DEFAULT_BASE_URL,
+  ratingScale = DEFAULT_RATING_SCALE,
+}: ProviderOptions = {}): ReviewProvider => ({
+  id: "phorest",
+  name: "Phorest",
+  capabilities: {
+    pagination: "page",
+    pageSize: PAGE_SIZE,
+    ratingScale,
+    globalReviewIds: true,
+  },
+
+  async authenticate({ businessId, email, password }) {
+    // Phorest expects API users to be prefixed with their realm
+    return { businessId, auth: { username: `global/${email}`, password } };
+  },
+
+  async listBranches(session): Promise<Branch[]> {
+    const { businessId, auth } = session;
+    const response = await platformClient.get<PhorestBranchesResponse>(
+      `${baseUrl}/${businessId}/branch`,
+      { auth, concurrencyKey: toConcurrencyKey("phorest", session) },
+    );
+
+    const branches = (response.data?._embedded?.branches || []).map(
+      (branch) => ({
+        // Older accounts only expose the ID through the HAL self link
+        id: branch.branchId || branch._links?.self?.href?.split("/").pop(),
+        name: branch.name,
+      }),
+    );
+    return validateAll(branches, parseBranch).accepted;
+  },
+
+  async listReviews(
+    session,
+    branchId,
+    { cursor, signal } = {},
+  ): Promise<ReviewPage> {
+    const { businessId, auth } = session;
+    const page = cursor ? parseInt(cursor, 10) : 0;
+    const response = await platformClient.get<PhorestReviewsResponse>(
+      `${baseUrl}/${businessId}/branch/${branchId}/review`,
+      {
+        params: { page, size: PAGE_SIZE },
+        auth,
+        signal,
+        concurrencyKey: toConcurrencyKey("phorest", session),
+      },
+    );
+
+    const { accepted, rejected } = validateAll(
+      (response.data?._embedded?.reviews || []).map((review) =>
+        toReviewCandidate(review, ratingScale),
+      ),
+      parseReview,
+    );
+    const pageInfo = response.data?.page;
+    return {
+      reviews: accepted,
+      rejected,
+      nextCursor:
+        pageInfo && pageInfo.number + 1 < pageInfo.totalPages
+          ? String(pageInfo.number + 1)
+          : undefined,
+      total: pageInfo?.totalElements,
+    };
+  },
+});
+
+export const phorestProvider = createPhorestProvider();
@@ -0,0 +1,42 @@
+import type { ReviewProvider } from "./types";
+
+const providers = new Map<string, ReviewProvider>();
+
+/**
+ * Makes a provider available to the app. Registering a provider with an ID that is already
+ * registered replaces the existing provider.
+ * @param provider - The provider to register.
+ */
+export function registerProvider(provider: ReviewProvider) {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Returns the provider registered under the given ID.
+ * @param id - The ID of the provider.
+ * @throws UnknownProviderError if no provider is registered under the ID.
+ */
+export function getProvider(id: string): ReviewProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new UnknownProviderError(
+      `No review provider registered for '${id}'.`,
+    );
+  }
+  return provider;
+}
+
+/**
+ * Returns every registered provider, in registration order.
+ */
+export function listProviders(): ReviewProvider[] {
+  return Array.from(providers.values());
+}
+
+export class UnknownProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    Object.setPrototypeOf(this, UnknownProviderError.prototype);
+  }
+}
@@ -0,0 +1,78 @@
+import axios from "axios";
+import { boulevardProvider } from "../boulevard";
+
+jest.mock("axios");
+
+describe("boulevardProvider", () => {
+  const mockRequest = jest.mocked(axios.request);
+  const session = {
+    businessId: "biz",
+    auth: { username: "owner@example.com", password: "secret" },
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it("should map locations to branches", async () => {
+    mockRequest.mockResolvedValue({
+      data: { data: [{ id: "loc_1", name: "Soho" }] },
+    });
+
+    const branches = await boulevardProvider.listBranches(session);
+
+    expect(mockRequest.mock.calls[0][0].url).toMatch(
+      /\/businesses\/biz\/locations$/,
+    );
+    expect(branches).toEqual([{ id: "loc_1", name: "Soho" }]);
+  });
+
+  it("should read client and stylist aliases when normalizing reviews", async () => {
+    mockRequest.mockResolvedValue({
+      data: {
+        data: [
+          {
+            id: "r1",
+            client: { firstName: "Ada", lastName: "Lovelace" },
+            stylist: { firstName: "Grace", lastName: "Hopper" },
+            rating: 5,
+            createdAt: "2024-01-02T00:00:00Z",
+            comment: "Best balayage in town",
+          },
+        ],
+      },
+    });
+
+    const { reviews } = await boulevardProvider.listReviews(session, "loc_1");
+
+    expect(mockRequest.mock.calls[0][0].url).toMatch(
+      /\/businesses\/biz\/locations\/loc_1\/reviews$/,
+    );
+    expect(reviews[0]).toMatchObject({
+      clientFirstName: "Ada",
+      staff: { firstName: "Grace", lastName: "Hopper" },
+      reviewDate: "2024-01-02T00:00:00Z",
+      text: "Best balayage in town",
+    });
+  });
+
+  it("should pass the end cursor back as `after`", async () => {
+    mockRequest.mockResolvedValue({
+      data: {
+        data: [],
+        pageInfo: { hasNextPage: true, endCursor: "abc" },
+        totalCount: 80,
+      },
+    });
+
+    const page = await boulevardProvider.listReviews(session, "loc_1", {
+      cursor: "xyz",
+    });
+
+    expect(mockRequest.mock.calls[0][0].params).toEqual({
+      first: 20,
+      after: "xyz",
+    });
+    expect(page).toMatchObject({ nextCursor: "abc", total: 80 });
+  });
+});
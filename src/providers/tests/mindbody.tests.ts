@@ -0,0 +1,139 @@
+import axios from "axios";
+import { createMindbodyProvider, mindbodyProvider } from "../mindbody";
+
+jest.mock("axios");
+
+describe("mindbodyProvider", () => {
+  const mockRequest = jest.mocked(axios.request);
+  const session = {
+    businessId: "biz",
+    auth: { username: "owner@example.com", password: "secret" },
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it("should map locations to branches and skip those without an ID", async () => {
+    mockRequest.mockResolvedValue({
+      data: { locations: [{ id: 1, name: "Downtown" }, { name: "Uptown" }] },
+    });
+
+    const branches = await mindbodyProvider.listBranches(session);
+
+    expect(mockRequest.mock.calls[0][0].url).toMatch(
+      /\/business\/biz\/locations$/,
+    );
+    expect(branches).toEqual([{ id: "1", name: "Downtown" }]);
+  });
+
+  it("should normalize reviews", async () => {
+    mockRequest.mockResolvedValue({
+      data: {
+        reviews: [
+          {
+            id: "r1",
+            customer: { firstName: "Ada", lastName: "Lovelace" },
+            staff: { firstName: "Grace", lastName: "Hopper" },
+            rating: 4,
+            date: "2024-01-02T00:00:00Z",
+            text: "Lovely cut",
+          },
+        ],
+      },
+    });
+
+    const reviews = await mindbodyProvider.listReviews(session, "1");
+
+    expect(mockRequest.mock.calls[0][0].url).toMatch(
+      /\/business\/biz\/location\/1\/reviews$/,
+    );
+    expect(reviews).toEqual({
+      reviews: [
+        {
+          reviewId: "r1",
+          clientFirstName: "Ada",
+          clientLastName: "Lovelace",
+          rating: 4,
+          originalRating: { value: 4, scale: "fiveStar" },
+          reviewDate: "2024-01-02T00:00:00Z",
+          text: "Lovely cut",
+          staff: { firstName: "Grace", lastName: "Hopper" },
+        },
+      ],
+      rejected: [],
+    });
+  });
+
+  it("should convert ratings from the scale it's set up with", async () => {
+    mockRequest.mockResolvedValue({
+      data: {
+        reviews: [
+          { id: "r1", rating: 9, date: "2024-01-02T00:00:00Z" },
+          { id: "r2", rating: 11, date: "2024-01-03T00:00:00Z" },
+        ],
+      },
+    });
+    const provider = createMindbodyProvider({ ratingScale: "tenPoint" });
+
+    const { reviews, rejected } = await provider.listReviews(session, "1");
+
+    expect(provider.capabilities.ratingScale).toBe("tenPoint");
+    expect(reviews).toEqual([
+      expect.objectContaining({
+        reviewId: "r1",
+        rating: 4.44,
+        originalRating: { value: 9, scale: "tenPoint" },
+      }),
+    ]);
+    expect(rejected).toEqual([
+      {
+        record: expect.objectContaining({ reviewId: "r2" }),
+        reasons: expect.arrayContaining([
+          expect.stringContaining("'originalRating'"),
+        ]),
+      },
+    ]);
+  });
+
+  it("should keep reviews without a rating unrated", async () => {
+    mockRequest.mockResolvedValue({
+      data: {
+        reviews: [{ id: "r2", date: "2024-01-03T00:00:00Z", text: "Nice" }],
+      },
+    });
+
+    const { reviews, rejected } = await mindbodyProvider.listReviews(
+      session,
+      "1",
+    );
+
+    expect(rejected).toEqual([]);
+    expect(reviews[0]).not.toHaveProperty("rating");
+    expect(reviews[0]).not.toHaveProperty("originalRating");
+  });
+
+  it("should page through reviews by offset", async () => {
+    mockRequest.mockResolvedValue({
+      data: {
+        reviews: [],
+        PaginationResponse: {
+          RequestedLimit: 20,
+          RequestedOffset: 20,
+          PageSize: 20,
+          TotalResults: 50,
+        },
+      },
+    });
+
+    const page = await mindbodyProvider.listReviews(session, "1", {
+      cursor: "20",
+    });
+
+    expect(mockRequest.mock.calls[0][0].params).toEqual({
+      limit: 20,
+      offset: 20,
+    });
+    expect(page).toMatchObject({ nextCursor: "40", total: 50 });
+  });
+});
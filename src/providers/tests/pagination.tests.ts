@@ -0,0 +1,85 @@
+import { fetchAllReviews, FetchCancelledError } from "../pagination";
+import type { ReviewPage } from "../types";
+
+describe("fetchAllReviews", () => {
+  const review = (reviewId: string) => ({
+    reviewId,
+    clientFirstName: "Ada",
+    clientLastName: "Lovelace",
+    rating: 5,
+    reviewDate: "2024-01-01T00:00:00Z",
+    text: "",
+  });
+
+  const createFetcher = (pages: Record<string, ReviewPage>) =>
+    jest.fn(async ({ cursor = "start" }: { cursor?: string }) => pages[cursor]);
+
+  it("should follow cursors until the last page", async () => {
+    const fetchPage = createFetcher({
+      start: {
+        reviews: [review("r1")],
+        rejected: [],
+        nextCursor: "2",
+        total: 3,
+      },
+      "2": {
+        reviews: [review("r2")],
+        rejected: [{ record: {}, reasons: ["bad"] }],
+        total: 3,
+      },
+    });
+    const onProgress = jest.fn();
+
+    const result = await fetchAllReviews(fetchPage, {
+      onProgress,
+    });
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(result.reviews.map((r) => r.reviewId)).toEqual(["r1", "r2"]);
+    expect(result.rejected).toHaveLength(1);
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: 3, total: 3 });
+  });
+
+  it("should start from the given cursor", async () => {
+    const fetchPage = createFetcher({
+      "2": { reviews: [review("r2")], rejected: [] },
+    });
+
+    await fetchAllReviews(fetchPage, { cursor: "2" });
+
+    expect(fetchPage).toHaveBeenCalledWith({ cursor: "2", signal: undefined });
+  });
+
+  it("should stop after the page matching `until`", async () => {
+    const fetchPage = createFetcher({
+      start: { reviews: [review("r1")], rejected: [], nextCursor: "2" },
+      "2": { reviews: [review("r2")], rejected: [], nextCursor: "3" },
+      "3": { reviews: [review("r3")], rejected: [] },
+    });
+
+    const result = await fetchAllReviews(fetchPage, {
+      until: (page) => page.reviews.some((r) => r.reviewId === "r2"),
+    });
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(result.reviews.map((r) => r.reviewId)).toEqual(["r1", "r2"]);
+  });
+
+  it("should stop with a FetchCancelledError once the signal is aborted", async () => {
+    const controller = new AbortController();
+    const fetchPage = createFetcher({
+      start: { reviews: [review("r1")], rejected: [], nextCursor: "2" },
+      "2": { reviews: [review("r2")], rejected: [] },
+    });
+    const onPage = jest.fn(() => controller.abort());
+
+    await expect(
+      fetchAllReviews(fetchPage, {
+        signal: controller.signal,
+        onPage,
+      }),
+    ).rejects.toThrow(FetchCancelledError);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(onPage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,156 @@
+import axios from "axios";
+import { phorestProvider } from "../phorest";
+
+jest.mock("axios");
+
+describe("phorestProvider", () => {
+  const mockRequest = jest.mocked(axios.request);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it("should prefix the username with the global realm", async () => {
+    const session = await phorestProvider.authenticate({
+      businessId: "biz",
+      email: "owner@example.com",
+      password: "secret",
+    });
+
+    expect(session).toEqual({
+      businessId: "biz",
+      auth: { username: "global/owner@example.com", password: "secret" },
+    });
+  });
+
+  it("should read branch IDs from the HAL self link when missing", async () => {
+    mockRequest.mockResolvedValue({
+      data: {
+        _embedded: {
+          branches: [
+            { branchId: "b1", name: "Dublin" },
+            {
+              name: "Cork",
+              _links: { self: { href: "https://example.com/branch/b2" } },
+            },
+          ],
+        },
+      },
+    });
+
+    const branches = await phorestProvider.listBranches({
+      businessId: "biz",
+      auth: { username: "global/owner@example.com", password: "secret" },
+    });
+
+    expect(mockRequest.mock.calls[0][0].url).toMatch(/\/biz\/branch$/);
+    expect(branches).toEqual([
+      { id: "b1", name: "Dublin" },
+      { id: "b2", name: "Cork" },
+    ]);
+  });
+
+  it("should return an empty list when the response has no reviews", async () => {
+    mockRequest.mockResolvedValue({ data: {} });
+
+    const reviews = await phorestProvider.listReviews(
+      { businessId: "biz", auth: { username: "u", password: "p" } },
+      "b1",
+    );
+
+    expect(mockRequest.mock.calls[0][0].url).toMatch(
+      /\/biz\/branch\/b1\/review$/,
+    );
+    expect(reviews).toEqual({ reviews: [], rejected: [] });
+  });
+
+  it("should turn HAL page metadata into a cursor for the next page", async () => {
+    mockRequest.mockResolvedValue({
+      data: {
+        _embedded: { reviews: [] },
+        page: { size: 20, totalElements: 45, totalPages: 3, number: 1 },
+      },
+    });
+
+    const page = await phorestProvider.listReviews(
+      { businessId: "biz", auth: { username: "u", password: "p" } },
+      "b1",
+      { cursor: "1" },
+    );
+
+    expect(mockRequest.mock.calls[0][0].params).toEqual({ page: 1, size: 20 });
+    expect(page).toMatchObject({ nextCursor: "2", total: 45 });
+  });
+
+  it("should not return a cursor on the last page", async () => {
+    mockRequest.mockResolvedValue({
+      data: {
+        _embedded: { reviews: [] },
+        page: { size: 20, totalElements: 45, totalPages: 3, number: 2 },
+      },
+    });
+
+    const page = await phorestProvider.listReviews(
+      { businessId: "biz", auth: { username: "u", password: "p" } },
+      "b1",
+      { cursor: "2" },
+    );
+
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it("should keep reviews without a rating unrated and reject bad ratings", async () => {
+    const unrated = {
+      reviewId: "r2",
+      reviewDate: "2024-01-02T00:00:00Z",
+      text: "No stars here",
+    };
+    mockRequest.mockResolvedValue({
+      data: {
+        _embedded: {
+          reviews: [
+            {
+              reviewId: "r1",
+              clientFirstName: "Ada",
+              clientLastName: "Lovelace",
+              rating: 5,
+              reviewDate: "2024-01-01T00:00:00Z",
+              text: "Great",
+              staffFirstName: "Grace",
+              staffLastName: "Hopper",
+            },
+            unrated,
+            { ...unrated, reviewId: "r3", rating: 9 },
+          ],
+        },
+      },
+    });
+
+    const { reviews, rejected } = await phorestProvider.listReviews(
+      { businessId: "biz", auth: { username: "u", password: "p" } },
+      "b1",
+    );
+
+    expect(reviews).toHaveLength(2);
+    expect(reviews[0].staff).toEqual({
+      firstName: "Grace",
+      lastName: "Hopper",
+    });
+    expect(reviews[1]).toEqual({
+      reviewId: "r2",
+      clientFirstName: "",
+      clientLastName: "",
+      reviewDate: "2024-01-02T00:00:00Z",
+      text: "No stars here",
+    });
+    expect(rejected).toEqual([
+      {
+        record: expect.objectContaining({ reviewId: "r3" }),
+        reasons: [
+          expect.stringContaining("'rating'"),
+          expect.stringContaining("'originalRating'"),
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import type { AxiosBasicCredentials } from "axios";
+import type { Branch, RatingScale, RejectedRecord, Review } from "../models";
+
+/**
+ * The details a user enters on the connection settings screen.
+ */
+export interface ProviderCredentials {
+  businessId: string;
+  email: string;
+  password: string;
+}
+
+/**
+ * An authenticated handle returned by {@link ReviewProvider.authenticate} and passed
+ * back into every other provider call.
+ */
+export interface ProviderSession {
+  businessId: string;
+  auth: AxiosBasicCredentials;
+}
+
+/**
+ * Describes what a platform's API supports, so callers can adapt without
+ * special-casing individual platforms.
+ */
+export interface ProviderCapabilities {
+  // How the platform pages through its review listing.
+  pagination: "page" | "offset" | "cursor";
+  // The number of reviews requested per call.
+  pageSize: number;
+  // The scale the platform rates reviews on, which is converted to stars.
+  ratingScale: RatingScale;
+  // Whether review IDs are unique across the business, rather than only within a branch.
+  globalReviewIds: boolean;
+}
+
+/**
+ * The reviews returned by a provider. Records that could not be converted into a valid
+ * {@link Review} are returned in `rejected` rather than being dropped silently.
+ */
+export type ReviewListing = {
+  reviews: Review[];
+  rejected: RejectedRecord[];
+};
+
+/**
+ * A single page of a branch's reviews.
+ */
+export type ReviewPage = ReviewListing & {
+  // An opaque cursor to pass back to `listReviews` for the next page. Undefined on the last page.
+  nextCursor?: string;
+  // The total number of reviews for the branch, if the platform reports it.
+  total?: number;
+};
+
+export type ListReviewsOptions = {
+  // A cursor from a previous {@link ReviewPage}. Omit to fetch the first page.
+  cursor?: string;
+  signal?: AbortSignal;
+};
+
+/**
+ * Options for creating a provider.
+ */
+export type ProviderOptions = {
+  // Overrides the platform's API base URL, such as to point it at a local stand-in server.
+  baseUrl?: string;
+  // Overrides the scale the platform rates reviews on, for accounts that collect ratings
+  // some other way, such as a Net Promoter Score survey.
+  ratingScale?: RatingScale;
+};
+
+/**
+ * An adapter for a single salon software platform. Each platform lives in its own module
+ * and is made available to the app through the provider registry.
+ */
+export interface ReviewProvider {
+  // A stable identifier, used as the value of the platform picker and in saved settings.
+  id: string;
+  // The display name of the platform.
+  name: string;
+  capabilities: ProviderCapabilities;
+
+  /**
+   * Converts the user's credentials into a session for the platform's API.
+   * @param credentials - The credentials entered by the user.
+   */
+  authenticate(credentials: ProviderCredentials): Promise<ProviderSession>;
+
+  /**
+   * Lists the branches (locations) of the business. Branches without an ID or name are
+   * omitted, as they can't be selected.
+   * @param session - A session returned by {@link authenticate}.
+   */
+  listBranches(session: ProviderSession): Promise<Branch[]>;
+
+  /**
+   * Lists a page of the reviews left for a branch, validated against the app's
+   * {@link Review} format.
+   * @param session - A session returned by {@link authenticate}.
+   * @param branchId - The ID of a branch returned by {@link listBranches}.
+   * @param options - The page to fetch and an optional signal to cancel the request.
+   */
+  listReviews(
+    session: ProviderSession,
+    branchId: string,
+    options?: ListReviewsOptions,
+  ): Promise<ReviewPage>;
+}
@@ -0,0 +1,122 @@
+import type { Bounds } from "@canva/design";
+
+/**
+ * Pattern detectors for contact details that shouldn't be published in a design. Each
+ * returns the position of every match, in order.
+ */
+
+// Digits with the separators people type between them, such as "+44 (0)20 7946-0958"
+const PHONE = /\+?\d[\d\s().-]{5,}\d/g;
+// Fewer digits than this is more likely a price, a time or a date
+const MIN_PHONE_DIGITS = 7;
+const DATE = /^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/;
+
+const EMAIL = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu;
+
+// Links with a scheme or "www.", and bare domains on common endings such as "salon.com"
+const URL =
+  /(?:\bhttps?:\/\/|\bwww\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|uk|au|nz|ie|ca|us|salon)\b(?:\/\S*)?/gi;
+// Punctuation that ends the sentence a link is in, rather than the link
+const TRAILING_PUNCTUATION = /[.,;:!?)'"]+$/;
+
+const boundsOf = (matches: IterableIterator<RegExpMatchArray>): Bounds[] =>
+  Array.from(matches, (match) => ({
+    index: match.index || 0,
+    length: match[0].length,
+  }));
+
+export function findPhoneNumbers(text: string): Bounds[] {
+  return boundsOf(text.matchAll(PHONE)).filter(({ index, length }) => {
+    const match = text.slice(index, index + length);
+    return (
+      match.replace(/\D/g, "").length >= MIN_PHONE_DIGITS && !DATE.test(match)
+    );
+  });
+}
+
+export function findEmails(text: string): Bounds[] {
+  return boundsOf(text.matchAll(EMAIL));
+}
+
+export function findUrls(text: string): Bounds[] {
+  return Array.from(text.matchAll(URL), (match) => ({
+    index: match.index || 0,
+    length: match[0].replace(TRAILING_PUNCTUATION, "").length,
+  }));
+}
+
+/**
+ * Words hidden by the profanity detector unless the user chooses their own. Kept short
+ * and matched as whole words, so ordinary words that contain one aren't hidden.
+ */
+export const PROFANITY_WORDS = [
+  "arse",
+  "arsehole",
+  "ass",
+  "asshole",
+  "bastard",
+  "bitch",
+  "bloody",
+  "bollocks",
+  "bullshit",
+  "crap",
+  "damn",
+  "dick",
+  "fuck",
+  "fucked",
+  "fucking",
+  "piss",
+  "pissed",
+  "shit",
+  "shitty",
+  "wanker",
+];
+
+/**
+ * First names that are also everyday words, such as "will" or "grace". They're never
+ * hidden as names, since ordinary words would be hidden with them.
+ */
+export const COMMON_WORD_NAMES = [
+  "amber",
+  "april",
+  "art",
+  "august",
+  "bill",
+  "bob",
+  "brook",
+  "chance",
+  "chase",
+  "daisy",
+  "dawn",
+  "drew",
+  "faith",
+  "frank",
+  "grace",
+  "grant",
+  "holly",
+  "honey",
+  "hope",
+  "iris",
+  "ivy",
+  "jack",
+  "joy",
+  "june",
+  "lily",
+  "mark",
+  "may",
+  "miles",
+  "pat",
+  "pearl",
+  "penny",
+  "ray",
+  "rich",
+  "robin",
+  "rose",
+  "ruby",
+  "rusty",
+  "sandy",
+  "sky",
+  "summer",
+  "sunny",
+  "will",
+];
@@ -0,0 +1,12 @@
+export { PROFANITY_WORDS } from "./detectors";
+export type { RedactionLabels } from "./labels";
+export { formatRedactionLabels } from "./labels";
+export type { RedactedSpan, RedactionKind, RedactionOptions } from "./redact";
+export {
+  findRedactions,
+  findReviewRedactions,
+  maskWord,
+  REDACTION_KINDS,
+  redactText,
+  replaceWithLabel,
+} from "./redact";
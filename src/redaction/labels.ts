@@ -0,0 +1,46 @@
+import type { MessageDescriptor } from "react-intl";
+import { defineMessages } from "react-intl";
+import type { RedactionKind } from "./redact";
+
+/**
+ * The text that takes the place of each kind of hidden detail. Swearing is masked
+ * instead, so it has no label.
+ */
+export type RedactionLabels = Record<
+  Exclude<RedactionKind, "profanity">,
+  string
+>;
+
+const LABELS = defineMessages({
+  email: {
+    defaultMessage: "[email]",
+    description: "Inserted in place of an email address hidden from a review",
+  },
+  url: {
+    defaultMessage: "[link]",
+    description: "Inserted in place of a website link hidden from a review",
+  },
+  phone: {
+    defaultMessage: "[phone number]",
+    description: "Inserted in place of a phone number hidden from a review",
+  },
+  name: {
+    defaultMessage: "[name]",
+    description: "Inserted in place of a person's name hidden from a review",
+  },
+});
+
+/**
+ * Translates the label of each kind of hidden detail.
+ * @param intl - The app's intl object, or the one Bulk Create requests are answered with.
+ */
+export function formatRedactionLabels(intl: {
+  formatMessage: (descriptor: MessageDescriptor) => string;
+}): RedactionLabels {
+  return {
+    email: intl.formatMessage(LABELS.email),
+    url: intl.formatMessage(LABELS.url),
+    phone: intl.formatMessage(LABELS.phone),
+    name: intl.formatMessage(LABELS.name),
+  };
+}
@@ -0,0 +1,188 @@
+import type { Bounds } from "@canva/design";
+import { findKeywords } from "../layout/review_richtext";
+import type { NamePrivacy, Review } from "../models";
+import {
+  COMMON_WORD_NAMES,
+  findEmails,
+  findPhoneNumbers,
+  findUrls,
+  PROFANITY_WORDS,
+} from "./detectors";
+import type { RedactionLabels } from "./labels";
+
+// The detectors in the order their matches win, where matches overlap
+export const REDACTION_KINDS = [
+  "email",
+  "url",
+  "phone",
+  "name",
+  "profanity",
+] as const;
+
+export type RedactionKind = (typeof REDACTION_KINDS)[number];
+
+/**
+ * A part of a review's text that's hidden when the review is inserted.
+ */
+export type RedactedSpan = Bounds & {
+  kind: RedactionKind;
+};
+
+export type RedactionOptions = {
+  // The detectors to run
+  detectors: readonly RedactionKind[];
+  // Words hidden by the profanity detector. Defaults to PROFANITY_WORDS.
+  profanity?: string[];
+  // Names hidden by the name detector, such as those of other clients. Names are matched
+  // capitalized only, and names that are also common words are never hidden.
+  names?: string[];
+  // Names that are never hidden, such as the salon's staff
+  allowedNames?: string[];
+};
+
+const overlaps = (a: Bounds, b: Bounds) =>
+  a.index < b.index + b.length && b.index < a.index + a.length;
+
+/**
+ * Finds the parts of a review's text that shouldn't be published, such as contact details,
+ * other people's names and swearing. Runs offline, so reviews never leave the app to be
+ * checked.
+ * @returns The spans to hide, in order and without overlaps. Where matches overlap, the
+ * detector listed first in {@link REDACTION_KINDS} wins.
+ */
+export function findRedactions(
+  text: string,
+  {
+    detectors,
+    profanity = PROFANITY_WORDS,
+    names = [],
+    allowedNames = [],
+  }: RedactionOptions,
+): RedactedSpan[] {
+  const allowed = new Set(
+    allowedNames.flatMap((name) => name.toLowerCase().split(/\s+/)),
+  );
+  const detect: Record<RedactionKind, () => Bounds[]> = {
+    email: () => findEmails(text),
+    url: () => findUrls(text),
+    phone: () => findPhoneNumbers(text),
+    // Names are only matched capitalized, so "Jo" is hidden but "jo" isn't
+    name: () =>
+      findKeywords(
+        text,
+        names
+          .map((name) => name.trim())
+          .filter((name) => !allowed.has(name.toLowerCase()))
+          .filter((name) => !COMMON_WORD_NAMES.includes(name.toLowerCase()))
+          .map((name) => name.charAt(0).toUpperCase() + name.slice(1)),
+        { caseSensitive: true },
+      ),
+    profanity: () => findKeywords(text, profanity),
+  };
+
+  const spans: RedactedSpan[] = [];
+  REDACTION_KINDS.filter((kind) => detectors.includes(kind)).forEach((kind) => {
+    detect[kind]().forEach((bounds) => {
+      if (!spans.some((span) => overlaps(span, bounds))) {
+        spans.push({ ...bounds, kind });
+      }
+    });
+  });
+  return spans.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Finds the parts of each review in a list to hide. Each review is checked for the names
+ * of the other clients listed, and the names of the staff who served them are never
+ * hidden.
+ * @param reviews - The reviews listed together.
+ * @param options - The detectors to run, the words and names to add to them, and the
+ * privacy setting the reviews' names were shown with. An alias stands in for every
+ * client's name, so it's never hidden as one.
+ * @returns The spans to hide in each review's text, by review ID.
+ */
+export function findReviewRedactions(
+  reviews: Review[],
+  {
+    allowedNames = [],
+    namePrivacy,
+    ...options
+  }: Omit<RedactionOptions, "names"> & { namePrivacy?: NamePrivacy },
+): Map<string, RedactedSpan[]> {
+  const alias =
+    namePrivacy?.mode === "alias" ? namePrivacy.alias?.trim() : undefined;
+  const namesOf = (review: Review) =>
+    [...new Set([review.clientFirstName, review.clientLastName])].filter(
+      // Names reduced to initials would match single letters
+      (name) => name.trim().length > 1 && name.trim() !== alias,
+    );
+  // How many clients have each name, so a review can leave out only its own
+  const nameCounts = new Map<string, number>();
+  reviews.forEach((review) =>
+    namesOf(review).forEach((name) =>
+      nameCounts.set(name, (nameCounts.get(name) || 0) + 1),
+    ),
+  );
+  const staffNames = reviews.flatMap(({ staff }) =>
+    staff ? [staff.firstName, staff.lastName] : [],
+  );
+
+  return new Map(
+    reviews.map((review) => {
+      const ownNames = namesOf(review);
+      const otherClientNames = [...nameCounts]
+        .filter(([name, count]) => count > (ownNames.includes(name) ? 1 : 0))
+        .map(([name]) => name);
+      return [
+        review.reviewId,
+        findRedactions(review.text, {
+          ...options,
+          names: otherClientNames,
+          allowedNames: [...staffNames, ...allowedNames],
+        }),
+      ];
+    }),
+  );
+}
+
+/**
+ * Hides a word while keeping it recognizable as one, such as "d***".
+ */
+export function maskWord(word: string): string {
+  return word.charAt(0) + "*".repeat(Math.max(word.length - 1, 0));
+}
+
+/**
+ * Replaces each span in a piece of text.
+ * @param spans - The spans to replace, as found by {@link findRedactions}.
+ * @param replacementOf - Returns the text that takes a span's place, given the span and
+ * the text it covers.
+ */
+export function redactText(
+  text: string,
+  spans: RedactedSpan[],
+  replacementOf: (span: RedactedSpan, original: string) => string,
+): string {
+  // From the end, so earlier spans keep their position
+  return [...spans]
+    .sort((a, b) => b.index - a.index)
+    .reduce(
+      (redacted, span) =>
+        redacted.slice(0, span.index) +
+        replacementOf(
+          span,
+          redacted.slice(span.index, span.index + span.length),
+        ) +
+        redacted.slice(span.index + span.length),
+      text,
+    );
+}
+
+/**
+ * Returns the text that takes a span's place when it's hidden: swearing is masked and
+ * anything else is replaced with its label. For use with {@link redactText}.
+ * @param labels - The translated label of each kind of detail.
+ */
+export const replaceWithLabel =
+  (labels: RedactionLabels) => (span: RedactedSpan, original: string) =>
+    span.kind === "profanity" ? maskWord(original) : labels[span.kind];
@@ -0,0 +1,132 @@
+import type { RedactedSpan } from "../redact";
+import {
+  findRedactions,
+  findReviewRedactions,
+  maskWord,
+  REDACTION_KINDS,
+  redactText,
+} from "../redact";
+
+describe("findRedactions", () => {
+  const all = { detectors: REDACTION_KINDS };
+  const found = (text: string, spans: RedactedSpan[]) =>
+    spans.map(({ index, length, kind }) => [
+      kind,
+      text.slice(index, index + length),
+    ]);
+
+  it("finds phone numbers, emails and links", () => {
+    const text =
+      "Call me on +44 (0)20 7946-0958 or mail ada@example.com, see www.salon.com/ada.";
+
+    expect(found(text, findRedactions(text, all))).toEqual([
+      ["phone", "+44 (0)20 7946-0958"],
+      ["email", "ada@example.com"],
+      ["url", "www.salon.com/ada"],
+    ]);
+  });
+
+  it("leaves short numbers and dates alone", () => {
+    expect(
+      findRedactions("Paid 45.00 on 01.06.2024 at 10:30", all),
+    ).toHaveLength(0);
+  });
+
+  it("finds swearing as whole words only", () => {
+    const text = "Damn good cut, no crap. Scrapped my old salon.";
+
+    expect(found(text, findRedactions(text, all))).toEqual([
+      ["profanity", "Damn"],
+      ["profanity", "crap"],
+    ]);
+  });
+
+  it("finds names except allowed ones", () => {
+    const text = "Better than when Jane did it, thanks Grace!";
+    const spans = findRedactions(text, {
+      detectors: ["name"],
+      names: ["Jane", "Grace"],
+      allowedNames: ["Grace Hopper"],
+    });
+
+    expect(found(text, spans)).toEqual([["name", "Jane"]]);
+  });
+
+  it("only finds names capitalized, as whole words", () => {
+    const text = "Jo said jo-jo, not Joanne, and ADA was ada";
+    const spans = findRedactions(text, {
+      detectors: ["name"],
+      names: ["jo", "Ada"],
+    });
+
+    expect(found(text, spans)).toEqual([["name", "Jo"]]);
+  });
+
+  it("leaves names that are also common words alone", () => {
+    const text =
+      "I will be back in May, Mark my words. Grace and Rose were lovely.";
+    const spans = findRedactions(text, {
+      detectors: ["name"],
+      names: ["Will", "May", "Mark", "Grace", "Rose", "Jane"],
+    });
+
+    expect(spans).toEqual([]);
+  });
+
+  it("only runs the chosen detectors", () => {
+    expect(
+      findRedactions("Damn, mail ada@example.com", { detectors: ["email"] }),
+    ).toEqual([{ index: 11, length: 15, kind: "email" }]);
+  });
+});
+
+describe("findReviewRedactions", () => {
+  const review = {
+    reviewId: "r1",
+    clientFirstName: "Jane",
+    clientLastName: "Doe",
+    reviewDate: "2024-06-01T10:00:00Z",
+    text: "Jane here, Tom sent me and Sam cut my hair",
+    staff: { firstName: "Sam", lastName: "" },
+  };
+
+  it("hides the names of other clients and not the client's own or staff's", () => {
+    const redactions = findReviewRedactions(
+      [review, { ...review, reviewId: "r2", clientFirstName: "Tom", text: "" }],
+      { detectors: ["name"] },
+    );
+
+    expect(redactions.get("r1")).toEqual([
+      { index: 11, length: 3, kind: "name" },
+    ]);
+  });
+
+  it("doesn't hide the alias shown in place of every client's name", () => {
+    const aliased = { ...review, clientFirstName: "Guest", clientLastName: "" };
+
+    const redactions = findReviewRedactions(
+      [
+        { ...aliased, text: "Booked as a Guest" },
+        { ...aliased, reviewId: "r2", text: "" },
+      ],
+      { detectors: ["name"], namePrivacy: { mode: "alias", alias: "Guest" } },
+    );
+
+    expect(redactions.get("r1")).toEqual([]);
+  });
+});
+
+describe("redactText", () => {
+  it("replaces each span with its replacement", () => {
+    const text = "Damn fine, ring 0123 456 789";
+    const spans = findRedactions(text, {
+      detectors: ["phone", "profanity"],
+    });
+
+    expect(
+      redactText(text, spans, (span, original) =>
+        span.kind === "profanity" ? maskWord(original) : "[phone]",
+      ),
+    ).toBe("D*** fine, ring [phone]");
+  });
+});
@@ -0,0 +1,41 @@
+import { defineMessage } from "react-intl";
+import type { TestimonialTemplate } from "./types";
+
+export const bigStarHero: TestimonialTemplate = {
+  id: "big-star-hero",
+  name: defineMessage({
+    defaultMessage: "Big-star hero",
+    description: "Name of a review template led by an oversized star rating",
+  }),
+  widthRatio: 0.8,
+  textAlign: "center",
+  lines: [
+    {
+      slot: "stars",
+      fontSize: 120,
+      color: "#f3c117",
+      marginTop: 0,
+    },
+    {
+      slot: "quote",
+      before: "“",
+      after: "”",
+      fontSize: 36,
+      color: "#1f1f1f",
+      marginTop: 24,
+    },
+    {
+      slot: "name",
+      fontSize: 30,
+      fontWeight: "bold",
+      color: "#1f1f1f",
+      marginTop: 32,
+    },
+    {
+      slot: "details",
+      fontSize: 22,
+      color: "#6f6f6f",
+      marginTop: 8,
+    },
+  ],
+};
@@ -0,0 +1,46 @@
+import type { FontRef } from "@canva/design";
+import type { StyledLine, StyleProfile, StyleRole } from "../models";
+import { STYLED_LINES } from "../models";
+import type { TemplateLine, TestimonialTemplate } from "./types";
+
+const isStyledLine = (slot: string): slot is StyledLine =>
+  STYLED_LINES.some((line) => line === slot);
+
+const colorOf = (
+  role: StyleRole,
+  { primaryColor, accentColor }: StyleProfile,
+): string | undefined =>
+  ({ template: undefined, primary: primaryColor, accent: accentColor })[role];
+
+/**
+ * Restyles a template with a brand's colors and font. Lines with a role take the color
+ * the role points to, and every line uses the brand's font. Decorations keep the
+ * template's colors, since they're part of its look rather than the review. Star ratings
+ * are drawn the way the brand chose.
+ * @param template - The template to restyle. It isn't changed.
+ * @param profile - The brand's colors, the role of each line, and an optional font.
+ * A role whose color hasn't been chosen keeps the template's color.
+ */
+export function applyBrandStyle(
+  template: TestimonialTemplate,
+  profile: StyleProfile,
+): TestimonialTemplate {
+  const fontRef = profile.font?.ref as FontRef | undefined;
+  const restyle = (line: TemplateLine): TemplateLine => {
+    const role =
+      "slot" in line && isStyledLine(line.slot)
+        ? profile.roles[line.slot]
+        : "template";
+    return {
+      ...line,
+      color: colorOf(role, profile) || line.color,
+      ...(fontRef && { fontRef }),
+    };
+  };
+
+  return {
+    ...template,
+    lines: template.lines.map(restyle),
+    ...(profile.stars && { stars: profile.stars }),
+  };
+}
@@ -0,0 +1,54 @@
+import { defineMessage } from "react-intl";
+import type { TestimonialTemplate } from "./types";
+
+export const cardWithBorder: TestimonialTemplate = {
+  id: "card-with-border",
+  name: defineMessage({
+    defaultMessage: "Card with border",
+    description: "Name of a review template with every detail inside a frame",
+  }),
+  widthRatio: 0.7,
+  textAlign: "center",
+  background: {
+    color: "#ffffff",
+    border: { color: "#e5e5e5", weight: 6 },
+    padding: 72,
+  },
+  lines: [
+    {
+      slot: "heading",
+      fontSize: 28,
+      fontWeight: "bold",
+      color: "#8c8c8c",
+      marginTop: 0,
+    },
+    {
+      slot: "quote",
+      before: "“",
+      after: "”",
+      fontSize: 44,
+      fontStyle: "italic",
+      color: "#1f1f1f",
+      marginTop: 32,
+    },
+    {
+      slot: "stars",
+      fontSize: 48,
+      color: "#f3c117",
+      marginTop: 32,
+    },
+    {
+      slot: "name",
+      fontSize: 32,
+      fontWeight: "bold",
+      color: "#1f1f1f",
+      marginTop: 24,
+    },
+    {
+      slot: "details",
+      fontSize: 24,
+      color: "#6f6f6f",
+      marginTop: 8,
+    },
+  ],
+};
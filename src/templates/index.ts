@@ -0,0 +1,37 @@
+import { bigStarHero } from "./big_star_hero";
+import { cardWithBorder } from "./card_with_border";
+import { instagramStory } from "./instagram_story";
+import { minimalQuote } from "./minimal_quote";
+import { pullQuote } from "./pull_quote";
+import type { TestimonialTemplate } from "./types";
+
+export type {
+  TemplateBackground,
+  TemplateContentLine,
+  TemplateDecorationLine,
+  TemplateLine,
+  TemplateLineStyle,
+  TestimonialTemplate,
+} from "./types";
+export { applyBrandStyle } from "./brand_style";
+
+/**
+ * The templates offered in the gallery, in the order they're shown.
+ */
+export const TEMPLATES: TestimonialTemplate[] = [
+  cardWithBorder,
+  minimalQuote,
+  bigStarHero,
+  instagramStory,
+  pullQuote,
+];
+
+export const DEFAULT_TEMPLATE = cardWithBorder;
+
+/**
+ * Looks up a template, falling back to the default if there's no template with the ID,
+ * such as one saved by an older version of the app.
+ */
+export function getTemplate(id: string | undefined): TestimonialTemplate {
+  return TEMPLATES.find((template) => template.id === id) || DEFAULT_TEMPLATE;
+}
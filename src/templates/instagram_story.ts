@@ -0,0 +1,49 @@
+import { defineMessage } from "react-intl";
+import type { TestimonialTemplate } from "./types";
+
+// Made for 1080 × 1920 story pages, but works on any page since the background covers it
+export const instagramStory: TestimonialTemplate = {
+  id: "instagram-story",
+  name: defineMessage({
+    defaultMessage: "Instagram story",
+    description:
+      "Name of a full-page review template sized for Instagram stories",
+  }),
+  widthRatio: 0.8,
+  textAlign: "center",
+  background: {
+    color: "#2b2b2b",
+    padding: 0,
+    fillPage: true,
+  },
+  lines: [
+    {
+      slot: "heading",
+      fontSize: 32,
+      fontWeight: "bold",
+      color: "#f3c117",
+      marginTop: 0,
+    },
+    {
+      slot: "stars",
+      fontSize: 80,
+      color: "#f3c117",
+      marginTop: 24,
+    },
+    {
+      slot: "quote",
+      before: "“",
+      after: "”",
+      fontSize: 60,
+      fontWeight: "bold",
+      color: "#ffffff",
+      marginTop: 48,
+    },
+    {
+      slot: "name",
+      fontSize: 36,
+      color: "#ffffff",
+      marginTop: 48,
+    },
+  ],
+};
@@ -0,0 +1,31 @@
+import { defineMessage } from "react-intl";
+import type { TestimonialTemplate } from "./types";
+
+export const minimalQuote: TestimonialTemplate = {
+  id: "minimal-quote",
+  name: defineMessage({
+    defaultMessage: "Minimal quote",
+    description:
+      "Name of a review template with only the quote and client name",
+  }),
+  widthRatio: 0.8,
+  textAlign: "center",
+  lines: [
+    {
+      slot: "quote",
+      before: "“",
+      after: "”",
+      fontSize: 48,
+      fontStyle: "italic",
+      color: "#1f1f1f",
+      marginTop: 0,
+    },
+    {
+      slot: "name",
+      before: "— ",
+      fontSize: 28,
+      color: "#6f6f6f",
+      marginTop: 32,
+    },
+  ],
+};
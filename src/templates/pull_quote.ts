@@ -0,0 +1,43 @@
+import { defineMessage } from "react-intl";
+import type { TestimonialTemplate } from "./types";
+
+export const pullQuote: TestimonialTemplate = {
+  id: "pull-quote",
+  name: defineMessage({
+    defaultMessage: "Pull-quote",
+    description:
+      "Name of a left-aligned review template with an oversized quotation mark",
+  }),
+  widthRatio: 0.75,
+  textAlign: "start",
+  lines: [
+    {
+      text: "“",
+      requires: "quote",
+      fontSize: 120,
+      fontWeight: "bold",
+      color: "#c9a227",
+      marginTop: 0,
+    },
+    {
+      slot: "quote",
+      fontSize: 52,
+      fontWeight: "bold",
+      color: "#1f1f1f",
+      marginTop: -64,
+    },
+    {
+      slot: "name",
+      before: "— ",
+      fontSize: 30,
+      color: "#1f1f1f",
+      marginTop: 32,
+    },
+    {
+      slot: "details",
+      fontSize: 22,
+      color: "#6f6f6f",
+      marginTop: 8,
+    },
+  ],
+};
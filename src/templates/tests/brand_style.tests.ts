@@ -0,0 +1,77 @@
+import type { StyleProfile } from "../../models";
+import { applyBrandStyle } from "../brand_style";
+import type { TestimonialTemplate } from "../types";
+
+describe("applyBrandStyle", () => {
+  const template: TestimonialTemplate = {
+    id: "test",
+    name: { id: "test", defaultMessage: "Test" },
+    widthRatio: 0.8,
+    textAlign: "center",
+    lines: [
+      {
+        text: "“",
+        requires: "quote",
+        fontSize: 80,
+        color: "#c9a227",
+        marginTop: 0,
+      },
+      { slot: "quote", fontSize: 48, color: "#1f1f1f", marginTop: 0 },
+      { slot: "stars", fontSize: 40, color: "#f5b400", marginTop: 24 },
+      { slot: "name", fontSize: 28, color: "#6f6f6f", marginTop: 24 },
+      { slot: "details", fontSize: 20, color: "#6f6f6f", marginTop: 8 },
+    ],
+  };
+  const colorsOf = (styled: TestimonialTemplate) =>
+    styled.lines.map((line) => line.color);
+
+  it("colors each line with the brand color its role points to", () => {
+    const styled = applyBrandStyle(template, {
+      primaryColor: "#112233",
+      accentColor: "#445566",
+      roles: { quote: "primary", stars: "accent", name: "template" },
+    });
+
+    expect(colorsOf(styled)).toEqual([
+      "#c9a227",
+      "#112233",
+      "#445566",
+      "#6f6f6f",
+      "#6f6f6f",
+    ]);
+  });
+
+  it("keeps the template's color when the role's color hasn't been chosen", () => {
+    const styled = applyBrandStyle(template, {
+      roles: { quote: "primary", stars: "accent", name: "accent" },
+    });
+
+    expect(colorsOf(styled)).toEqual(colorsOf(template));
+  });
+
+  it("uses the brand's font for every line", () => {
+    const profile: StyleProfile = {
+      roles: { quote: "template", stars: "template", name: "template" },
+      font: { ref: "font-ref", name: "Open Sans" },
+    };
+
+    const styled = applyBrandStyle(template, profile);
+
+    expect(styled.lines.every((line) => line.fontRef === "font-ref")).toBe(
+      true,
+    );
+    expect(template.lines.some((line) => line.fontRef)).toBe(false);
+  });
+
+  it("draws star ratings the way the brand chose", () => {
+    const roles: StyleProfile["roles"] = {
+      quote: "template",
+      stars: "template",
+      name: "template",
+    };
+    const stars = { outlineWidth: 0, size: 1.5, spacing: 0.3 };
+
+    expect(applyBrandStyle(template, { roles, stars }).stars).toEqual(stars);
+    expect(applyBrandStyle(template, { roles }).stars).toBeUndefined();
+  });
+});
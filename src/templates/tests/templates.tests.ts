@@ -0,0 +1,67 @@
+import type { TextElementAtPoint } from "@canva/design";
+import { layoutReviewCard } from "../../layout/review_card";
+import { DEFAULT_TEMPLATE, getTemplate, TEMPLATES } from "..";
+
+describe("TEMPLATES", () => {
+  const content = {
+    heading: "CLIENT REVIEW",
+    quote: "Loved my new colour",
+    stars: "★★★★★",
+    name: "Ada Lovelace",
+    details: "Sat 1 Jun, 2024 with Grace Hopper",
+  };
+
+  it("gives every template a unique ID", () => {
+    const ids = TEMPLATES.map((template) => template.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it.each(TEMPLATES.map((template) => [template.id, template] as const))(
+    "lays out %s within Canva's limits",
+    (_id, template) => {
+      [
+        { width: 1080, height: 1080 },
+        { width: 1080, height: 1920 },
+        { width: 5000, height: 5000 },
+      ].forEach((page) => {
+        const card = layoutReviewCard(content, template, page);
+        const elements = card.type === "group" ? card.children : [card];
+
+        expect(card.left).toBeGreaterThanOrEqual(0);
+        expect(card.top).toBeGreaterThanOrEqual(0);
+        elements
+          .filter(
+            (element): element is TextElementAtPoint => element.type === "text",
+          )
+          .forEach((element) => {
+            expect(element.fontSize).toBeGreaterThanOrEqual(1);
+            expect(element.fontSize).toBeLessThanOrEqual(100);
+          });
+      });
+    },
+  );
+
+  it.each(TEMPLATES.map((template) => [template.id, template] as const))(
+    "lays out %s for a review with only a rating",
+    (_id, template) => {
+      const card = layoutReviewCard(
+        { ...content, quote: undefined, details: undefined },
+        template,
+      );
+
+      expect(JSON.stringify(card)).toContain(content.name);
+    },
+  );
+});
+
+describe("getTemplate", () => {
+  it("finds a template by ID", () => {
+    expect(getTemplate("pull-quote").id).toBe("pull-quote");
+  });
+
+  it("falls back to the default template", () => {
+    expect(getTemplate("retired-template")).toBe(DEFAULT_TEMPLATE);
+    expect(getTemplate(undefined)).toBe(DEFAULT_TEMPLATE);
+  });
+});
@@ -0,0 +1,75 @@
+import type { FontRef, FontWeight } from "@canva/design";
+import type { MessageDescriptor } from "react-intl";
+import type { ReviewCardContent } from "../layout/review_card";
+import type { StarStyle } from "../models";
+
+/**
+ * How a line of a template is styled. Sizes and spacing are in pixels for a block of
+ * text 1000 pixels wide, and are scaled to the width the text takes up on the page.
+ */
+export type TemplateLineStyle = {
+  fontSize: number;
+  // Canva's default font is used if not set
+  fontRef?: FontRef;
+  fontWeight?: FontWeight;
+  fontStyle?: "normal" | "italic";
+  color: string;
+  // The space above the line, relative to the previous line. May be negative to tuck a
+  // line under a decoration with a tall line height.
+  marginTop: number;
+};
+
+/**
+ * A line that shows part of the review, such as the quote or the client's name.
+ */
+export type TemplateContentLine = TemplateLineStyle & {
+  // The rating is shown by the "stars" slot
+  slot: Exclude<keyof ReviewCardContent, "rating">;
+  // Text added around the review's text, such as quotation marks
+  before?: string;
+  after?: string;
+};
+
+/**
+ * A line of fixed text, such as an oversized quotation mark.
+ */
+export type TemplateDecorationLine = TemplateLineStyle & {
+  text: string;
+  // Only shown if the review has this part, such as a quotation mark for the quote
+  requires?: keyof ReviewCardContent;
+};
+
+export type TemplateLine = TemplateContentLine | TemplateDecorationLine;
+
+/**
+ * A rectangle drawn behind the text.
+ */
+export type TemplateBackground = {
+  color: string;
+  border?: {
+    color: string;
+    weight: number;
+  };
+  // The space between the edge of the rectangle and the text
+  padding: number;
+  // Covers the whole page rather than just the text, for full-bleed layouts
+  fillPage?: boolean;
+};
+
+/**
+ * A layout for reviews inserted into the design. Templates are plain data, so a new one
+ * only needs a module in this directory and an entry in `TEMPLATES`.
+ */
+export type TestimonialTemplate = {
+  id: string;
+  // Shown in the template gallery
+  name: MessageDescriptor;
+  // How much of the page's width the text takes up
+  widthRatio: number;
+  textAlign: "start" | "center";
+  // The lines of the card, from the top. Content lines without text are left out.
+  lines: TemplateLine[];
+  background?: TemplateBackground;
+  // How star ratings are drawn. Set from the brand's style profile.
+  stars?: StarStyle;
+};
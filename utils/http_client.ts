@@ -0,0 +1,223 @@
+import type { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import axios, { CanceledError, isAxiosError } from "axios";
+
+export type HttpClientOptions = {
+  // How many times a failed request is retried before giving up.
+  retries?: number;
+  // The delay before the first retry. Each later retry waits twice as long, plus jitter.
+  baseDelayMs?: number;
+  // The longest the client waits between attempts, including when told to by `Retry-After`.
+  maxDelayMs?: number;
+  // How long a single attempt may take before it's abandoned.
+  timeoutMs?: number;
+  // How many requests sharing a `concurrencyKey` may be in flight at once.
+  maxConcurrency?: number;
+  // Returns false for failures that mustn't be retried even though they look transient,
+  // such as a server reporting that it already retried on its side.
+  isRetryable?: (error: AxiosError) => boolean;
+  // Waits between attempts. Replaceable so tests don't have to wait.
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+};
+
+export type HttpRequestConfig = AxiosRequestConfig & {
+  // Requests with the same key share a concurrency limit, such as all requests made with
+  // one set of credentials. Requests without a key aren't limited.
+  concurrencyKey?: string;
+};
+
+const DEFAULT_OPTIONS: Required<HttpClientOptions> = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30 * 1000,
+  timeoutMs: 15 * 1000,
+  maxConcurrency: 4,
+  isRetryable: () => true,
+  sleep: (ms, signal) =>
+    new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CanceledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }),
+};
+
+// Methods that are safe to repeat if it's unclear whether the server processed the request
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+/**
+ * Reads a `Retry-After` header, which is either a number of seconds or an HTTP date.
+ * @returns The delay in milliseconds, or `undefined` if the header is missing or invalid.
+ */
+export function parseRetryAfter(
+  value: unknown,
+  now: number = Date.now(),
+): number | undefined {
+  if (typeof value !== "string" || !value.trim()) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Limits how many tasks run at once for each key. Tasks over the limit wait in a queue.
+ */
+class ConcurrencyLimiter {
+  private readonly active = new Map<string, number>();
+  private readonly queues = new Map<string, (() => void)[]>();
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    await this.acquire(key);
+    try {
+      return await task();
+    } finally {
+      this.release(key);
+    }
+  }
+
+  private acquire(key: string): Promise<void> {
+    const active = this.active.get(key) || 0;
+    if (active < this.limit) {
+      this.active.set(key, active + 1);
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const queue = this.queues.get(key) || [];
+      queue.push(resolve);
+      this.queues.set(key, queue);
+    });
+  }
+
+  private release(key: string) {
+    const next = this.queues.get(key)?.shift();
+    if (next) {
+      // Hand the slot straight to the next task, so the active count is unchanged
+      next();
+      return;
+    }
+    this.queues.delete(key);
+    const active = (this.active.get(key) || 1) - 1;
+    if (active) {
+      this.active.set(key, active);
+    } else {
+      this.active.delete(key);
+    }
+  }
+}
+
+/**
+ * An HTTP client for calls that may fail transiently, such as to the salon platforms and
+ * to the app's backend. Wraps axios with timeouts, retries with exponential backoff,
+ * `Retry-After` handling for 429 responses, and a per-key concurrency limit.
+ */
+export class HttpClient {
+  private readonly options: Required<HttpClientOptions>;
+  private readonly limiter: ConcurrencyLimiter;
+
+  constructor(options: HttpClientOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.limiter = new ConcurrencyLimiter(this.options.maxConcurrency);
+  }
+
+  /**
+   * Sends a request, retrying it if it fails transiently.
+   * @param config - The axios request config, plus an optional concurrency key.
+   * @throws The error of the last attempt, if every attempt fails. Errors that can't be
+   * fixed by retrying, such as a 401, are thrown straight away.
+   */
+  request<T>({
+    concurrencyKey,
+    ...config
+  }: HttpRequestConfig): Promise<AxiosResponse<T>> {
+    const send = () => this.sendWithRetries<T>(config);
+    return concurrencyKey ? this.limiter.run(concurrencyKey, send) : send();
+  }
+
+  /**
+   * The longest a request can take, if every attempt times out and every wait between
+   * attempts is as long as the client allows.
+   */
+  get maxDurationMs(): number {
+    const { retries, timeoutMs, maxDelayMs } = this.options;
+    return (retries + 1) * timeoutMs + retries * maxDelayMs;
+  }
+
+  get<T>(url: string, config: HttpRequestConfig = {}) {
+    return this.request<T>({ ...config, method: "get", url });
+  }
+
+  private async sendWithRetries<T>(
+    config: AxiosRequestConfig,
+  ): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await axios.request<T>({
+          timeout: this.options.timeoutMs,
+          ...config,
+        });
+      } catch (e) {
+        const delay = this.getRetryDelay(e, config, attempt);
+        if (delay === undefined) {
+          throw e;
+        }
+        await this.options.sleep(delay, config.signal as AbortSignal);
+      }
+    }
+  }
+
+  /**
+   * Returns how long to wait before retrying a failed attempt, or `undefined` if it
+   * shouldn't be retried.
+   */
+  private getRetryDelay(
+    error: unknown,
+    config: AxiosRequestConfig,
+    attempt: number,
+  ): number | undefined {
+    const { retries, baseDelayMs, maxDelayMs, isRetryable } = this.options;
+    if (
+      attempt >= retries ||
+      !isAxiosError(error) ||
+      axios.isCancel(error) ||
+      config.signal?.aborted ||
+      !isRetryable(error)
+    ) {
+      return undefined;
+    }
+
+    const status = error.response?.status;
+    if (status === 429) {
+      // The request wasn't processed, so it's safe to retry whatever the method
+      const retryAfter = parseRetryAfter(
+        error.response?.headers["retry-after"],
+      );
+      if (retryAfter !== undefined) {
+        // Waiting longer than the cap would leave the user staring at a spinner
+        return retryAfter <= maxDelayMs ? retryAfter : undefined;
+      }
+    } else {
+      const method = (config.method || "get").toLowerCase();
+      const transient =
+        status === undefined || RETRYABLE_STATUSES.includes(status);
+      if (!transient || !IDEMPOTENT_METHODS.includes(method)) {
+        return undefined;
+      }
+    }
+
+    // Jitter keeps clients that failed together from retrying in lockstep
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+  }
+}
@@ -1,6 +1,6 @@
 import type { Cell, TableElement } from "@canva/design";
 
-const MAX_CELL_COUNT = 225;
+export const MAX_CELL_COUNT = 225;
 
 // Additional information in the wrapper that are not available in the table cell element.
 // Currently, only merged cells, but it can later extend to other custom properties, like border, size,...
@@ -0,0 +1,196 @@
+import type { AxiosResponse } from "axios";
+import axios, { AxiosError, AxiosHeaders } from "axios";
+import { HttpClient, parseRetryAfter } from "../http_client";
+
+describe("HttpClient", () => {
+  let request: jest.SpyInstance;
+  let sleep: jest.Mock<Promise<void>, [number, AbortSignal?]>;
+
+  const ok = (data: unknown = {}) =>
+    ({ data, status: 200, headers: {} }) as AxiosResponse;
+
+  const failure = (status?: number, headers: Record<string, string> = {}) =>
+    new AxiosError(
+      "Request failed",
+      status ? undefined : "ECONNABORTED",
+      undefined,
+      undefined,
+      status
+        ? ({
+            status,
+            headers: new AxiosHeaders(headers),
+            data: {},
+          } as AxiosResponse)
+        : undefined,
+    );
+
+  beforeEach(() => {
+    request = jest.spyOn(axios, "request");
+    sleep = jest.fn(async (_ms: number, _signal?: AbortSignal) => undefined);
+  });
+
+  afterEach(() => {
+    request.mockRestore();
+  });
+
+  it("applies the timeout to each attempt", async () => {
+    request.mockResolvedValue(ok());
+    const client = new HttpClient({ timeoutMs: 1000, sleep });
+
+    await client.get("https://example.com/reviews");
+
+    expect(request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: "https://example.com/reviews",
+        method: "get",
+        timeout: 1000,
+      }),
+    );
+  });
+
+  it("retries network errors and server errors with growing delays", async () => {
+    request
+      .mockRejectedValueOnce(failure())
+      .mockRejectedValueOnce(failure(503))
+      .mockResolvedValueOnce(ok("done"));
+    const client = new HttpClient({ baseDelayMs: 100, sleep });
+
+    const response = await client.get("https://example.com");
+
+    expect(response.data).toBe("done");
+    expect(sleep).toHaveBeenCalledTimes(2);
+    const [[first], [second]] = sleep.mock.calls;
+    expect(first).toBeGreaterThanOrEqual(50);
+    expect(first).toBeLessThanOrEqual(100);
+    expect(second).toBeGreaterThanOrEqual(100);
+    expect(second).toBeLessThanOrEqual(200);
+  });
+
+  it("waits for as long as a 429's Retry-After header asks", async () => {
+    request
+      .mockRejectedValueOnce(failure(429, { "retry-after": "2" }))
+      .mockResolvedValueOnce(ok());
+    const client = new HttpClient({ sleep });
+
+    await client.get("https://example.com");
+
+    expect(sleep).toHaveBeenCalledWith(2000, undefined);
+  });
+
+  it("gives up if Retry-After is longer than the maximum delay", async () => {
+    const error = failure(429, { "retry-after": "120" });
+    request.mockRejectedValue(error);
+    const client = new HttpClient({ maxDelayMs: 10000, sleep });
+
+    await expect(client.get("https://example.com")).rejects.toBe(error);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it("doesn't retry errors that retrying can't fix", async () => {
+    request.mockRejectedValue(failure(401));
+    const client = new HttpClient({ sleep });
+
+    await expect(client.get("https://example.com")).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't repeat a POST that may have been processed", async () => {
+    request.mockRejectedValue(failure(503));
+    const client = new HttpClient({ sleep });
+
+    await expect(
+      client.request({ method: "post", url: "https://example.com" }),
+    ).rejects.toMatchObject({ response: { status: 503 } });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't retry failures the caller rules out", async () => {
+    const error = failure(502);
+    request.mockRejectedValue(error);
+    const isRetryable = jest.fn(() => false);
+    const client = new HttpClient({ isRetryable, sleep });
+
+    await expect(client.get("https://example.com")).rejects.toBe(error);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(isRetryable).toHaveBeenCalledWith(error);
+  });
+
+  it("reports how long a request can take at most", () => {
+    const client = new HttpClient({
+      retries: 2,
+      timeoutMs: 1000,
+      maxDelayMs: 500,
+    });
+
+    expect(client.maxDurationMs).toBe(4000);
+  });
+
+  it("stops after the configured number of retries", async () => {
+    request.mockRejectedValue(failure(502));
+    const client = new HttpClient({ retries: 2, sleep });
+
+    await expect(client.get("https://example.com")).rejects.toMatchObject({
+      response: { status: 502 },
+    });
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry once the signal is aborted", async () => {
+    const controller = new AbortController();
+    request.mockImplementation(async () => {
+      controller.abort();
+      throw failure();
+    });
+    const client = new HttpClient({ sleep });
+
+    await expect(
+      client.get("https://example.com", { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(AxiosError);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it("limits how many requests with the same key are in flight", async () => {
+    const pending: (() => void)[] = [];
+    request.mockImplementation(
+      () => new Promise((resolve) => pending.push(() => resolve(ok()))),
+    );
+    const client = new HttpClient({ maxConcurrency: 2, sleep });
+
+    const responses = [1, 2, 3].map(() =>
+      client.get("https://example.com", { concurrencyKey: "owner" }),
+    );
+    const other = client.get("https://example.com", {
+      concurrencyKey: "other",
+    });
+    await new Promise(process.nextTick);
+
+    // Two requests for "owner", plus the one for "other"
+    expect(request).toHaveBeenCalledTimes(3);
+
+    pending.shift()?.();
+    await new Promise(process.nextTick);
+    expect(request).toHaveBeenCalledTimes(4);
+
+    pending.forEach((resolve) => resolve());
+    await Promise.all([...responses, other]);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads a number of seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+  });
+
+  it("reads an HTTP date", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:05 GMT", now)).toBe(5000);
+  });
+
+  it("ignores missing and invalid values", () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
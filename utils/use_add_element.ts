@@ -1,7 +1,10 @@
 import type {
   EmbedElement,
+  GroupElementAtPoint,
   ImageElement,
+  ImageElementAtPoint,
   RichtextElement,
+  RichtextElementAtPoint,
   TableElement,
   TextElement,
   VideoElement,
@@ -13,11 +16,20 @@ import { useEffect, useState } from "react";
 
 type AddElementParams =
   | ImageElement
+  | ImageElementAtPoint
   | VideoElement
   | EmbedElement
   | TextElement
   | RichtextElement
-  | TableElement;
+  | RichtextElementAtPoint
+  | TableElement
+  | GroupElementAtPoint;
+
+// Groups must be positioned, so they can't be added at the cursor
+const canAddAtCursor = (
+  element: AddElementParams,
+): element is Exclude<AddElementParams, GroupElementAtPoint> =>
+  element.type !== "group";
 
 export const useAddElement = () => {
   const isSupported = useFeatureSupport();
@@ -27,7 +39,10 @@ export const useAddElement = () => {
     return (element: AddElementParams) => {
       if (features.isSupported(addElementAtPoint)) {
         return addElementAtPoint(element);
-      } else if (features.isSupported(addElementAtCursor)) {
+      } else if (
+        features.isSupported(addElementAtCursor) &&
+        canAddAtCursor(element)
+      ) {
         return addElementAtCursor(element);
       }
     };
@@ -37,7 +52,7 @@ export const useAddElement = () => {
     const addElement = (element: AddElementParams) => {
       if (isSupported(addElementAtPoint)) {
         return addElementAtPoint(element);
-      } else if (isSupported(addElementAtCursor)) {
+      } else if (isSupported(addElementAtCursor) && canAddAtCursor(element)) {
         return addElementAtCursor(element);
       }
     };